@@ -539,6 +539,7 @@ main() {
   set_default PORT "8090"
   set_default MCP_HTTP_PATH "/mcp"
   set_default HEALTH_PATH "/healthz"
+  set_default METRICS_PATH "/metrics"
   set_default FLAIR_API_BASE_URL "https://api.flair.co"
   set_default FLAIR_API_ROOT_PATH "/api/"
   set_default FLAIR_TOKEN_PATH "/oauth2/token"
@@ -549,6 +550,22 @@ main() {
   set_default ALLOWED_MCP_HOSTS "localhost,127.0.0.1"
   set_default ALLOWED_MCP_ORIGINS ""
   set_default WRITE_TOOLS_ENABLED "false"
+  set_default MCP_API_KEYS ""
+  set_default TRUST_PROXY "loopback"
+  set_default RATE_LIMIT_ENABLED "true"
+  set_default RESOURCE_SUBSCRIPTIONS_ENABLED "true"
+  set_default VENT_POLICY_ENABLED "true"
+  set_default WRITE_CONFIRMATION_ENABLED "false"
+  set_default WRITE_JOURNAL_ENABLED "true"
+  set_default WRITE_JOURNAL_FILE "$ROOT_DIR/data/write-journal.json"
+  set_default SCENES_ENABLED "true"
+  set_default SCENES_FILE "$ROOT_DIR/data/scenes.json"
+  set_default RULES_ENABLED "false"
+  set_default RULES_FILE "$ROOT_DIR/data/rules.json"
+  set_default AUDIT_LOG_ENABLED "true"
+  set_default AUDIT_LOG_FILE "$ROOT_DIR/data/audit.jsonl"
+  set_default HISTORY_RECORDER_ENABLED "false"
+  set_default HISTORY_DIR "$ROOT_DIR/data/history"
   set_default LOG_LEVEL "info"
   set_default LOG_FILE "$ROOT_DIR/data/flair-mcp.log"
   set_default_if_blank LOG_FILE "$ROOT_DIR/data/flair-mcp.log"
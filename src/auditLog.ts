@@ -0,0 +1,148 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+import { appendFile, mkdir, readFile, rename, rm, stat } from "node:fs/promises";
+import path from "node:path";
+import { logger } from "./logger.js";
+
+export type UpstreamWrite = {
+  method: string;
+  path: string;
+  // HTTP status, or null when the request never got a response.
+  status: number | null;
+};
+
+export type AuditEvent = {
+  at: string;
+  sessionId?: string;
+  client?: string;
+  tool: string;
+  access: "read" | "write";
+  // Tool arguments with sensitive keys redacted.
+  arguments: unknown;
+  dryRun: boolean;
+  outcome: "ok" | "error" | "rate_limited";
+  error?: string;
+  durationMs: number;
+  upstream: UpstreamWrite[];
+};
+
+export type AuditQuery = {
+  since?: string;
+  until?: string;
+  tool?: string;
+  sessionId?: string;
+  outcome?: AuditEvent["outcome"];
+  limit?: number;
+};
+
+export type AuditLogOptions = {
+  filePath: string;
+  // Rotate once the active file would grow past this size.
+  maxBytes: number;
+  // Rotated files kept next to the active one (`audit.jsonl.1` is the newest).
+  maxFiles: number;
+};
+
+// Collects the upstream writes made while one tool call runs, however deep in the client they happen.
+const upstreamWrites = new AsyncLocalStorage<UpstreamWrite[]>();
+
+export const captureUpstreamWrites = <T>(run: () => Promise<T>) => {
+  const writes: UpstreamWrite[] = [];
+  return { writes, result: upstreamWrites.run(writes, run) };
+};
+
+/** Called by the Flair API client for every non-GET attempt, retries included. */
+export const noteUpstreamWrite = (write: UpstreamWrite) => {
+  upstreamWrites.getStore()?.push(write);
+};
+
+/**
+ * Append-only JSONL record of tool calls. Appends are serialized so lines never interleave, and
+ * the active file is rotated by size. Failures are logged and never fail the tool call.
+ */
+export class AuditLog {
+  private pending: Promise<void> = Promise.resolve();
+  private size: number | null = null;
+
+  constructor(private readonly options: AuditLogOptions) {}
+
+  append(event: AuditEvent) {
+    const line = `${JSON.stringify(event)}\n`;
+    this.pending = this.pending.then(async () => {
+      try {
+        await this.rotateIfNeeded(Buffer.byteLength(line));
+        await appendFile(this.options.filePath, line, { encoding: "utf8", mode: 0o600 });
+        this.size = (this.size ?? 0) + Buffer.byteLength(line);
+      } catch (err) {
+        logger.warn({ err, filePath: this.options.filePath }, "Failed to write audit log entry");
+      }
+    });
+    return this.pending;
+  }
+
+  /** Newest first across the active and rotated files. */
+  async query(query: AuditQuery = {}) {
+    await this.pending;
+    const limit = query.limit ?? 50;
+    const sinceMs = query.since ? Date.parse(query.since) : undefined;
+    const untilMs = query.until ? Date.parse(query.until) : undefined;
+    const matches: AuditEvent[] = [];
+
+    for (const filePath of this.filePaths()) {
+      const lines = await this.readLines(filePath);
+      for (let index = lines.length - 1; index >= 0 && matches.length < limit; index -= 1) {
+        let event: AuditEvent;
+        try {
+          event = JSON.parse(lines[index]) as AuditEvent;
+        } catch {
+          continue;
+        }
+        const atMs = Date.parse(event.at);
+        if (sinceMs !== undefined && atMs < sinceMs) continue;
+        if (untilMs !== undefined && atMs > untilMs) continue;
+        if (query.tool && event.tool !== query.tool) continue;
+        if (query.sessionId && event.sessionId !== query.sessionId) continue;
+        if (query.outcome && event.outcome !== query.outcome) continue;
+        matches.push(event);
+      }
+      if (matches.length >= limit) break;
+    }
+    return matches;
+  }
+
+  private filePaths() {
+    return [
+      this.options.filePath,
+      ...Array.from({ length: this.options.maxFiles }, (_, index) => `${this.options.filePath}.${index + 1}`)
+    ];
+  }
+
+  private async readLines(filePath: string) {
+    try {
+      return (await readFile(filePath, "utf8")).split("\n").filter(Boolean);
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== "ENOENT") throw err;
+      return [];
+    }
+  }
+
+  private async rotateIfNeeded(incomingBytes: number) {
+    if (this.size === null) {
+      await mkdir(path.dirname(this.options.filePath), { recursive: true });
+      this.size = await stat(this.options.filePath).then(
+        (stats) => stats.size,
+        () => 0
+      );
+    }
+    if (this.size === 0 || this.size + incomingBytes <= this.options.maxBytes) return;
+
+    const [active, ...rotated] = this.filePaths();
+    await rm(rotated[rotated.length - 1] ?? active, { force: true });
+    for (let index = rotated.length - 1; index > 0; index -= 1) {
+      await rename(rotated[index - 1], rotated[index]).catch((err: NodeJS.ErrnoException) => {
+        if (err.code !== "ENOENT") throw err;
+      });
+    }
+    if (rotated.length > 0) await rename(active, rotated[0]);
+    this.size = 0;
+  }
+}
@@ -0,0 +1,49 @@
+import crypto from "node:crypto";
+import type { Request } from "express";
+import { config, type ApiKeyEntry } from "./config.js";
+
+export type ClientIdentity = {
+  label: string;
+  scope: ApiKeyEntry["scope"];
+};
+
+export const hashApiKey = (key: string) => crypto.createHash("sha256").update(key, "utf8").digest("hex");
+
+export const isAuthEnabled = () => config.apiKeys.length > 0;
+
+const extractPresentedKey = (headers: Request["headers"]) => {
+  const authorization = headers.authorization;
+  if (typeof authorization === "string") {
+    const match = authorization.match(/^Bearer\s+(.+)$/i);
+    if (match) return match[1].trim();
+  }
+  const apiKey = headers["x-api-key"];
+  if (Array.isArray(apiKey)) return apiKey[0]?.trim();
+  return typeof apiKey === "string" ? apiKey.trim() : undefined;
+};
+
+/**
+ * Resolves the presented API key to a configured identity.
+ * Returns `undefined` when auth is enabled and the key is missing or unknown.
+ */
+export const authenticateRequest = (headers: Request["headers"]): ClientIdentity | undefined => {
+  const presented = extractPresentedKey(headers);
+  if (!presented) return undefined;
+
+  const digest = Buffer.from(hashApiKey(presented), "hex");
+  let matched: ApiKeyEntry | undefined;
+  for (const entry of config.apiKeys) {
+    // Compare every entry so timing does not reveal which label matched.
+    if (crypto.timingSafeEqual(digest, Buffer.from(entry.sha256, "hex")) && !matched) {
+      matched = entry;
+    }
+  }
+
+  return matched ? { label: matched.label, scope: matched.scope } : undefined;
+};
+
+export const canUseWriteTools = (identity?: ClientIdentity) =>
+  config.writeToolsEnabled && (!identity || identity.scope === "write");
+
+export const canOverrideVentPolicy = (identity?: ClientIdentity) =>
+  !!identity && config.ventPolicy.overrideKeys.includes(identity.label);
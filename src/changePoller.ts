@@ -0,0 +1,149 @@
+import { logger } from "./logger.js";
+import { resourceUpdatesTotal } from "./metrics.js";
+
+export type ResourceRef = {
+  resourceType: string;
+  resourceId: string;
+};
+
+export type ResourceChangeListener = (changed: ResourceRef[]) => void;
+
+// Keyed by `type/id`; values are opaque fingerprints that differ whenever the watched state does.
+export type ChangeSnapshot = Map<string, string>;
+
+export type ResourceChangePollerOptions = {
+  intervalMs: number;
+  // Ceiling for the backoff applied after failed polls.
+  maxIntervalMs: number;
+};
+
+export const snapshotKey = (resourceType: string, resourceId: string) => `${resourceType}/${resourceId}`;
+
+const parseSnapshotKey = (key: string): ResourceRef => {
+  const slash = key.indexOf("/");
+  return { resourceType: key.slice(0, slash), resourceId: key.slice(slash + 1) };
+};
+
+/** Keys whose fingerprint changed, appeared or disappeared between two snapshots. */
+export const diffSnapshots = (previous: ChangeSnapshot, next: ChangeSnapshot): ResourceRef[] => {
+  const changed: string[] = [];
+  for (const [key, fingerprint] of next) {
+    if (previous.get(key) !== fingerprint) changed.push(key);
+  }
+  for (const key of previous.keys()) {
+    if (!next.has(key)) changed.push(key);
+  }
+  return changed.map(parseSnapshotKey);
+};
+
+/**
+ * Polls a snapshot loader while at least one listener is subscribed and reports what changed.
+ * One poller is shared by every session so subscribers do not multiply upstream traffic.
+ */
+export class ResourceChangePoller {
+  private readonly listeners = new Set<ResourceChangeListener>();
+  private timer: NodeJS.Timeout | null = null;
+  private inflight: Promise<ResourceRef[]> | null = null;
+  // The first poll after the poller starts only records a baseline.
+  private previous: ChangeSnapshot | null = null;
+  // Bumped by stop() so a poll still in flight cannot record a baseline for the next run.
+  private generation = 0;
+  private currentIntervalMs: number;
+  private lastPollAtMs?: number;
+  private lastError?: string;
+  private polls = 0;
+  private failures = 0;
+
+  constructor(
+    private readonly loadSnapshot: () => Promise<ChangeSnapshot>,
+    private readonly options: ResourceChangePollerOptions
+  ) {
+    this.currentIntervalMs = options.intervalMs;
+  }
+
+  subscribe(listener: ResourceChangeListener) {
+    this.listeners.add(listener);
+    if (this.listeners.size === 1) this.schedule(0);
+    return () => {
+      this.listeners.delete(listener);
+      if (this.listeners.size === 0) this.stop();
+    };
+  }
+
+  /** Polls immediately (coalescing with a poll already in flight) and returns what changed. */
+  pollNow(): Promise<ResourceRef[]> {
+    if (!this.inflight) {
+      const inflight = this.poll().finally(() => {
+        if (this.inflight === inflight) this.inflight = null;
+      });
+      this.inflight = inflight;
+    }
+    return this.inflight;
+  }
+
+  stop() {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+    this.inflight = null;
+    this.previous = null;
+    this.generation += 1;
+    this.currentIntervalMs = this.options.intervalMs;
+  }
+
+  getStatus() {
+    return {
+      subscribers: this.listeners.size,
+      running: this.listeners.size > 0,
+      intervalMs: this.currentIntervalMs,
+      polls: this.polls,
+      failures: this.failures,
+      lastPollAt: this.lastPollAtMs ? new Date(this.lastPollAtMs).toISOString() : null,
+      lastError: this.lastError ?? null
+    };
+  }
+
+  private async poll(): Promise<ResourceRef[]> {
+    this.polls += 1;
+    const generation = this.generation;
+    try {
+      const next = await this.loadSnapshot();
+      if (generation !== this.generation) return [];
+      const changed = this.previous ? diffSnapshots(this.previous, next) : [];
+      this.previous = next;
+      this.lastPollAtMs = Date.now();
+      this.lastError = undefined;
+      this.currentIntervalMs = this.options.intervalMs;
+
+      if (changed.length > 0) {
+        resourceUpdatesTotal.inc(changed.length);
+        for (const listener of Array.from(this.listeners)) {
+          try {
+            listener(changed);
+          } catch (err) {
+            logger.warn({ err }, "Resource change listener failed");
+          }
+        }
+      }
+      return changed;
+    } catch (err) {
+      if (generation !== this.generation) return [];
+      this.failures += 1;
+      this.lastError = err instanceof Error ? err.message : String(err);
+      // Back off so a throttled or failing upstream is not hit again on every tick.
+      this.currentIntervalMs = Math.min(this.currentIntervalMs * 2, this.options.maxIntervalMs);
+      logger.warn({ err, nextPollInMs: this.currentIntervalMs }, "Resource change poll failed");
+      return [];
+    }
+  }
+
+  private schedule(delayMs: number) {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      void this.pollNow().finally(() => {
+        if (this.listeners.size > 0 && !this.timer) this.schedule(this.currentIntervalMs);
+      });
+    }, delayMs);
+    this.timer.unref();
+  }
+}
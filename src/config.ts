@@ -14,10 +14,13 @@ const boolFromEnv = (value: string | undefined, defaultValue: boolean) => {
 };
 
 const schema = z.object({
+  MCP_TRANSPORT: z.preprocess(emptyToUndefined, z.enum(["http", "stdio"]).default("http")),
   PORT: z.coerce.number().int().positive().default(8090),
   PUBLIC_URL: z.preprocess(emptyToUndefined, z.string().url().optional()),
   MCP_HTTP_PATH: z.string().default("/mcp"),
   HEALTH_PATH: z.string().default("/healthz"),
+  METRICS_ENABLED: z.preprocess(emptyToUndefined, z.string().optional()),
+  METRICS_PATH: z.string().default("/metrics"),
 
   FLAIR_CLIENT_ID: z.string().min(1),
   FLAIR_CLIENT_SECRET: z.string().min(1),
@@ -30,9 +33,66 @@ const schema = z.object({
   FLAIR_RETRY_BASE_MS: z.coerce.number().int().positive().default(250),
   FLAIR_TOKEN_SKEW_SEC: z.coerce.number().int().min(0).default(30),
 
+  FLAIR_CACHE_ENABLED: z.preprocess(emptyToUndefined, z.string().optional()),
+  FLAIR_CACHE_DEFAULT_TTL_MS: z.coerce.number().int().min(0).default(30000),
+  FLAIR_CACHE_TTLS: z.preprocess(emptyToUndefined, z.string().optional()),
+  FLAIR_CACHE_MAX_ENTRIES: z.coerce.number().int().positive().default(500),
+
+  VENT_POLICY_ENABLED: z.preprocess(emptyToUndefined, z.string().optional()),
+  VENT_POLICY_MAX_CLOSED_FRACTION: z.coerce.number().min(0).max(1).default(0.5),
+  VENT_POLICY_ROOM_MIN_PERCENT: z.preprocess(emptyToUndefined, z.string().optional()),
+  VENT_POLICY_QUIET_HOURS: z.preprocess(emptyToUndefined, z.string().optional()),
+  VENT_POLICY_TIMEZONE: z.preprocess(emptyToUndefined, z.string().optional()),
+  VENT_POLICY_OVERRIDE_KEYS: z.preprocess(emptyToUndefined, z.string().optional()),
+
+  RESOURCE_SUBSCRIPTIONS_ENABLED: z.preprocess(emptyToUndefined, z.string().optional()),
+  RESOURCE_POLL_INTERVAL_MS: z.coerce.number().int().min(5000).default(60000),
+  RESOURCE_POLL_MAX_INTERVAL_MS: z.coerce.number().int().min(5000).default(600000),
+
+  WRITE_JOURNAL_ENABLED: z.preprocess(emptyToUndefined, z.string().optional()),
+  WRITE_JOURNAL_FILE: z.string().default("data/write-journal.json"),
+  WRITE_JOURNAL_MAX_ENTRIES: z.coerce.number().int().positive().default(500),
+
+  SCENES_ENABLED: z.preprocess(emptyToUndefined, z.string().optional()),
+  SCENES_FILE: z.string().default("data/scenes.json"),
+  SCENES_MAX: z.coerce.number().int().positive().default(200),
+
+  RULES_ENABLED: z.preprocess(emptyToUndefined, z.string().optional()),
+  RULES_FILE: z.string().default("data/rules.json"),
+  RULES_MAX: z.coerce.number().int().positive().default(50),
+  RULES_MAX_FIRINGS: z.coerce.number().int().positive().default(500),
+  RULES_INTERVAL_MS: z.coerce.number().int().min(10000).default(60000),
+  RULES_DRY_RUN: z.preprocess(emptyToUndefined, z.string().optional()),
+
+  WRITE_CONFIRMATION_ENABLED: z.preprocess(emptyToUndefined, z.string().optional()),
+  WRITE_CONFIRMATION_TOKEN_TTL_MS: z.coerce.number().int().min(10000).default(300000),
+
+  AUDIT_LOG_ENABLED: z.preprocess(emptyToUndefined, z.string().optional()),
+  AUDIT_LOG_FILE: z.string().default("data/audit.jsonl"),
+  AUDIT_LOG_MAX_BYTES: z.coerce.number().int().min(1024).default(10485760),
+  AUDIT_LOG_MAX_FILES: z.coerce.number().int().min(1).max(50).default(5),
+
+  DEVICE_HEALTH_LOW_BATTERY_VOLTAGE: z.coerce.number().min(0).max(10).default(2.6),
+  DEVICE_HEALTH_LOW_BATTERY_PERCENT: z.coerce.number().min(0).max(100).default(20),
+  DEVICE_HEALTH_WEAK_RSSI_DBM: z.coerce.number().min(-120).max(0).default(-80),
+  DEVICE_HEALTH_STALE_MINUTES: z.coerce.number().int().min(1).default(60),
+
+  HISTORY_RECORDER_ENABLED: z.preprocess(emptyToUndefined, z.string().optional()),
+  HISTORY_DIR: z.string().default("data/history"),
+  HISTORY_INTERVAL_MS: z.coerce.number().int().min(30000).default(300000),
+  HISTORY_RETENTION_DAYS: z.coerce.number().int().min(1).max(3650).default(30),
+
   ALLOWED_MCP_HOSTS: z.preprocess(emptyToUndefined, z.string().optional()),
   ALLOWED_MCP_ORIGINS: z.preprocess(emptyToUndefined, z.string().optional()),
   WRITE_TOOLS_ENABLED: z.preprocess(emptyToUndefined, z.string().optional()),
+  MCP_API_KEYS: z.preprocess(emptyToUndefined, z.string().optional()),
+  TRUST_PROXY: z.preprocess(emptyToUndefined, z.string().optional()),
+
+  RATE_LIMIT_ENABLED: z.preprocess(emptyToUndefined, z.string().optional()),
+  RATE_LIMIT_READ_BURST: z.coerce.number().int().positive().default(30),
+  RATE_LIMIT_READ_PER_MIN: z.coerce.number().int().positive().default(60),
+  RATE_LIMIT_WRITE_BURST: z.coerce.number().int().positive().default(5),
+  RATE_LIMIT_WRITE_PER_MIN: z.coerce.number().int().positive().default(10),
 
   LOG_LEVEL: z.string().default("info"),
   LOG_FILE: z.preprocess(emptyToUndefined, z.string().optional())
@@ -47,6 +107,9 @@ if (!parsed.success) {
 
 const env = parsed.data;
 
+// `--stdio` on the command line wins over MCP_TRANSPORT so local clients can launch the server directly.
+const transport = process.argv.includes("--stdio") ? "stdio" : env.MCP_TRANSPORT;
+
 const publicHost = (() => {
   if (!env.PUBLIC_URL) return undefined;
   try {
@@ -75,11 +138,136 @@ if (!allowedHosts.includes("127.0.0.1")) {
   allowedHosts.push("127.0.0.1");
 }
 
+const defaultCacheTtls: Record<string, number> = {
+  // API root links have their own cache in FlairApiClient; 0 keeps coalescing without storing.
+  root: 0,
+  structures: 300000,
+  rooms: 300000,
+  pucks: 60000,
+  puck2s: 60000,
+  "remote-sensors": 60000,
+  thermostats: 30000,
+  vents: 10000,
+  "room-stats": 15000
+};
+
+// Entries look like `type=ms`, e.g. `rooms=600000,vents=5000`; 0 disables caching for that type.
+const parseCacheTtls = (raw?: string) => {
+  const ttls = { ...defaultCacheTtls };
+  for (const part of splitCsv(raw)) {
+    const [type, value] = part.split("=").map((v) => v.trim());
+    const ms = Number(value);
+    if (!type || !Number.isInteger(ms) || ms < 0) {
+      // eslint-disable-next-line no-console
+      console.error(`Invalid configuration: FLAIR_CACHE_TTLS entry "${part}" must be <resource-type>=<ms>`);
+      process.exit(1);
+    }
+    ttls[type.toLowerCase()] = ms;
+  }
+  return ttls;
+};
+
+// Entries look like `<room name or id>=<percent>`, e.g. `Basement=25`; keys match case-insensitively.
+const parseRoomMinPercent = (raw?: string) => {
+  const floors: Record<string, number> = {};
+  for (const part of splitCsv(raw)) {
+    const index = part.lastIndexOf("=");
+    const room = index > 0 ? part.slice(0, index).trim() : "";
+    const percent = Number(part.slice(index + 1).trim());
+    if (!room || !Number.isInteger(percent) || percent < 0 || percent > 100) {
+      // eslint-disable-next-line no-console
+      console.error(`Invalid configuration: VENT_POLICY_ROOM_MIN_PERCENT entry "${part}" must be <room>=<0-100>`);
+      process.exit(1);
+    }
+    floors[room.toLowerCase()] = percent;
+  }
+  return floors;
+};
+
+export type QuietHours = {
+  startMinute: number;
+  endMinute: number;
+};
+
+// `HH:MM-HH:MM` in VENT_POLICY_TIMEZONE (or server local time); may wrap midnight, e.g. `22:00-07:00`.
+const parseQuietHours = (raw?: string): QuietHours | null => {
+  if (!raw) return null;
+  const match = raw.trim().match(/^(\d{1,2}):(\d{2})\s*-\s*(\d{1,2}):(\d{2})$/);
+  const toMinute = (hours: string, minutes: string) => {
+    const h = Number(hours);
+    const m = Number(minutes);
+    return h < 24 && m < 60 ? h * 60 + m : NaN;
+  };
+  const startMinute = match ? toMinute(match[1], match[2]) : NaN;
+  const endMinute = match ? toMinute(match[3], match[4]) : NaN;
+  if (!Number.isFinite(startMinute) || !Number.isFinite(endMinute) || startMinute === endMinute) {
+    // eslint-disable-next-line no-console
+    console.error(`Invalid configuration: VENT_POLICY_QUIET_HOURS "${raw}" must be HH:MM-HH:MM`);
+    process.exit(1);
+  }
+  return { startMinute, endMinute };
+};
+
+const validateTimeZone = (raw?: string) => {
+  if (!raw) return undefined;
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: raw });
+    return raw;
+  } catch {
+    // eslint-disable-next-line no-console
+    console.error(`Invalid configuration: VENT_POLICY_TIMEZONE "${raw}" is not an IANA time zone`);
+    process.exit(1);
+  }
+};
+
+// A hop count, `false`, or addresses/subnets (and express's `loopback`, `linklocal`, `uniquelocal`)
+// whose X-Forwarded-For is believed. Trusting every hop would let any client pick its own IP.
+const parseTrustProxy = (raw?: string): false | number | string[] => {
+  if (!raw) return ["loopback"];
+  const value = raw.trim().toLowerCase();
+  if (value === "false") return false;
+  if (/^\d+$/.test(value)) return Number(value) > 0 ? Number(value) : false;
+  if (value === "true" || value === "*") {
+    // eslint-disable-next-line no-console
+    console.error("Invalid configuration: TRUST_PROXY must be a hop count or a list of proxy addresses, not true");
+    process.exit(1);
+  }
+  return splitCsv(raw);
+};
+
+export type ApiKeyEntry = {
+  label: string;
+  sha256: string;
+  scope: "read" | "write";
+};
+
+// Entries look like `label:<sha256-hex-of-key>[:read|write]`; scope defaults to write.
+const parseApiKeys = (raw?: string): ApiKeyEntry[] => {
+  const entries: ApiKeyEntry[] = [];
+  const labels = new Set<string>();
+  for (const part of splitCsv(raw)) {
+    const [label, sha256, scope = "write", ...extra] = part.split(":").map((v) => v.trim());
+    const valid =
+      !!label && !!sha256 && /^[0-9a-f]{64}$/i.test(sha256) && (scope === "read" || scope === "write") && extra.length === 0;
+    if (!valid || labels.has(label)) {
+      // eslint-disable-next-line no-console
+      console.error(`Invalid configuration: MCP_API_KEYS entry "${label || part}" must be label:<sha256-hex>[:read|write]`);
+      process.exit(1);
+    }
+    labels.add(label);
+    entries.push({ label, sha256: sha256.toLowerCase(), scope: scope as ApiKeyEntry["scope"] });
+  }
+  return entries;
+};
+
 export const config = {
+  transport,
   port: env.PORT,
   publicUrl: env.PUBLIC_URL,
   mcpPath: env.MCP_HTTP_PATH,
   healthPath: env.HEALTH_PATH,
+  metricsEnabled: boolFromEnv(env.METRICS_ENABLED, true),
+  metricsPath: env.METRICS_PATH,
 
   flairClientId: env.FLAIR_CLIENT_ID,
   flairClientSecret: env.FLAIR_CLIENT_SECRET,
@@ -92,9 +280,103 @@ export const config = {
   retryBaseMs: env.FLAIR_RETRY_BASE_MS,
   tokenSkewSec: env.FLAIR_TOKEN_SKEW_SEC,
 
+  cache: {
+    enabled: boolFromEnv(env.FLAIR_CACHE_ENABLED, true),
+    defaultTtlMs: env.FLAIR_CACHE_DEFAULT_TTL_MS,
+    ttlByType: parseCacheTtls(env.FLAIR_CACHE_TTLS),
+    maxEntries: env.FLAIR_CACHE_MAX_ENTRIES
+  },
+
+  ventPolicy: {
+    enabled: boolFromEnv(env.VENT_POLICY_ENABLED, true),
+    maxClosedFraction: env.VENT_POLICY_MAX_CLOSED_FRACTION,
+    roomMinPercent: parseRoomMinPercent(env.VENT_POLICY_ROOM_MIN_PERCENT),
+    quietHours: parseQuietHours(env.VENT_POLICY_QUIET_HOURS),
+    timeZone: validateTimeZone(env.VENT_POLICY_TIMEZONE),
+    // API key labels allowed to pass `override_policy`.
+    overrideKeys: splitCsv(env.VENT_POLICY_OVERRIDE_KEYS)
+  },
+
+  subscriptions: {
+    enabled: boolFromEnv(env.RESOURCE_SUBSCRIPTIONS_ENABLED, true),
+    pollIntervalMs: env.RESOURCE_POLL_INTERVAL_MS,
+    maxPollIntervalMs: Math.max(env.RESOURCE_POLL_MAX_INTERVAL_MS, env.RESOURCE_POLL_INTERVAL_MS)
+  },
+
+  writeJournal: {
+    enabled: boolFromEnv(env.WRITE_JOURNAL_ENABLED, true),
+    filePath: env.WRITE_JOURNAL_FILE.trim(),
+    maxEntries: env.WRITE_JOURNAL_MAX_ENTRIES
+  },
+
+  // Named vent/room presets for the scene tools.
+  scenes: {
+    enabled: boolFromEnv(env.SCENES_ENABLED, true),
+    filePath: env.SCENES_FILE.trim(),
+    maxScenes: env.SCENES_MAX
+  },
+
+  // Server-side automation rules; the engine writes on its own, so it is opt-in.
+  rules: {
+    enabled: boolFromEnv(env.RULES_ENABLED, false),
+    filePath: env.RULES_FILE.trim(),
+    maxRules: env.RULES_MAX,
+    maxFirings: env.RULES_MAX_FIRINGS,
+    intervalMs: env.RULES_INTERVAL_MS,
+    // Failed evaluations back off up to 15 minutes (or the interval, if longer).
+    maxIntervalMs: Math.max(env.RULES_INTERVAL_MS, 900000),
+    dryRun: boolFromEnv(env.RULES_DRY_RUN, false)
+  },
+
+  // Require the user to approve each write (elicitation, or a one-time token for other clients).
+  writeConfirmation: {
+    enabled: boolFromEnv(env.WRITE_CONFIRMATION_ENABLED, false),
+    tokenTtlMs: env.WRITE_CONFIRMATION_TOKEN_TTL_MS
+  },
+
+  auditLog: {
+    enabled: boolFromEnv(env.AUDIT_LOG_ENABLED, true),
+    filePath: env.AUDIT_LOG_FILE.trim(),
+    maxBytes: env.AUDIT_LOG_MAX_BYTES,
+    maxFiles: env.AUDIT_LOG_MAX_FILES
+  },
+
+  // Defaults for `device_health_report`; each can be overridden per call.
+  deviceHealth: {
+    lowBatteryVoltage: env.DEVICE_HEALTH_LOW_BATTERY_VOLTAGE,
+    lowBatteryPercent: env.DEVICE_HEALTH_LOW_BATTERY_PERCENT,
+    weakRssiDbm: env.DEVICE_HEALTH_WEAK_RSSI_DBM,
+    staleMinutes: env.DEVICE_HEALTH_STALE_MINUTES
+  },
+
+  // Background snapshots of room/vent/device state for `query_history`.
+  history: {
+    enabled: boolFromEnv(env.HISTORY_RECORDER_ENABLED, false),
+    directory: env.HISTORY_DIR.trim(),
+    intervalMs: env.HISTORY_INTERVAL_MS,
+    // Failed snapshots back off up to an hour (or the interval, if longer).
+    maxIntervalMs: Math.max(env.HISTORY_INTERVAL_MS, 3600000),
+    retentionDays: env.HISTORY_RETENTION_DAYS
+  },
+
   allowedHosts,
   allowedOrigins: splitCsv(env.ALLOWED_MCP_ORIGINS).map((v) => v.toLowerCase()),
   writeToolsEnabled: boolFromEnv(env.WRITE_TOOLS_ENABLED, false),
+  apiKeys: parseApiKeys(env.MCP_API_KEYS),
+  // Which proxies may set the client IP used for rate limits and the audit log.
+  trustProxy: parseTrustProxy(env.TRUST_PROXY),
+
+  rateLimit: {
+    enabled: boolFromEnv(env.RATE_LIMIT_ENABLED, true),
+    read: {
+      burst: env.RATE_LIMIT_READ_BURST,
+      perMinute: env.RATE_LIMIT_READ_PER_MIN
+    },
+    write: {
+      burst: env.RATE_LIMIT_WRITE_BURST,
+      perMinute: env.RATE_LIMIT_WRITE_PER_MIN
+    }
+  },
 
   logLevel: env.LOG_LEVEL,
   logFile: env.LOG_FILE && env.LOG_FILE.trim().length > 0 ? env.LOG_FILE.trim() : undefined
@@ -0,0 +1,68 @@
+export type DeviceHealthThresholds = {
+  // Below this battery voltage (or percent, where a device reports one) the battery is low.
+  lowBatteryVoltage: number;
+  lowBatteryPercent: number;
+  // RSSI (dBm) below this is a weak signal.
+  weakRssiDbm: number;
+  // Devices not heard from for this long are stale.
+  staleMinutes: number;
+};
+
+export type DeviceHealthFields = {
+  online?: boolean;
+  inactive?: boolean;
+  battery_voltage?: number;
+  battery_percent?: number;
+  rssi?: number;
+  firmware_version?: string;
+  last_seen_at?: string;
+};
+
+export type DeviceHealthIssue = "offline" | "low_battery" | "weak_signal" | "stale";
+
+export type DeviceHealthStatus = "ok" | "warning" | "critical";
+
+export const deviceHealthIssues: DeviceHealthIssue[] = ["offline", "low_battery", "weak_signal", "stale"];
+
+/**
+ * Flags one device against the thresholds. Pure: fields come from whatever the device type
+ * reports, and a missing field never raises an issue. Offline is critical; the rest are warnings.
+ */
+export function assessDeviceHealth(fields: DeviceHealthFields, thresholds: DeviceHealthThresholds, nowMs = Date.now()) {
+  const issues: Array<{ issue: DeviceHealthIssue; detail: string }> = [];
+
+  if (fields.online === false) {
+    issues.push({ issue: "offline", detail: "Device reports offline" });
+  }
+  // A reported percent already accounts for the battery chemistry, so it wins over voltage.
+  if (typeof fields.battery_percent === "number") {
+    if (fields.battery_percent < thresholds.lowBatteryPercent) {
+      issues.push({
+        issue: "low_battery",
+        detail: `Battery at ${fields.battery_percent}% (below ${thresholds.lowBatteryPercent}%)`
+      });
+    }
+  } else if (typeof fields.battery_voltage === "number" && fields.battery_voltage < thresholds.lowBatteryVoltage) {
+    issues.push({
+      issue: "low_battery",
+      detail: `Battery at ${fields.battery_voltage} V (below ${thresholds.lowBatteryVoltage} V)`
+    });
+  }
+  if (typeof fields.rssi === "number" && fields.rssi < thresholds.weakRssiDbm) {
+    issues.push({ issue: "weak_signal", detail: `Signal ${fields.rssi} dBm (below ${thresholds.weakRssiDbm} dBm)` });
+  }
+  const lastSeenMs = fields.last_seen_at ? Date.parse(fields.last_seen_at) : NaN;
+  if (Number.isFinite(lastSeenMs)) {
+    const minutes = Math.floor((nowMs - lastSeenMs) / 60000);
+    if (minutes > thresholds.staleMinutes) {
+      issues.push({ issue: "stale", detail: `Last seen ${minutes} minutes ago (over ${thresholds.staleMinutes})` });
+    }
+  }
+
+  const status: DeviceHealthStatus = issues.some((entry) => entry.issue === "offline")
+    ? "critical"
+    : issues.length > 0
+      ? "warning"
+      : "ok";
+  return { status, issues };
+}
@@ -1,8 +1,36 @@
 import { z } from "zod";
+import { noteUpstreamWrite } from "./auditLog.js";
+import { ResourceChangePoller, snapshotKey, type ChangeSnapshot, type ResourceChangeListener } from "./changePoller.js";
 import { config } from "./config.js";
 import type { ApiRootLink, JsonApiDocument, JsonApiResource } from "./flairTypes.js";
 import { FlairTokenManager } from "./flairAuth.js";
 import { logger } from "./logger.js";
+import {
+  resourceTypeFromPath,
+  upstreamBackoffSeconds,
+  upstreamRequestDurationSeconds,
+  upstreamRequestsTotal,
+  upstreamRetriesTotal
+} from "./metrics.js";
+import { NameResolutionError, normalizeName, rankCandidates, type NameCandidate } from "./nameResolver.js";
+import { ResponseCache } from "./responseCache.js";
+import type { Scene, SceneRoom, SceneVent } from "./sceneStore.js";
+import {
+  assessDeviceHealth,
+  deviceHealthIssues,
+  type DeviceHealthFields,
+  type DeviceHealthThresholds
+} from "./deviceHealth.js";
+import type { HistorySample } from "./historyStore.js";
+import {
+  inferBalanceDirection,
+  recommendVentBalance,
+  type BalanceDirection,
+  type BalanceRoom,
+  type VentBalanceOptions
+} from "./ventBalance.js";
+import { analyzeRoomSeries, toFahrenheit, type RoomStatPoint, type RoomTrend } from "./roomHistory.js";
+import { compareScheduleEvents, describeScheduleEvent, normalizeDays, type ScheduleEvent } from "./schedules.js";
 
 const JSON_API = "application/vnd.api+json";
 const apiRootLinksSchema = z.record(
@@ -23,6 +51,44 @@ type VentPercentOpenVerificationResult = {
   error: string | null;
 };
 
+type AttributeVerificationResult = {
+  ok: boolean;
+  resourceType: string;
+  resourceId: string;
+  expected: Record<string, unknown>;
+  actual: Record<string, unknown> | null;
+  attemptsUsed: number;
+  durationMs: number;
+  commandResponse: unknown;
+  error: string | null;
+};
+
+export type VentSelector = {
+  ventIds?: string[];
+  structureId?: string;
+  roomId?: string;
+  // Case-insensitive; `*` matches any run of characters, otherwise a substring match.
+  namePattern?: string;
+};
+
+type BulkVentResult = {
+  vent_id: string;
+  name?: string;
+  room_id?: string;
+  status: "succeeded" | "failed" | "unverified" | "sent";
+  previous_percent_open?: number;
+  // Only set when vents were given different targets.
+  target_percent_open?: number;
+  actual_percent_open?: number;
+  error?: string;
+};
+
+export type VerifyOptions = {
+  attempts: number;
+  initialDelayMs: number;
+  backoffMultiplier: number;
+};
+
 export class FlairApiError extends Error {
   constructor(
     message: string,
@@ -34,6 +100,10 @@ export class FlairApiError extends Error {
   }
 }
 
+// 403/404 on a collection: the account has no devices of that type, or may not list them.
+const isUnlistableType = (err: unknown): err is FlairApiError & { statusCode: number } =>
+  err instanceof FlairApiError && (err.statusCode === 403 || err.statusCode === 404);
+
 const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
 
 const isObject = (value: unknown): value is Record<string, unknown> =>
@@ -75,7 +145,7 @@ const toBool = (value: unknown) => {
   return undefined;
 };
 
-const toNumber = (value: unknown) => {
+export const toNumber = (value: unknown) => {
   if (typeof value === "number" && Number.isFinite(value)) return value;
   if (typeof value === "string") {
     const parsed = Number(value);
@@ -84,7 +154,54 @@ const toNumber = (value: unknown) => {
   return undefined;
 };
 
-const toFahrenheit = (celsius: number) => (celsius * 9) / 5 + 32;
+/** Picks the Celsius value, converting from Fahrenheit when only that was given. */
+export const toCelsius = (tempC?: number, tempF?: number) => {
+  if (typeof tempC === "number") return tempC;
+  if (typeof tempF === "number") return (tempF - 32) * (5 / 9);
+  return undefined;
+};
+
+const matchesNamePattern = (name: string, pattern: string) => {
+  const needle = pattern.trim().toLowerCase();
+  if (!needle.includes("*")) return name.toLowerCase().includes(needle);
+  const source = needle
+    .split("*")
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+    .join(".*");
+  return new RegExp(`^${source}$`).test(name.toLowerCase());
+};
+
+// Runs `fn` over `items` with at most `limit` calls in flight, preserving result order.
+const mapWithConcurrency = async <T, R>(items: T[], limit: number, fn: (item: T) => Promise<R>) => {
+  const results = new Array<R>(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next;
+      next += 1;
+      results[index] = await fn(items[index]);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(Math.max(1, limit), items.length) }, worker));
+  return results;
+};
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}T/;
+
+// Upstream may round converted temperatures and reformat timestamps, so compare loosely.
+export const attributeMatches = (expected: unknown, actual: unknown) => {
+  if (typeof expected === "number") {
+    const actualNumber = toNumber(actual);
+    return typeof actualNumber === "number" && Math.abs(actualNumber - expected) < 0.05;
+  }
+  if (typeof expected === "string" && typeof actual === "string" && ISO_DATE.test(expected)) {
+    return Math.abs(Date.parse(expected) - Date.parse(actual)) < 1000;
+  }
+  if (typeof expected === "object" && expected !== null) {
+    return JSON.stringify(expected) === JSON.stringify(actual ?? null);
+  }
+  return (expected ?? null) === (actual ?? null);
+};
 
 const extractNextLink = (doc: JsonApiDocument) => {
   const fromLinks = doc.links && typeof doc.links === "object" ? (doc.links as Record<string, unknown>).next : undefined;
@@ -164,6 +281,162 @@ const resolveResourceName = (resource: JsonApiResource, fallbackPrefix: string)
   return { name: `${fallbackPrefix} ${resource.id.slice(0, 8)}`, source: "derived" as const };
 };
 
+// Compact, name-resolved views backing the MCP resources.
+const summarizeStructure = (structure: JsonApiResource) => {
+  const attrs = structure.attributes ?? {};
+  const resolved = resolveResourceName(structure, "Structure");
+  return compactObject({
+    id: structure.id,
+    name: resolved.name,
+    name_source: resolved.source,
+    mode: firstString(attrs, ["mode"]),
+    home: toBool(attrs.home),
+    set_point_c: toNumber(attrs["set-point-temperature-c"]),
+    temperature_scale: firstString(attrs, ["temperature-scale"]),
+    heat_cool_mode: firstString(attrs, ["structure-heat-cool-mode"]),
+    default_hold_duration: firstString(attrs, ["default-hold-duration"]),
+    active_schedule_id: firstString(attrs, ["active-schedule-id"])
+  });
+};
+
+const summarizeRoom = (room: JsonApiResource) => {
+  const attrs = room.attributes ?? {};
+  const resolved = resolveResourceName(room, "Room");
+  return compactObject({
+    id: room.id,
+    name: resolved.name,
+    name_source: resolved.source,
+    structure_id: getRelationId(room, "structure"),
+    active: toBool(attrs.active),
+    set_point_c: toNumber(attrs["set-point-c"]),
+    current_temperature_c: toNumber(attrs["current-temperature-c"]),
+    current_humidity: toNumber(attrs["current-humidity"]),
+    hold_until: firstString(attrs, ["hold-until"])
+  });
+};
+
+const summarizeVent = (vent: JsonApiResource) => {
+  const attrs = vent.attributes ?? {};
+  const resolved = resolveResourceName(vent, "Vent");
+  const percentOpen = toNumber(attrs["percent-open"]);
+  return compactObject({
+    id: vent.id,
+    name: resolved.name,
+    name_source: resolved.source,
+    structure_id: getRelationId(vent, "structure"),
+    room_id: getRelationId(vent, "room"),
+    percent_open: percentOpen,
+    is_open: typeof percentOpen === "number" ? percentOpen > 0 : undefined,
+    inactive: toBool(attrs.inactive),
+    duct_temperature_c: toNumber(attrs["duct-temperature-c"]),
+    voltage: toNumber(attrs.voltage),
+    rssi: toNumber(attrs.rssi)
+  });
+};
+
+const deviceOnlineState = (attrs: Record<string, unknown>) =>
+  compactObject({
+    online: toBool(attrs.online ?? attrs["is-online"]),
+    inactive: toBool(attrs.inactive)
+  });
+
+// Device types name these differently, and not every type reports every field.
+const extractDeviceHealth = (attrs: Record<string, unknown>): DeviceHealthFields =>
+  compactObject({
+    online: toBool(attrs.online ?? attrs["is-online"] ?? attrs.connected),
+    inactive: toBool(attrs.inactive),
+    battery_voltage: toNumber(attrs.voltage ?? attrs["battery-voltage"] ?? attrs["system-voltage"]),
+    battery_percent: toNumber(attrs["battery-level"] ?? attrs["battery-percent"]),
+    rssi: toNumber(attrs.rssi ?? attrs["current-rssi"]),
+    firmware_version: firstString(attrs, ["firmware-version-s", "firmware-version", "firmware-version-w", "firmware"]),
+    // Only fields the device itself reports; `updated-at` also moves on settings changes.
+    last_seen_at: firstString(attrs, ["last-seen", "last-reported-at", "reported-at"])
+  });
+
+const lowerString = (record: Record<string, unknown>, keys: string[]) => firstString(record, keys)?.toLowerCase();
+
+const roundTemperature = (celsius?: number) => (typeof celsius === "number" ? Number(celsius.toFixed(2)) : undefined);
+
+const fahrenheitOf = (celsius?: number) => (typeof celsius === "number" ? Number(toFahrenheit(celsius).toFixed(1)) : undefined);
+
+// Linked thermostats come from several makers, so modes and set points go by more than one name.
+const summarizeThermostat = (thermostat: JsonApiResource) => {
+  const attrs = thermostat.attributes ?? {};
+  const resolved = resolveResourceName(thermostat, "Thermostat");
+  return compactObject({
+    id: thermostat.id,
+    name: resolved.name,
+    name_source: resolved.source,
+    structure_id: getRelationId(thermostat, "structure"),
+    room_id: getRelationId(thermostat, "room"),
+    mode: lowerString(attrs, ["hvac-mode", "mode", "system-mode", "thermostat-mode"]),
+    fan_mode: lowerString(attrs, ["fan-mode", "fan"]),
+    hvac_state: lowerString(attrs, ["hvac-state", "running-state", "operating-state"]),
+    set_point_c: toNumber(attrs["set-point-c"] ?? attrs["set-point-temperature-c"]),
+    heat_set_point_c: toNumber(attrs["heat-set-point-c"] ?? attrs["heating-set-point-c"]),
+    cool_set_point_c: toNumber(attrs["cool-set-point-c"] ?? attrs["cooling-set-point-c"]),
+    current_temperature_c: toNumber(attrs["current-temperature-c"] ?? attrs["temperature-c"]),
+    current_humidity: toNumber(attrs["current-humidity"] ?? attrs.humidity),
+    ...deviceOnlineState(attrs)
+  });
+};
+
+// HVAC units (mini-splits driven by a puck) take their set point as `temperature` in their own scale.
+const summarizeHvacUnit = (unit: JsonApiResource) => {
+  const attrs = unit.attributes ?? {};
+  const resolved = resolveResourceName(unit, "HVAC Unit");
+  const scale = firstString(attrs, ["temperature-scale"])?.toUpperCase() === "F" ? "F" : "C";
+  const setPoint = toNumber(attrs.temperature);
+  const setPointC =
+    typeof setPoint === "number" ? (scale === "F" ? toCelsius(undefined, setPoint) : setPoint) : toNumber(attrs["set-point-c"]);
+  const power = typeof attrs.power === "boolean" ? (attrs.power ? "on" : "off") : lowerString(attrs, ["power"]);
+  return compactObject({
+    id: unit.id,
+    name: resolved.name,
+    name_source: resolved.source,
+    structure_id: getRelationId(unit, "structure"),
+    room_id: getRelationId(unit, "room"),
+    power,
+    mode: lowerString(attrs, ["mode"]),
+    fan_speed: lowerString(attrs, ["fan-speed"]),
+    swing: lowerString(attrs, ["swing"]),
+    temperature_scale: scale,
+    set_point_c: roundTemperature(setPointC),
+    current_temperature_c: toNumber(attrs["current-temperature-c"]),
+    ...deviceOnlineState(attrs)
+  });
+};
+
+const summarizeScheduleEvent = (event: JsonApiResource): ScheduleEvent => {
+  const attrs = event.attributes ?? {};
+  const roomSetPoints = Array.isArray(attrs["room-set-points"]) ? attrs["room-set-points"] : [];
+  return compactObject({
+    id: event.id,
+    schedule_id: getRelationId(event, "schedule"),
+    days: normalizeDays(Array.isArray(attrs.days) ? attrs.days : []),
+    time: firstString(attrs, ["start-time", "time"]),
+    set_point_c: toNumber(attrs["set-point-c"]),
+    room_set_points: roomSetPoints.flatMap((entry) => {
+      if (!isObject(entry)) return [];
+      const roomId = firstString(entry, ["room-id"]);
+      const setPointC = toNumber(entry["set-point-c"]);
+      return roomId && typeof setPointC === "number" ? [{ room_id: roomId, set_point_c: setPointC }] : [];
+    }),
+    home: toBool(attrs.home)
+  });
+};
+
+const countBy = (items: Array<Record<string, unknown>>, key: string) =>
+  items.reduce<Record<string, number>>((counts, item) => {
+    const value = typeof item[key] === "string" ? (item[key] as string) : "unknown";
+    counts[value] = (counts[value] ?? 0) + 1;
+    return counts;
+  }, {});
+
+// Stable across key insertion order so snapshots only differ when values do.
+const fingerprint = (value: Record<string, unknown>) =>
+  JSON.stringify(Object.fromEntries(Object.entries(value).sort(([a], [b]) => a.localeCompare(b))));
+
 const titleCase = (value: string) =>
   value
     .split(/[-_ ]+/)
@@ -175,9 +448,16 @@ const compactObject = <T extends Record<string, unknown>>(value: T) => {
   return Object.fromEntries(Object.entries(value).filter(([, v]) => typeof v !== "undefined")) as T;
 };
 
+// Writes to these types also change what reads of the listed types return.
+const cacheInvalidationTargets: Record<string, string[]> = {
+  "vent-states": ["vent-states", "vents"],
+  "room-states": ["room-states", "rooms"],
+  "structure-states": ["structure-states", "structures"]
+};
+
 const SENSITIVE_KEY = /(?:^|[-_])(secret|token|password|passphrase|api[-_]?key|authorization)(?:$|[-_])/i;
 
-const redactSensitive = (value: unknown): unknown => {
+export const redactSensitive = (value: unknown): unknown => {
   if (Array.isArray(value)) {
     return value.map((item) => redactSensitive(item));
   }
@@ -199,6 +479,17 @@ const redactSensitive = (value: unknown): unknown => {
 
 export class FlairApiClient {
   private apiRootCache: Record<string, ApiRootLink> | null = null;
+  private readonly responseCache = config.cache.enabled
+    ? new ResponseCache({
+        defaultTtlMs: config.cache.defaultTtlMs,
+        ttlByType: config.cache.ttlByType,
+        maxEntries: config.cache.maxEntries
+      })
+    : null;
+  private readonly changePoller = new ResourceChangePoller(() => this.loadChangeSnapshot(), {
+    intervalMs: config.subscriptions.pollIntervalMs,
+    maxIntervalMs: config.subscriptions.maxPollIntervalMs
+  });
 
   constructor(private readonly tokenManager: FlairTokenManager) {}
 
@@ -213,6 +504,27 @@ export class FlairApiClient {
     };
   }
 
+  getResponseCacheStatus() {
+    return this.responseCache ? { enabled: true, ...this.responseCache.getStatus() } : { enabled: false };
+  }
+
+  getChangePollerStatus() {
+    return this.changePoller.getStatus();
+  }
+
+  /**
+   * Subscribes to room and vent changes found by the shared background poller.
+   * Polling runs only while at least one listener is registered; call the returned function to stop listening.
+   */
+  watchResourceChanges(listener: ResourceChangeListener) {
+    return this.changePoller.subscribe(listener);
+  }
+
+  /** Runs a change poll now instead of waiting for the next tick. */
+  pollResourceChanges() {
+    return this.changePoller.pollNow();
+  }
+
   async getApiRootLinks(force = false): Promise<Record<string, ApiRootLink>> {
     if (!force && this.apiRootCache) {
       return this.apiRootCache;
@@ -220,7 +532,8 @@ export class FlairApiClient {
 
     const doc = await this.requestJsonApi("GET", config.flairApiRootPath, {
       auth: true,
-      retryMax: config.retryMax
+      retryMax: config.retryMax,
+      cache: !force
     });
 
     const linksValue = isObject(doc) ? doc.links : undefined;
@@ -253,12 +566,15 @@ export class FlairApiClient {
       filters?: Record<string, string | number | boolean>;
       include?: string;
       maxItems?: number;
+      // Skip the response cache, e.g. when verifying a write.
+      fresh?: boolean;
     }
   ) {
     const path = await this.resolveResourcePath(resourceType);
     const query = this.createResourceQuery(options);
     const maxItems = options?.maxItems && options.maxItems > 0 ? options.maxItems : undefined;
-    let doc = await this.requestJsonApi("GET", path, { query });
+    const cache = !options?.fresh;
+    let doc = await this.requestJsonApi("GET", path, { query, cache });
 
     let data = Array.isArray(doc.data) ? doc.data : doc.data ? [doc.data] : [];
     let included = doc.included;
@@ -270,7 +586,7 @@ export class FlairApiClient {
       if (visitedNext.has(nextLink)) break;
       visitedNext.add(nextLink);
 
-      const nextDoc = await this.requestJsonApi("GET", nextLink);
+      const nextDoc = await this.requestJsonApi("GET", nextLink, { cache });
       const nextData = Array.isArray(nextDoc.data) ? nextDoc.data : nextDoc.data ? [nextDoc.data] : [];
       data = data.concat(nextData);
       included = mergeIncludedResources(included, nextDoc.included);
@@ -297,10 +613,10 @@ export class FlairApiClient {
     };
   }
 
-  async getResource(resourceType: string, resourceId: string, include?: string) {
+  async getResource(resourceType: string, resourceId: string, include?: string, options?: { fresh?: boolean }) {
     const path = `${await this.resolveResourcePath(resourceType)}/${encodeURIComponent(resourceId)}`;
     const query = include ? ({ include } as Record<string, string>) : undefined;
-    const doc = await this.requestJsonApi("GET", path, { query });
+    const doc = await this.requestJsonApi("GET", path, { query, cache: !options?.fresh });
     return {
       data: doc.data,
       included: doc.included,
@@ -333,8 +649,10 @@ export class FlairApiClient {
     if (options?.pageSize) query["page[size]"] = String(options.pageSize);
     if (options?.include) query.include = options.include;
 
+    // Related paths are keyed by the parent type, so invalidation by type would miss them.
     const doc = await this.requestJsonApi("GET", relatedPath, {
-      query: Object.keys(query).length > 0 ? query : undefined
+      query: Object.keys(query).length > 0 ? query : undefined,
+      cache: false
     });
 
     const data = Array.isArray(doc.data) ? doc.data : doc.data ? [doc.data] : [];
@@ -356,7 +674,11 @@ export class FlairApiClient {
       }
     };
 
-    return await this.requestJsonApi("PATCH", path, { body: payload });
+    try {
+      return await this.requestJsonApi("PATCH", path, { body: payload });
+    } finally {
+      this.invalidateCachedType(resourceType);
+    }
   }
 
   async createResource(
@@ -376,7 +698,11 @@ export class FlairApiClient {
       (payload.data as Record<string, unknown>).relationships = relationships;
     }
 
-    return await this.requestJsonApi("POST", path, { body: payload });
+    try {
+      return await this.requestJsonApi("POST", path, { body: payload });
+    } finally {
+      this.invalidateCachedType(resourceType);
+    }
   }
 
   async setVentPercentOpen(ventId: string, percentOpen: number) {
@@ -415,7 +741,7 @@ export class FlairApiClient {
       nextDelayMs = Math.floor(nextDelayMs * backoffMultiplier);
 
       try {
-        const vent = await this.getResource("vents", ventId);
+        const vent = await this.getResource("vents", ventId, undefined, { fresh: true });
         const resource = vent.data as JsonApiResource | null | undefined;
         const actualPercentOpen = resource ? toNumber(resource.attributes?.["percent-open"]) : undefined;
 
@@ -454,6 +780,200 @@ export class FlairApiClient {
     };
   }
 
+  /** Resolves explicit vent IDs and/or a structure/room/name selector to vent summaries. */
+  async selectVents(selector: VentSelector) {
+    const vents = await this.describeVents();
+    const byId = new Map(vents.map((vent) => [vent.id, vent]));
+    const missingIds = (selector.ventIds ?? []).filter((ventId) => !byId.has(ventId));
+
+    let selected = selector.ventIds
+      ? selector.ventIds.map((ventId) => byId.get(ventId)).filter((vent): vent is (typeof vents)[number] => !!vent)
+      : vents;
+    if (selector.structureId) selected = selected.filter((vent) => vent.structure_id === selector.structureId);
+    if (selector.roomId) selected = selected.filter((vent) => vent.room_id === selector.roomId);
+    if (selector.namePattern) selected = selected.filter((vent) => matchesNamePattern(vent.name, selector.namePattern!));
+
+    // Repeated IDs in `ventIds` would otherwise send the same command twice.
+    const seen = new Set<string>();
+    selected = selected.filter((vent) => !seen.has(vent.id) && !!seen.add(vent.id));
+    return { vents: selected, missingIds };
+  }
+
+  /**
+   * Sends one `vent-states` POST per selected vent with bounded concurrency, then verifies
+   * every vent in shared polling rounds (one fresh vents list per round) instead of per-vent loops.
+   * `percentOpen` is either one value for every vent or a target per vent ID.
+   */
+  async setVentsPercentOpen(
+    selector: VentSelector,
+    percentOpen: number | Record<string, number>,
+    options: { concurrency: number; verify?: VerifyOptions }
+  ) {
+    const startedAt = Date.now();
+    const perVent = typeof percentOpen !== "number";
+    const targetFor = (ventId: string) => (typeof percentOpen === "number" ? percentOpen : percentOpen[ventId]);
+    const { vents, missingIds } = await this.selectVents(selector);
+    if (vents.length === 0 && missingIds.length === 0) {
+      throw new FlairApiError("No vents matched the selector");
+    }
+    const results = new Map<string, BulkVentResult>();
+    for (const ventId of missingIds) {
+      results.set(ventId, { vent_id: ventId, status: "failed", error: "Vent not found" });
+    }
+
+    await mapWithConcurrency(vents, options.concurrency, async (vent) => {
+      const row: BulkVentResult = {
+        vent_id: vent.id,
+        name: vent.name,
+        room_id: vent.room_id,
+        status: "sent",
+        previous_percent_open: vent.percent_open,
+        ...(perVent ? { target_percent_open: targetFor(vent.id) } : {})
+      };
+      results.set(vent.id, row);
+      try {
+        await this.setVentPercentOpen(vent.id, targetFor(vent.id));
+      } catch (err) {
+        row.status = "failed";
+        row.error = normalizeFlairError(err).message;
+      }
+    });
+
+    let attemptsUsed = 0;
+    if (options.verify) {
+      const pending = new Set(Array.from(results.values()).filter((row) => row.status === "sent").map((row) => row.vent_id));
+      for (const row of results.values()) {
+        if (pending.has(row.vent_id)) row.status = "unverified";
+      }
+
+      let nextDelayMs = Math.max(0, Math.floor(options.verify.initialDelayMs));
+      for (let attempt = 1; attempt <= options.verify.attempts && pending.size > 0; attempt += 1) {
+        attemptsUsed = attempt;
+        await sleep(nextDelayMs);
+        nextDelayMs = Math.floor(nextDelayMs * options.verify.backoffMultiplier);
+
+        try {
+          const current = await this.listResources("vents", { fresh: true });
+          for (const vent of current.data) {
+            if (!pending.has(vent.id)) continue;
+            const row = results.get(vent.id)!;
+            row.actual_percent_open = toNumber(vent.attributes?.["percent-open"]);
+            if (row.actual_percent_open === targetFor(vent.id)) {
+              row.status = "succeeded";
+              pending.delete(vent.id);
+            }
+          }
+        } catch (err) {
+          logger.warn({ err, attempt }, "Failed to verify bulk vent percent-open");
+          for (const ventId of pending) {
+            results.get(ventId)!.error = normalizeFlairError(err).message;
+          }
+        }
+      }
+    }
+
+    const rows = Array.from(results.values()).sort((a, b) => (a.name ?? a.vent_id).localeCompare(b.name ?? b.vent_id));
+    const count = (status: BulkVentResult["status"]) => rows.filter((row) => row.status === status).length;
+    const summary = {
+      requested: rows.length,
+      succeeded: count("succeeded"),
+      failed: count("failed"),
+      unverified: count("unverified"),
+      ...(options.verify ? {} : { sent: count("sent") })
+    };
+
+    return {
+      ok: summary.failed === 0 && summary.unverified === 0,
+      ...(perVent ? {} : { expectedPercentOpen: percentOpen }),
+      verified: !!options.verify,
+      attemptsUsed,
+      durationMs: Date.now() - startedAt,
+      summary,
+      vents: rows.map((row) => compactObject(row))
+    };
+  }
+
+  /**
+   * Current values of `keys` for each resource, read past the cache; null for resources that
+   * are not found. One ID is fetched directly, several with one list request.
+   */
+  async readCurrentAttributes(resourceType: string, resourceIds: string[], keys: string[]) {
+    let resources: JsonApiResource[];
+    if (resourceIds.length === 1) {
+      const doc = await this.getResource(resourceType, resourceIds[0], undefined, { fresh: true });
+      resources = Array.isArray(doc.data) ? doc.data : doc.data ? [doc.data] : [];
+    } else {
+      resources = (await this.listResources(resourceType, { fresh: true })).data;
+    }
+    const byId = new Map(resources.map((resource) => [resource.id, resource]));
+    return new Map(
+      resourceIds.map((resourceId) => {
+        const attrs = byId.get(resourceId)?.attributes;
+        const values = attrs ? Object.fromEntries(keys.map((key) => [key, attrs[key] ?? null])) : null;
+        return [resourceId, values] as const;
+      })
+    );
+  }
+
+  /**
+   * PATCHes attributes, then re-reads the resource (bypassing the cache) until every attribute
+   * reads back as written or the attempts run out.
+   */
+  async updateResourceAttributesAndVerify(
+    resourceType: string,
+    resourceId: string,
+    attributes: Record<string, unknown>,
+    verify: VerifyOptions
+  ): Promise<AttributeVerificationResult> {
+    const startedAt = Date.now();
+    const commandResponse = await this.updateResourceAttributes(resourceType, resourceId, attributes);
+
+    let nextDelayMs = Math.max(0, Math.floor(verify.initialDelayMs));
+    let lastActual: Record<string, unknown> | null = null;
+    let lastError: string | null = null;
+
+    for (let attempt = 1; attempt <= verify.attempts; attempt += 1) {
+      await sleep(nextDelayMs);
+      nextDelayMs = Math.floor(nextDelayMs * verify.backoffMultiplier);
+
+      try {
+        const doc = await this.getResource(resourceType, resourceId, undefined, { fresh: true });
+        const resource = doc.data as JsonApiResource | null | undefined;
+        const attrs = resource?.attributes ?? {};
+        lastActual = Object.fromEntries(Object.keys(attributes).map((key) => [key, attrs[key] ?? null]));
+
+        if (Object.entries(attributes).every(([key, value]) => attributeMatches(value, attrs[key]))) {
+          return {
+            ok: true,
+            resourceType,
+            resourceId,
+            expected: attributes,
+            actual: lastActual,
+            attemptsUsed: attempt,
+            durationMs: Date.now() - startedAt,
+            commandResponse,
+            error: null
+          };
+        }
+      } catch (err) {
+        lastError = err instanceof Error ? err.message : String(err);
+        logger.warn({ err, resourceType, resourceId, attempt }, "Failed to verify attributes after write");
+      }
+    }
+
+    return {
+      ok: false,
+      resourceType,
+      resourceId,
+      expected: attributes,
+      actual: lastActual,
+      attemptsUsed: verify.attempts,
+      durationMs: Date.now() - startedAt,
+      commandResponse,
+      error: lastError ?? "Expected attribute values were not observed after all verification attempts"
+    };
+  }
+
   async listStructures() {
     return this.listResources("structures");
   }
@@ -476,6 +996,279 @@ export class FlairApiClient {
     };
   }
 
+  /**
+   * Name-resolution candidates of one type: structures, rooms and vents by their resolved names,
+   * other device types by `resolveDeviceName`. Devices in a room also answer to "<room> <name>".
+   */
+  async nameCandidates(resourceType: string, scope: { structureId?: string; roomId?: string } = {}) {
+    const structures = await this.describeStructures();
+    const structureNames = new Map(structures.map((structure) => [structure.id, structure.name]));
+    if (resourceType === "structures") {
+      return structures.map((structure): NameCandidate => ({ id: structure.id, type: resourceType, name: structure.name }));
+    }
+
+    const rooms = await this.describeRooms();
+    if (resourceType === "rooms") {
+      return rooms
+        .filter((room) => !scope.structureId || room.structure_id === scope.structureId)
+        .map(
+          (room): NameCandidate =>
+            compactObject({
+              id: room.id,
+              type: resourceType,
+              name: room.name,
+              structure_name: structureNames.get(room.structure_id ?? "")
+            })
+        );
+    }
+
+    const roomsById = new Map(rooms.map((room) => [room.id, room]));
+    const resources = resourceType === "vents" ? (await this.listVents()).data : (await this.listResources(resourceType)).data;
+    return resources.flatMap((resource): NameCandidate[] => {
+      const roomId = getRelationId(resource, "room");
+      const room = roomsById.get(roomId ?? "");
+      const structureId = getRelationId(resource, "structure") ?? room?.structure_id;
+      if (scope.structureId && structureId !== scope.structureId) return [];
+      if (scope.roomId && roomId !== scope.roomId) return [];
+      const name = resourceType === "vents" ? resolveResourceName(resource, "Vent").name : resolveDeviceName(resource).name;
+      const withRoom = room && !normalizeName(name).includes(normalizeName(room.name)) ? [`${room.name} ${name}`] : undefined;
+      return [
+        compactObject({
+          id: resource.id,
+          type: resourceType,
+          name,
+          aliases: withRoom,
+          room_name: room?.name,
+          structure_name: structureNames.get(structureId ?? "")
+        })
+      ];
+    });
+  }
+
+  /** Ranks resources of `resourceTypes` whose ID or name matches `query`. */
+  async resolveName(
+    query: string,
+    options: { resourceTypes: string[]; structureId?: string; roomId?: string; limit?: number }
+  ) {
+    const scope = { structureId: options.structureId, roomId: options.roomId };
+    const candidates: NameCandidate[] = [];
+    for (const resourceType of options.resourceTypes) {
+      candidates.push(...(await this.nameCandidates(resourceType, scope)));
+    }
+    return rankCandidates(query, candidates, { limit: options.limit });
+  }
+
+  /** The one resource `query` names (IDs pass through); throws NameResolutionError when none or several match. */
+  async resolveNamedId(resourceType: string, query: string, scope: { structureId?: string; roomId?: string } = {}) {
+    const resolution = rankCandidates(query, await this.nameCandidates(resourceType, scope));
+    if (resolution.status !== "matched" || !resolution.match) {
+      throw new NameResolutionError(resourceType, resolution);
+    }
+    return resolution.match.id;
+  }
+
+  async describeStructures() {
+    const result = await this.listStructures();
+    return result.data.map(summarizeStructure);
+  }
+
+  async describeStructure(structureId: string) {
+    const structure = await this.getSingleResource("structures", structureId);
+    const rooms = await this.listRooms(structureId);
+    return {
+      ...summarizeStructure(structure),
+      rooms: rooms.data.map((room) => ({ id: room.id, name: resolveResourceName(room, "Room").name }))
+    };
+  }
+
+  /** Mode, home/away and set point per structure, with the set point in both units. */
+  async getStructureStatus(structureId?: string) {
+    const structures = (await this.describeStructures()).filter((structure) => !structureId || structure.id === structureId);
+    if (structureId && structures.length === 0) {
+      throw new FlairApiError(`structures/${structureId} was not found`, 404);
+    }
+    return {
+      structures: structures.map((structure) =>
+        compactObject({
+          ...structure,
+          set_point_f: typeof structure.set_point_c === "number" ? toFahrenheit(structure.set_point_c) : undefined
+        })
+      ),
+      summary: {
+        count: structures.length,
+        home: structures.filter((structure) => structure.home === true).length,
+        away: structures.filter((structure) => structure.home === false).length
+      }
+    };
+  }
+
+  /**
+   * Thermostats with normalized mode, fan and set points. A thermostat that reports no
+   * temperature gets its room's, marked by `temperature_source`.
+   */
+  async describeThermostats(options: { structureId?: string; roomId?: string } = {}) {
+    const thermostats = await this.describeClimateDevices("thermostats", summarizeThermostat, options);
+    return {
+      thermostats: thermostats.map((thermostat) =>
+        compactObject({
+          ...thermostat,
+          set_point_f: fahrenheitOf(thermostat.set_point_c),
+          heat_set_point_f: fahrenheitOf(thermostat.heat_set_point_c),
+          cool_set_point_f: fahrenheitOf(thermostat.cool_set_point_c)
+        })
+      ),
+      summary: { count: thermostats.length, by_mode: countBy(thermostats, "mode") }
+    };
+  }
+
+  /** HVAC units with power, mode, fan speed and set point in both scales; room readings fill in temperature. */
+  async describeHvacUnits(options: { structureId?: string; roomId?: string } = {}) {
+    const units = await this.describeClimateDevices("hvac-units", summarizeHvacUnit, options);
+    return {
+      hvac_units: units.map((unit) => compactObject({ ...unit, set_point_f: fahrenheitOf(unit.set_point_c) })),
+      summary: {
+        count: units.length,
+        powered_on: units.filter((unit) => unit.power === "on").length,
+        by_mode: countBy(units, "mode")
+      }
+    };
+  }
+
+  /**
+   * Upstream attributes for an HVAC unit change. Flair spells values title-case ("On", "Cool",
+   * "Auto") and takes the set point in the unit's own scale: whole degrees F, or half degrees C.
+   */
+  async hvacUnitAttributes(
+    unitId: string,
+    change: { power?: "on" | "off"; mode?: string; fanSpeed?: string; setPointC?: number }
+  ) {
+    const attributes: Record<string, unknown> = {};
+    if (change.power) attributes.power = titleCase(change.power);
+    if (change.mode) attributes.mode = titleCase(change.mode);
+    if (change.fanSpeed) attributes["fan-speed"] = titleCase(change.fanSpeed);
+    if (typeof change.setPointC === "number") {
+      const unit = summarizeHvacUnit(await this.getSingleResource("hvac-units", unitId));
+      attributes.temperature =
+        unit.temperature_scale === "F" ? Math.round(toFahrenheit(change.setPointC)) : Math.round(change.setPointC * 2) / 2;
+    }
+    return attributes;
+  }
+
+  /**
+   * Schedules with their events in week order, each event with room names and a one-line
+   * description. `active` marks the schedule its structure currently runs.
+   */
+  async describeSchedules(structureId?: string) {
+    const [schedules, events, structures, rooms] = await Promise.all([
+      this.listResources("schedules"),
+      this.listResources("schedule-events"),
+      this.describeStructures(),
+      this.describeRooms()
+    ]);
+    const structuresById = new Map(structures.map((structure) => [structure.id, structure]));
+    const roomNames = new Map(rooms.map((room) => [room.id, room.name]));
+    const eventsBySchedule = new Map<string, ScheduleEvent[]>();
+    for (const resource of events.data) {
+      const event = summarizeScheduleEvent(resource);
+      const key = event.schedule_id ?? "";
+      eventsBySchedule.set(key, [...(eventsBySchedule.get(key) ?? []), event]);
+    }
+
+    const rows = schedules.data
+      .filter((schedule) => !structureId || relationContainsId(schedule, "structure", structureId))
+      .map((schedule) => {
+        const scheduleStructureId = getRelationId(schedule, "structure");
+        const structure = structuresById.get(scheduleStructureId ?? "");
+        const scheduleEvents = (eventsBySchedule.get(schedule.id) ?? []).sort(compareScheduleEvents).map((event) => {
+          const named = {
+            ...event,
+            room_set_points: event.room_set_points.map((entry) =>
+              compactObject({
+                ...entry,
+                room_name: roomNames.get(entry.room_id),
+                set_point_f: Number(toFahrenheit(entry.set_point_c).toFixed(1))
+              })
+            )
+          };
+          return compactObject({
+            ...named,
+            set_point_f: fahrenheitOf(event.set_point_c),
+            description: describeScheduleEvent(named)
+          });
+        });
+        return compactObject({
+          id: schedule.id,
+          name: resolveResourceName(schedule, "Schedule").name,
+          structure_id: scheduleStructureId,
+          structure_name: structure?.name,
+          active: structure ? structure.active_schedule_id === schedule.id : undefined,
+          events: scheduleEvents
+        });
+      })
+      .sort((a, b) => a.name.localeCompare(b.name));
+
+    return {
+      schedules: rows,
+      summary: {
+        count: rows.length,
+        event_count: rows.reduce((sum, row) => sum + row.events.length, 0),
+        active: rows.filter((row) => row.active).map((row) => ({ structure_id: row.structure_id, schedule_id: row.id }))
+      }
+    };
+  }
+
+  /** The structure a schedule belongs to; activation and room lookups are scoped to it. */
+  async getScheduleStructureId(scheduleId: string) {
+    const schedule = await this.getSingleResource("schedules", scheduleId);
+    const structureId = getRelationId(schedule, "structure");
+    if (!structureId) {
+      throw new FlairApiError(`schedules/${scheduleId} is not linked to a structure`);
+    }
+    return structureId;
+  }
+
+  /** The schedule an event belongs to. */
+  async getScheduleEventScheduleId(eventId: string) {
+    const event = summarizeScheduleEvent(await this.getSingleResource("schedule-events", eventId));
+    if (!event.schedule_id) {
+      throw new FlairApiError(`schedule-events/${eventId} is not linked to a schedule`);
+    }
+    return event.schedule_id;
+  }
+
+  /** Falls back to the only structure on the account when no ID is given. */
+  async resolveStructureId(structureId?: string) {
+    if (structureId) return structureId;
+    const structures = await this.listStructures();
+    if (structures.data.length !== 1) {
+      throw new FlairApiError(`Found ${structures.data.length} structures; provide structure_id`);
+    }
+    return structures.data[0].id;
+  }
+
+  async describeRooms(structureId?: string) {
+    const result = await this.listRooms(structureId);
+    return result.data.map(summarizeRoom);
+  }
+
+  async describeRoom(roomId: string) {
+    const room = await this.getSingleResource("rooms", roomId);
+    const vents = await this.listVents(roomId);
+    return {
+      ...summarizeRoom(room),
+      vents: vents.data.map(summarizeVent)
+    };
+  }
+
+  async describeVents(roomId?: string) {
+    const result = await this.listVents(roomId);
+    return result.data.map(summarizeVent);
+  }
+
+  async describeVent(ventId: string) {
+    return summarizeVent(await this.getSingleResource("vents", ventId));
+  }
+
   async listDevices(options?: {
     structureId?: string;
     roomId?: string;
@@ -617,6 +1410,116 @@ export class FlairApiClient {
     };
   }
 
+  /**
+   * Battery, signal, firmware and last-seen state for every device, flagged against `thresholds`
+   * and grouped by structure, then room. Devices outside any room land in an unassigned group.
+   * A type the account cannot list (403/404) is skipped and reported rather than failing the report.
+   */
+  async deviceHealthReport(options: {
+    structureId?: string;
+    roomId?: string;
+    resourceTypes?: string[];
+    thresholds: DeviceHealthThresholds;
+    onlyIssues?: boolean;
+    maxItemsPerType?: number;
+  }) {
+    const requestedTypes =
+      options.resourceTypes && options.resourceTypes.length > 0
+        ? options.resourceTypes
+        : ["vents", "pucks", "puck2s", "remote-sensors", "thermostats"];
+    const [structures, rooms] = await Promise.all([this.describeStructures(), this.describeRooms()]);
+    const structureNames = new Map(structures.map((structure) => [structure.id, structure.name]));
+    const roomsById = new Map(rooms.map((room) => [room.id, room]));
+    const nowMs = Date.now();
+
+    const devices: Array<
+      DeviceHealthFields & {
+        id: string;
+        resource_type: string;
+        name: string;
+        structure_id?: string;
+        room_id?: string;
+      } & ReturnType<typeof assessDeviceHealth>
+    > = [];
+    const skippedTypes: Array<{ resource_type: string; status_code: number; error: string }> = [];
+    for (const type of requestedTypes) {
+      let result: Awaited<ReturnType<FlairApiClient["listResources"]>>;
+      try {
+        result = await this.listResources(type, { pageSize: 100, maxItems: options.maxItemsPerType ?? 500 });
+      } catch (err) {
+        if (!isUnlistableType(err)) throw err;
+        skippedTypes.push({ resource_type: type, status_code: err.statusCode, error: err.message });
+        continue;
+      }
+      const { unique } = dedupeResourcesById(result.data);
+      for (const item of unique) {
+        const roomId = getRelationId(item, "room");
+        const structureId = getRelationId(item, "structure") ?? roomsById.get(roomId ?? "")?.structure_id;
+        if (options.structureId && structureId !== options.structureId) continue;
+        if (options.roomId && roomId !== options.roomId) continue;
+
+        const fields = extractDeviceHealth(item.attributes ?? {});
+        devices.push({
+          id: item.id,
+          resource_type: type,
+          name: resolveResourceName(item, titleCase(type.replace(/s$/, ""))).name,
+          ...compactObject({ structure_id: structureId, room_id: roomId }),
+          ...fields,
+          ...assessDeviceHealth(fields, options.thresholds, nowMs)
+        });
+      }
+    }
+
+    const byIssue = Object.fromEntries(deviceHealthIssues.map((issue) => [issue, 0])) as Record<string, number>;
+    for (const device of devices) {
+      for (const entry of device.issues) byIssue[entry.issue] += 1;
+    }
+    const reported = options.onlyIssues ? devices.filter((device) => device.issues.length > 0) : devices;
+
+    const groups = new Map<string, Map<string, typeof reported>>();
+    for (const device of reported) {
+      const structureKey = device.structure_id ?? "";
+      const roomsInStructure = groups.get(structureKey) ?? new Map<string, typeof reported>();
+      roomsInStructure.set(device.room_id ?? "", [...(roomsInStructure.get(device.room_id ?? "") ?? []), device]);
+      groups.set(structureKey, roomsInStructure);
+    }
+    const severity = { critical: 0, warning: 1, ok: 2 };
+    const structureRows = Array.from(groups, ([structureId, roomsInStructure]) => ({
+      ...compactObject({
+        structure_id: structureId || undefined,
+        structure_name: structureNames.get(structureId)
+      }),
+      rooms: Array.from(roomsInStructure, ([roomId, roomDevices]) => ({
+        ...compactObject({
+          room_id: roomId || undefined,
+          room_name: roomId ? (roomsById.get(roomId)?.name ?? `Room ${roomId.slice(0, 8)}`) : "Unassigned"
+        }),
+        issue_count: roomDevices.reduce((total, device) => total + device.issues.length, 0),
+        devices: roomDevices
+          .sort((a, b) => severity[a.status] - severity[b.status] || a.name.localeCompare(b.name))
+          .map(({ structure_id: _structureId, room_id: _roomId, ...device }) => device)
+      })).sort((a, b) => String(a.room_name).localeCompare(String(b.room_name)))
+    }));
+
+    return {
+      thresholds: options.thresholds,
+      structures: structureRows,
+      summary: {
+        device_count: devices.length,
+        ok: devices.filter((device) => device.status === "ok").length,
+        warning: devices.filter((device) => device.status === "warning").length,
+        critical: devices.filter((device) => device.status === "critical").length,
+        by_issue: byIssue,
+        by_type: Object.fromEntries(
+          requestedTypes
+            .filter((type) => !skippedTypes.some((skipped) => skipped.resource_type === type))
+            .map((type) => [type, devices.filter((device) => device.resource_type === type).length])
+        ),
+        skipped_types: skippedTypes
+      }
+    };
+  }
+
   async listRoomTemperatures(options?: {
     structureId?: string;
     roomId?: string;
@@ -824,6 +1727,106 @@ export class FlairApiClient {
     };
   }
 
+  /**
+   * A scene's targets from current state: every vent's percent-open (via
+   * `listVentsWithRoomTemperatures`) and, optionally, the set points of the rooms those vents are in.
+   */
+  async captureScene(options: { structureId?: string; roomId?: string; includeRooms?: boolean }) {
+    const { vents: captured } = await this.listVentsWithRoomTemperatures({
+      structureId: options.structureId,
+      roomId: options.roomId
+    });
+    const vents: SceneVent[] = captured.flatMap((vent) =>
+      typeof vent.percent_open === "number" ? [{ ventId: vent.id, ventName: vent.name, percentOpen: vent.percent_open }] : []
+    );
+    if (vents.length === 0) {
+      throw new FlairApiError("No vents with a known position to capture");
+    }
+
+    const roomIds = new Set(captured.map((vent) => vent.room_id));
+    const rooms: SceneRoom[] =
+      options.includeRooms === false
+        ? []
+        : (await this.describeRooms(options.structureId)).flatMap((room) =>
+            roomIds.has(room.id) && typeof room.set_point_c === "number"
+              ? [{ roomId: room.id, roomName: room.name, setPointC: room.set_point_c }]
+              : []
+          );
+    return { vents, rooms };
+  }
+
+  /**
+   * Resolves a scene's targets against current state and diffs them. Targets whose ID and name
+   * both fail to resolve are listed under `unresolved` instead of failing the whole plan.
+   */
+  async planScene(scene: Pick<Scene, "structureId" | "vents" | "rooms">) {
+    const [vents, rooms] = await Promise.all([this.describeVents(), this.describeRooms()]);
+    const ventsById = new Map(vents.map((vent) => [vent.id, vent]));
+    const roomsById = new Map(rooms.map((room) => [room.id, room]));
+    const unresolved: Array<{ resource_type: string; id?: string; name?: string; error: string }> = [];
+
+    const resolve = async (resourceType: string, known: Map<string, unknown>, id?: string, name?: string) => {
+      if (id && known.has(id)) return id;
+      if (!name) {
+        unresolved.push({ resource_type: resourceType, id, error: `${resourceType}/${id} was not found` });
+        return undefined;
+      }
+      try {
+        return await this.resolveNamedId(resourceType, name, { structureId: scene.structureId });
+      } catch (err) {
+        if (!(err instanceof NameResolutionError)) throw err;
+        unresolved.push(compactObject({ resource_type: resourceType, id, name, error: err.message }));
+        return undefined;
+      }
+    };
+
+    const ventRows = [];
+    for (const target of scene.vents) {
+      const ventId = await resolve("vents", ventsById, target.ventId, target.ventName);
+      const vent = ventsById.get(ventId ?? "");
+      if (!vent) continue;
+      ventRows.push(
+        compactObject({
+          vent_id: vent.id,
+          name: vent.name,
+          room_name: roomsById.get(vent.room_id ?? "")?.name,
+          current_percent_open: vent.percent_open,
+          target_percent_open: target.percentOpen,
+          changes: vent.percent_open !== target.percentOpen
+        })
+      );
+    }
+
+    const roomRows = [];
+    for (const target of scene.rooms) {
+      const roomId = await resolve("rooms", roomsById, target.roomId, target.roomName);
+      const room = roomsById.get(roomId ?? "");
+      if (!room) continue;
+      roomRows.push(
+        compactObject({
+          room_id: room.id,
+          name: room.name,
+          current_set_point_c: room.set_point_c,
+          target_set_point_c: target.setPointC,
+          target_set_point_f: fahrenheitOf(target.setPointC),
+          changes: !attributeMatches(target.setPointC, room.set_point_c)
+        })
+      );
+    }
+
+    return {
+      vents: ventRows,
+      rooms: roomRows,
+      unresolved,
+      summary: {
+        vents_changing: ventRows.filter((row) => row.changes).length,
+        rooms_changing: roomRows.filter((row) => row.changes).length,
+        unchanged: [...ventRows, ...roomRows].filter((row) => !row.changes).length,
+        unresolved: unresolved.length
+      }
+    };
+  }
+
   async listOpenVentsInColdRooms(options: {
     belowTempC?: number;
     belowTempF?: number;
@@ -869,12 +1872,6 @@ export class FlairApiClient {
     maxStatPages?: number;
     includeRaw?: boolean;
   }) {
-    const toCelsius = (tempC?: number, tempF?: number) => {
-      if (typeof tempC === "number") return tempC;
-      if (typeof tempF === "number") return (tempF - 32) * (5 / 9);
-      return undefined;
-    };
-
     const operator = options.temperatureOperator ?? "lt";
     const thresholdC = toCelsius(options.thresholdTempC, options.thresholdTempF);
     let minTempC = toCelsius(options.minTempC, options.minTempF);
@@ -954,6 +1951,192 @@ export class FlairApiClient {
     };
   }
 
+  /**
+   * Recommended percent-open for every vent in a structure. Each room's target is, in order: its
+   * entry in `targetsByRoom`, `targetC`, the room's own set point, then the structure set point.
+   * Without `direction`, the structure's heat/cool mode (or the rooms' average gap) decides.
+   */
+  async planVentBalance(options: {
+    structureId?: string;
+    targetsByRoom?: Record<string, number>;
+    targetC?: number;
+    direction?: BalanceDirection;
+    tuning: Omit<VentBalanceOptions, "direction">;
+  }) {
+    const structureId = await this.resolveStructureId(options.structureId);
+    const [status, rooms, temperatures, allVents] = await Promise.all([
+      this.getStructureStatus(structureId),
+      this.describeRooms(structureId),
+      this.listRoomTemperatures({ structureId }),
+      this.describeVents()
+    ]);
+    const structure = status.structures[0];
+    const unknownRoomIds = Object.keys(options.targetsByRoom ?? {}).filter((roomId) => !rooms.some((room) => room.id === roomId));
+    if (unknownRoomIds.length > 0) {
+      throw new FlairApiError(`Rooms not found in structure ${structureId}: ${unknownRoomIds.join(", ")}`, 404);
+    }
+
+    const temperatureByRoom = new Map(temperatures.rooms.map((row) => [row.room_id, row.temperature_c]));
+    const balanceRooms = rooms.map((room): BalanceRoom => {
+      const requested = options.targetsByRoom?.[room.id];
+      const [target_c, target_source] =
+        typeof requested === "number"
+          ? [requested, "request" as const]
+          : typeof options.targetC === "number"
+            ? [options.targetC, "request" as const]
+            : typeof room.set_point_c === "number"
+              ? [room.set_point_c, "room" as const]
+              : [structure?.set_point_c, "structure" as const];
+      return compactObject({
+        id: room.id,
+        name: room.name,
+        temperature_c: temperatureByRoom.get(room.id) ?? room.current_temperature_c,
+        target_c,
+        target_source: typeof target_c === "number" ? target_source : undefined,
+        active: room.active
+      });
+    });
+    const roomIds = new Set(rooms.map((room) => room.id));
+    const vents = allVents.filter((vent) =>
+      vent.structure_id ? vent.structure_id === structureId : roomIds.has(vent.room_id ?? "")
+    );
+
+    const inferred = options.direction
+      ? { direction: options.direction, source: "request" as const }
+      : inferBalanceDirection(balanceRooms, structure?.heat_cool_mode);
+    const plan = recommendVentBalance(balanceRooms, vents, { ...options.tuning, direction: inferred.direction });
+    const count = (action: string) => plan.recommendations.filter((row) => row.action === action).length;
+
+    return {
+      structure_id: structureId,
+      direction: inferred.direction,
+      direction_source: inferred.source,
+      recommendations: plan.recommendations.map((row) => compactObject(row)),
+      rooms: plan.rooms.map((row) => compactObject(row)),
+      summary: {
+        vent_count: plan.recommendations.length,
+        open: count("open"),
+        close: count("close"),
+        hold: count("hold")
+      }
+    };
+  }
+
+  /**
+   * Per-room temperature/humidity series for a time window, read by paging `room-stats` newest
+   * first until rows fall before `sinceMs`. `complete` is false when the page budget ran out first.
+   */
+  async getRoomTemperatureHistory(options: {
+    structureId?: string;
+    roomId?: string;
+    sinceMs: number;
+    untilMs: number;
+    bucketMinutes: number;
+    stableThresholdCPerHour: number;
+    includePoints?: boolean;
+    pageSize?: number;
+    maxStatPages?: number;
+  }) {
+    const roomsResult = await this.listRooms(options.structureId);
+    let rooms = roomsResult.data;
+    if (options.roomId) {
+      rooms = rooms.filter((room) => room.id === options.roomId);
+    }
+
+    const history = await this.getRoomStatsHistory(new Set(rooms.map((room) => room.id)), options.sinceMs, options.untilMs, {
+      pageSize: options.pageSize,
+      maxPages: options.maxStatPages
+    });
+
+    const rows = rooms.map((room) => ({
+      ...compactObject({
+        room_id: room.id,
+        room_name: resolveResourceName(room, "Room").name,
+        structure_id: getRelationId(room, "structure")
+      }),
+      ...analyzeRoomSeries(history.pointsByRoom.get(room.id) ?? [], {
+        bucketMs: options.bucketMinutes * 60_000,
+        stableThresholdCPerHour: options.stableThresholdCPerHour,
+        includePoints: options.includePoints
+      })
+    }));
+    rows.sort((a, b) => String(a.room_name ?? "").localeCompare(String(b.room_name ?? "")));
+
+    const trends: Record<RoomTrend, number> = { warming: 0, cooling: 0, stable: 0, insufficient_data: 0 };
+    for (const row of rows) trends[row.trend] += 1;
+
+    return {
+      window: {
+        since: new Date(options.sinceMs).toISOString(),
+        until: new Date(options.untilMs).toISOString(),
+        bucket_minutes: options.bucketMinutes,
+        stable_threshold_c_per_hour: options.stableThresholdCPerHour
+      },
+      rooms: rows,
+      summary: {
+        room_count: rows.length,
+        rooms_with_data: rows.filter((row) => row.samples > 0).length,
+        trends,
+        rows_scanned: history.rowsScanned,
+        pages_fetched: history.pagesFetched,
+        complete: history.complete
+      }
+    };
+  }
+
+  private async getRoomStatsHistory(
+    roomIds: Set<string>,
+    sinceMs: number,
+    untilMs: number,
+    options?: { pageSize?: number; maxPages?: number }
+  ) {
+    const path = await this.resolveResourcePath("room-stats");
+    const pageSize = options?.pageSize ?? 200;
+    const maxPages = options?.maxPages ?? 20;
+    const pointsByRoom = new Map<string, RoomStatPoint[]>();
+    let rowsScanned = 0;
+    let pagesFetched = 0;
+    let complete = false;
+
+    for (let page = 1; page <= maxPages && !complete; page += 1) {
+      const doc = await this.requestJsonApi("GET", path, {
+        query: {
+          "page[number]": String(page),
+          "page[size]": String(pageSize),
+          sort: "-created-at"
+        }
+      });
+      pagesFetched += 1;
+
+      const rows = Array.isArray(doc.data) ? doc.data : doc.data ? [doc.data] : [];
+      for (const row of rows) {
+        rowsScanned += 1;
+        const attrs = row.attributes ?? {};
+        const atMs = Date.parse(firstString(attrs, ["created-at", "updated-at"]) ?? "");
+        if (!Number.isFinite(atMs) || atMs > untilMs) continue;
+        // Rows arrive newest first, so the first one before the window ends the scan.
+        if (atMs < sinceMs) {
+          complete = true;
+          break;
+        }
+        const roomId = firstString(attrs, ["room-id"]) ?? getRelationId(row, "room");
+        if (!roomId) continue;
+        if (roomIds.size > 0 && !roomIds.has(roomId)) continue;
+        const temperatureC = toNumber(attrs["temperature-c"]);
+        if (temperatureC === undefined) continue;
+
+        const humidity = toNumber(attrs.humidity);
+        const points = pointsByRoom.get(roomId) ?? [];
+        points.push({ atMs, temperatureC, ...(humidity === undefined ? {} : { humidity }) });
+        pointsByRoom.set(roomId, points);
+      }
+
+      if (rows.length < pageSize || !extractNextLink(doc)) complete = true;
+    }
+
+    return { pointsByRoom, rowsScanned, pagesFetched, complete };
+  }
+
   private async getLatestRoomStatsByRoom(
     roomIds: Set<string>,
     options?: { pageSize?: number; maxPages?: number }
@@ -996,6 +2179,159 @@ export class FlairApiClient {
     return statsByRoom;
   }
 
+  /** Current room temperature/humidity, vent percent-open and device online state, stamped with one time. */
+  async loadHistorySamples(): Promise<HistorySample[]> {
+    const rooms = await this.listRooms();
+    const vents = await this.listVents();
+    const pucks = await this.listResourcesIfListable("pucks");
+    const stats = await this.getLatestRoomStatsByRoom(new Set(rooms.data.map((room) => room.id)));
+    const at = new Date().toISOString();
+
+    const onlineValue = (attrs: Record<string, unknown>) => {
+      const state = deviceOnlineState(attrs);
+      return state.online ?? (typeof state.inactive === "boolean" ? !state.inactive : undefined);
+    };
+    const samples: HistorySample[] = [];
+    for (const room of rooms.data) {
+      const roomStats = stats.get(room.id);
+      samples.push({
+        at,
+        kind: "room",
+        resourceType: "rooms",
+        id: room.id,
+        ...compactObject({
+          name: resolveResourceName(room, "Room").name,
+          structureId: getRelationId(room, "structure")
+        }),
+        values: compactObject({ temperature_c: roomStats?.temperature_c, humidity: roomStats?.humidity })
+      });
+    }
+    for (const vent of vents.data) {
+      const attrs = vent.attributes ?? {};
+      samples.push({
+        at,
+        kind: "vent",
+        resourceType: "vents",
+        id: vent.id,
+        ...compactObject({
+          name: resolveResourceName(vent, "Vent").name,
+          roomId: getRelationId(vent, "room"),
+          structureId: getRelationId(vent, "structure")
+        }),
+        values: compactObject({ percent_open: toNumber(attrs["percent-open"]), online: onlineValue(attrs) })
+      });
+    }
+    for (const puck of pucks) {
+      samples.push({
+        at,
+        kind: "device",
+        resourceType: "pucks",
+        id: puck.id,
+        ...compactObject({
+          name: resolveResourceName(puck, "Puck").name,
+          roomId: getRelationId(puck, "room"),
+          structureId: getRelationId(puck, "structure")
+        }),
+        values: compactObject({ online: onlineValue(puck.attributes ?? {}) })
+      });
+    }
+    return samples;
+  }
+
+  // Reads go through the response cache, so a poll shortly after a tool call costs nothing upstream.
+  private async loadChangeSnapshot(): Promise<ChangeSnapshot> {
+    const rooms = await this.listRooms();
+    const vents = await this.listVents();
+    const pucks = await this.listResourcesIfListable("pucks");
+    const stats = await this.getLatestRoomStatsByRoom(new Set(rooms.data.map((room) => room.id)));
+
+    const roomStates = new Map<string, Record<string, unknown>>();
+    for (const room of rooms.data) {
+      const attrs = room.attributes ?? {};
+      const roomStats = stats.get(room.id);
+      roomStates.set(
+        room.id,
+        compactObject({
+          temperature_c: roomStats?.temperature_c,
+          humidity: roomStats?.humidity,
+          set_point_c: toNumber(attrs["set-point-c"]),
+          active: toBool(attrs.active)
+        })
+      );
+    }
+
+    const snapshot: ChangeSnapshot = new Map();
+    for (const vent of vents.data) {
+      const state = fingerprint(
+        compactObject({
+          percent_open: toNumber(vent.attributes?.["percent-open"]),
+          ...deviceOnlineState(vent.attributes ?? {})
+        })
+      );
+      snapshot.set(snapshotKey("vents", vent.id), state);
+      // Room views list their vents, so a vent change is also a room change.
+      const roomState = roomStates.get(getRelationId(vent, "room") ?? "");
+      if (roomState) roomState[`vent:${vent.id}`] = state;
+    }
+    for (const puck of pucks) {
+      const roomState = roomStates.get(getRelationId(puck, "room") ?? "");
+      if (roomState) roomState[`puck:${puck.id}`] = fingerprint(deviceOnlineState(puck.attributes ?? {}));
+    }
+    for (const [roomId, state] of roomStates) {
+      snapshot.set(snapshotKey("rooms", roomId), fingerprint(state));
+    }
+
+    return snapshot;
+  }
+
+  // Optional device types (pucks) must not take room and vent reads down with them.
+  private async listResourcesIfListable(resourceType: string) {
+    try {
+      return (await this.listResources(resourceType)).data;
+    } catch (err) {
+      if (!isUnlistableType(err)) throw err;
+      return [];
+    }
+  }
+
+  private async describeClimateDevices<T extends { name: string; room_id?: string; current_temperature_c?: number }>(
+    resourceType: string,
+    summarize: (resource: JsonApiResource) => T,
+    options: { structureId?: string; roomId?: string }
+  ) {
+    const [result, rooms] = await Promise.all([this.listResources(resourceType), this.describeRooms()]);
+    const roomsById = new Map(rooms.map((room) => [room.id, room]));
+    return dedupeResourcesById(result.data)
+      .unique.filter(
+        (item) =>
+          (!options.structureId || relationContainsId(item, "structure", options.structureId)) &&
+          (!options.roomId || relationContainsId(item, "room", options.roomId))
+      )
+      .map((item) => {
+        const device = summarize(item);
+        const room = roomsById.get(device.room_id ?? "");
+        const ownTemperature = typeof device.current_temperature_c === "number";
+        const temperatureC = ownTemperature ? device.current_temperature_c : room?.current_temperature_c;
+        return compactObject({
+          ...device,
+          room_name: room?.name,
+          current_temperature_c: temperatureC,
+          current_temperature_f: fahrenheitOf(temperatureC),
+          temperature_source: typeof temperatureC === "number" ? (ownTemperature ? "device" : "room") : undefined
+        });
+      })
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  private async getSingleResource(resourceType: string, resourceId: string) {
+    const doc = await this.getResource(resourceType, resourceId);
+    const resource = Array.isArray(doc.data) ? doc.data[0] : doc.data;
+    if (!resource) {
+      throw new FlairApiError(`${resourceType}/${resourceId} was not found`, 404);
+    }
+    return resource;
+  }
+
   private createResourceQuery(options?: {
     pageNumber?: number;
     pageSize?: number;
@@ -1028,7 +2364,30 @@ export class FlairApiClient {
     return `${config.flairApiRootPath.replace(/\/$/, "")}/${encodeURIComponent(resourceType)}`;
   }
 
+  private invalidateCachedType(resourceType: string) {
+    this.responseCache?.invalidateTypes(cacheInvalidationTargets[resourceType] ?? [resourceType]);
+  }
+
   private async requestJsonApi(
+    method: string,
+    path: string,
+    options?: {
+      auth?: boolean;
+      query?: Record<string, string>;
+      body?: Record<string, unknown>;
+      retryMax?: number;
+      cache?: boolean;
+    }
+  ): Promise<JsonApiDocument> {
+    // GETs go through the TTL cache; identical in-flight GETs share one upstream request.
+    if (method === "GET" && this.responseCache && options?.cache !== false) {
+      const key = this.buildUrl(path, options?.query);
+      return this.responseCache.getOrLoad(key, resourceTypeFromPath(path), () => this.sendJsonApi(method, path, options));
+    }
+    return this.sendJsonApi(method, path, options);
+  }
+
+  private async sendJsonApi(
     method: string,
     path: string,
     options?: {
@@ -1040,6 +2399,13 @@ export class FlairApiClient {
   ): Promise<JsonApiDocument> {
     const auth = options?.auth ?? true;
     const retryMax = options?.retryMax ?? config.retryMax;
+    const resourceType = resourceTypeFromPath(path);
+
+    const backoff = async (reason: string, delayMs: number) => {
+      upstreamRetriesTotal.inc({ method, resource_type: resourceType, reason });
+      upstreamBackoffSeconds.observe({ method, resource_type: resourceType }, delayMs / 1000);
+      await sleep(delayMs);
+    };
 
     let attempt = 0;
     while (true) {
@@ -1057,7 +2423,7 @@ export class FlairApiClient {
         const retryable = response.statusCode === 429 || response.statusCode >= 500;
         if (retryable && attempt < retryMax) {
           attempt += 1;
-          await sleep(this.backoffMs(attempt, response.retryAfterMs));
+          await backoff(`status_${response.statusCode}`, this.backoffMs(attempt, response.retryAfterMs));
           continue;
         }
 
@@ -1075,7 +2441,7 @@ export class FlairApiClient {
         const retryable = true;
         if (attempt < retryMax) {
           attempt += 1;
-          await sleep(this.backoffMs(attempt));
+          await backoff("network_error", this.backoffMs(attempt));
           continue;
         }
 
@@ -1119,6 +2485,8 @@ export class FlairApiClient {
 
     const controller = new AbortController();
     const timeout = setTimeout(() => controller.abort(), config.requestTimeoutMs);
+    const resourceType = resourceTypeFromPath(path);
+    const endTimer = upstreamRequestDurationSeconds.startTimer({ method, resource_type: resourceType });
 
     let response: Response;
     try {
@@ -1128,10 +2496,18 @@ export class FlairApiClient {
         body: options.body ? JSON.stringify(options.body) : undefined,
         signal: controller.signal
       });
+    } catch (err) {
+      upstreamRequestsTotal.inc({ method, resource_type: resourceType, status: "network_error" });
+      if (method !== "GET") noteUpstreamWrite({ method, path, status: null });
+      throw err;
     } finally {
       clearTimeout(timeout);
+      endTimer();
     }
 
+    upstreamRequestsTotal.inc({ method, resource_type: resourceType, status: String(response.status) });
+    if (method !== "GET") noteUpstreamWrite({ method, path, status: response.status });
+
     const retryAfterHeader = response.headers.get("retry-after");
     const retryAfterMs = retryAfterHeader ? Number(retryAfterHeader) * 1000 : undefined;
 
@@ -1174,11 +2550,15 @@ export type FlairApiClientStatus = {
     cached: boolean;
     resourceTypes: number;
   };
+  responseCache: ReturnType<FlairApiClient["getResponseCacheStatus"]>;
+  changePoller: ReturnType<FlairApiClient["getChangePollerStatus"]>;
 };
 
 export const buildFlairStatus = (client: FlairApiClient): FlairApiClientStatus => ({
   token: client.getTokenStatus(),
-  apiRootCache: client.getApiRootCacheStatus()
+  apiRootCache: client.getApiRootCacheStatus(),
+  responseCache: client.getResponseCacheStatus(),
+  changePoller: client.getChangePollerStatus()
 });
 
 export const normalizeFlairError = (err: unknown) => {
@@ -1196,6 +2576,8 @@ export const normalizeFlairError = (err: unknown) => {
   };
 };
 
+export const toJsonText = (data: unknown) => JSON.stringify(redactSensitive(data), null, 2);
+
 export const toJsonOutput = (data: unknown) => ({
-  content: [{ type: "text" as const, text: JSON.stringify(redactSensitive(data), null, 2) }]
+  content: [{ type: "text" as const, text: toJsonText(data) }]
 });
@@ -1,6 +1,7 @@
 import { z } from "zod";
 import { config } from "./config.js";
 import { logger } from "./logger.js";
+import { tokenRefreshesTotal } from "./metrics.js";
 
 type TokenRecord = {
   accessToken: string;
@@ -32,7 +33,16 @@ export class FlairTokenManager {
     }
 
     if (!this.inflight) {
-      this.inflight = this.refreshToken();
+      this.inflight = this.refreshToken().then(
+        (token) => {
+          tokenRefreshesTotal.inc({ outcome: "success" });
+          return token;
+        },
+        (err) => {
+          tokenRefreshesTotal.inc({ outcome: "failure" });
+          throw err;
+        }
+      );
     }
 
     try {
@@ -0,0 +1,91 @@
+import type { HistorySample, HistoryStore } from "./historyStore.js";
+import { logger } from "./logger.js";
+
+export type HistoryRecorderOptions = {
+  intervalMs: number;
+  // Ceiling for the backoff applied after failed snapshots.
+  maxIntervalMs: number;
+};
+
+/**
+ * Periodically snapshots room, vent and device state into a history store and prunes it to the
+ * retention window. Unlike the change poller it runs whether or not anyone is listening.
+ */
+export class HistoryRecorder {
+  private timer: NodeJS.Timeout | null = null;
+  private inflight: Promise<number> | null = null;
+  private currentIntervalMs: number;
+  private lastRecordAtMs?: number;
+  private lastError?: string;
+  private snapshots = 0;
+  private failures = 0;
+  private samplesWritten = 0;
+
+  constructor(
+    private readonly loadSamples: () => Promise<HistorySample[]>,
+    private readonly store: HistoryStore,
+    private readonly options: HistoryRecorderOptions
+  ) {
+    this.currentIntervalMs = options.intervalMs;
+  }
+
+  start() {
+    if (!this.timer) this.schedule(0);
+  }
+
+  stop() {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+  }
+
+  /** Records a snapshot now (coalescing with one in flight) and returns the number of samples written. */
+  recordNow(): Promise<number> {
+    if (!this.inflight) {
+      this.inflight = this.record().finally(() => {
+        this.inflight = null;
+      });
+    }
+    return this.inflight;
+  }
+
+  getStatus() {
+    return {
+      running: !!this.timer,
+      intervalMs: this.currentIntervalMs,
+      snapshots: this.snapshots,
+      failures: this.failures,
+      samplesWritten: this.samplesWritten,
+      lastRecordAt: this.lastRecordAtMs ? new Date(this.lastRecordAtMs).toISOString() : null,
+      lastError: this.lastError ?? null
+    };
+  }
+
+  private async record() {
+    this.snapshots += 1;
+    try {
+      const samples = await this.loadSamples();
+      await this.store.append(samples);
+      await this.store.prune();
+      this.samplesWritten += samples.length;
+      this.lastRecordAtMs = Date.now();
+      this.lastError = undefined;
+      this.currentIntervalMs = this.options.intervalMs;
+      return samples.length;
+    } catch (err) {
+      this.failures += 1;
+      this.lastError = err instanceof Error ? err.message : String(err);
+      this.currentIntervalMs = Math.min(this.currentIntervalMs * 2, this.options.maxIntervalMs);
+      logger.warn({ err, nextSnapshotInMs: this.currentIntervalMs }, "History snapshot failed");
+      return 0;
+    }
+  }
+
+  private schedule(delayMs: number) {
+    this.timer = setTimeout(() => {
+      void this.recordNow().finally(() => {
+        if (this.timer) this.schedule(this.currentIntervalMs);
+      });
+    }, delayMs);
+    this.timer.unref();
+  }
+}
@@ -0,0 +1,275 @@
+import { appendFile, mkdir, readdir, readFile, rm } from "node:fs/promises";
+import path from "node:path";
+
+export type HistoryKind = "room" | "vent" | "device";
+
+export type HistoryMetric = "temperature_c" | "humidity" | "percent_open" | "online";
+
+export type HistorySample = {
+  at: string;
+  kind: HistoryKind;
+  resourceType: string;
+  id: string;
+  name?: string;
+  roomId?: string;
+  structureId?: string;
+  // Only the metrics the resource reported at `at`.
+  values: Partial<Record<HistoryMetric, number | boolean>>;
+};
+
+export type HistoryAggregation = "avg" | "min" | "max" | "last" | "count";
+
+export type HistoryQuery = {
+  sinceMs: number;
+  untilMs: number;
+  metric: HistoryMetric;
+  kinds?: HistoryKind[];
+  ids?: string[];
+  roomIds?: string[];
+  // Omit for raw samples.
+  bucketMs?: number;
+  aggregation?: HistoryAggregation;
+  // Per series; the newest points are kept.
+  maxPoints?: number;
+};
+
+export type HistoryStoreOptions = {
+  directory: string;
+  retentionDays: number;
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DAY_FILE = /^(\d{4}-\d{2}-\d{2})\.jsonl$/;
+
+const dayOf = (ms: number) => new Date(ms).toISOString().slice(0, 10);
+
+const round = (value: number) => Number(value.toFixed(3));
+
+// `online` is stored as a boolean and aggregated as 1/0, so `avg` reads as the fraction of time online.
+const numericValue = (value: number | boolean | undefined) =>
+  typeof value === "boolean" ? (value ? 1 : 0) : typeof value === "number" ? value : undefined;
+
+// Running min/max/sum/latest, so a window of any length is folded without holding every value.
+type Accumulator = {
+  count: number;
+  sum: number;
+  min: number;
+  max: number;
+  firstAtMs: number;
+  lastAtMs: number;
+  last: number;
+};
+
+const accumulate = (acc: Accumulator | undefined, atMs: number, value: number): Accumulator => {
+  if (!acc) return { count: 1, sum: value, min: value, max: value, firstAtMs: atMs, lastAtMs: atMs, last: value };
+  acc.count += 1;
+  acc.sum += value;
+  if (value < acc.min) acc.min = value;
+  if (value > acc.max) acc.max = value;
+  if (atMs < acc.firstAtMs) acc.firstAtMs = atMs;
+  if (atMs >= acc.lastAtMs) {
+    acc.lastAtMs = atMs;
+    acc.last = value;
+  }
+  return acc;
+};
+
+const accumulatedValue = (acc: Accumulator, aggregation: HistoryAggregation) => {
+  switch (aggregation) {
+    case "min":
+      return acc.min;
+    case "max":
+      return acc.max;
+    case "last":
+      return acc.last;
+    case "count":
+      return acc.count;
+    default:
+      return round(acc.sum / acc.count);
+  }
+};
+
+type SeriesEntry = {
+  sample: HistorySample;
+  summary: Accumulator;
+  // Raw points, or aggregates keyed by bucket start; both trimmed to the newest `maxPoints` after each day.
+  points: Array<{ atMs: number; value: number }>;
+  buckets: Map<number, Accumulator>;
+  truncated: boolean;
+};
+
+/**
+ * Append-only JSONL files, one per UTC day (`2026-01-31.jsonl`), so retention is a matter of
+ * deleting whole files and a query only reads the days it spans.
+ */
+export class HistoryStore {
+  private pending: Promise<void> = Promise.resolve();
+
+  constructor(private readonly options: HistoryStoreOptions) {}
+
+  append(samples: HistorySample[]) {
+    const byDay = new Map<string, string[]>();
+    for (const sample of samples) {
+      const day = dayOf(Date.parse(sample.at));
+      byDay.set(day, [...(byDay.get(day) ?? []), JSON.stringify(sample)]);
+    }
+    const write = this.pending.then(async () => {
+      await mkdir(this.options.directory, { recursive: true });
+      for (const [day, lines] of byDay) {
+        await appendFile(this.filePath(day), `${lines.join("\n")}\n`, { encoding: "utf8", mode: 0o600 });
+      }
+    });
+    // The caller sees a failed write (the recorder counts it); the chain carries on for the next one.
+    this.pending = write.catch(() => undefined);
+    return write;
+  }
+
+  /** Deletes day files older than the retention window and returns how many were removed. */
+  async prune(nowMs = Date.now()) {
+    await this.pending;
+    const cutoff = dayOf(nowMs - this.options.retentionDays * DAY_MS);
+    let removed = 0;
+    for (const day of await this.days()) {
+      if (day >= cutoff) continue;
+      await rm(this.filePath(day), { force: true });
+      removed += 1;
+    }
+    return removed;
+  }
+
+  async getStatus() {
+    const days = await this.days();
+    return {
+      directory: this.options.directory,
+      retentionDays: this.options.retentionDays,
+      oldestDay: days[0] ?? null,
+      newestDay: days[days.length - 1] ?? null
+    };
+  }
+
+  /**
+   * One series per resource, oldest point first. Day files are read in order and folded as they
+   * go, so memory stays bounded by `maxPoints` per series however long the window is.
+   */
+  async query(query: HistoryQuery) {
+    await this.pending;
+    const aggregation = query.aggregation ?? "avg";
+    const maxPoints = query.maxPoints ?? 500;
+    const bucketMs = query.bucketMs;
+    const firstDay = dayOf(query.sinceMs);
+    const lastDay = dayOf(query.untilMs);
+    const series = new Map<string, SeriesEntry>();
+    let samplesScanned = 0;
+
+    for (const day of await this.days()) {
+      if (day < firstDay || day > lastDay) continue;
+      for (const line of await this.readLines(this.filePath(day))) {
+        let sample: HistorySample;
+        try {
+          sample = JSON.parse(line) as HistorySample;
+        } catch {
+          continue;
+        }
+        samplesScanned += 1;
+        const atMs = Date.parse(sample.at);
+        if (!(atMs >= query.sinceMs && atMs <= query.untilMs)) continue;
+        if (query.kinds?.length && !query.kinds.includes(sample.kind)) continue;
+        if (query.ids?.length && !query.ids.includes(sample.id)) continue;
+        if (query.roomIds?.length && !query.roomIds.includes(sample.kind === "room" ? sample.id : sample.roomId ?? "")) {
+          continue;
+        }
+        const value = numericValue(sample.values?.[query.metric]);
+        if (value === undefined) continue;
+
+        const key = `${sample.kind}/${sample.id}`;
+        const entry = series.get(key);
+        if (!entry) {
+          series.set(key, { sample, summary: accumulate(undefined, atMs, value), points: [], buckets: new Map(), truncated: false });
+        } else {
+          // Names can change; report the most recent one.
+          entry.sample = sample;
+          accumulate(entry.summary, atMs, value);
+        }
+        const { points, buckets } = series.get(key)!;
+        if (bucketMs) {
+          const start = Math.floor(atMs / bucketMs) * bucketMs;
+          buckets.set(start, accumulate(buckets.get(start), atMs, value));
+        } else {
+          points.push({ atMs, value });
+        }
+      }
+
+      // Samples live in the file for their UTC day, so later files never reach back into what is dropped here.
+      for (const entry of series.values()) {
+        if (entry.points.length > maxPoints) {
+          entry.points.sort((a, b) => a.atMs - b.atMs);
+          entry.points.splice(0, entry.points.length - maxPoints);
+          entry.truncated = true;
+        }
+        if (entry.buckets.size > maxPoints) {
+          const starts = Array.from(entry.buckets.keys()).sort((a, b) => a - b);
+          for (const start of starts.slice(0, starts.length - maxPoints)) entry.buckets.delete(start);
+          entry.truncated = true;
+        }
+      }
+    }
+
+    const rows = Array.from(series.values()).map(({ sample, summary, points, buckets, truncated }) => {
+      const output: Array<{ at: string; value: number; samples?: number }> = bucketMs
+        ? Array.from(buckets)
+            .sort(([a], [b]) => a - b)
+            .map(([start, bucket]) => ({
+              at: new Date(start).toISOString(),
+              value: accumulatedValue(bucket, aggregation),
+              samples: bucket.count
+            }))
+        : points.sort((a, b) => a.atMs - b.atMs).map((point) => ({ at: new Date(point.atMs).toISOString(), value: point.value }));
+      return {
+        kind: sample.kind,
+        resource_type: sample.resourceType,
+        id: sample.id,
+        ...(sample.name ? { name: sample.name } : {}),
+        ...(sample.roomId ? { room_id: sample.roomId } : {}),
+        ...(sample.structureId ? { structure_id: sample.structureId } : {}),
+        metric: query.metric,
+        summary: {
+          samples: summary.count,
+          first_at: new Date(summary.firstAtMs).toISOString(),
+          last_at: new Date(summary.lastAtMs).toISOString(),
+          min: summary.min,
+          max: summary.max,
+          mean: accumulatedValue(summary, "avg"),
+          latest: summary.last
+        },
+        points: output,
+        truncated
+      };
+    });
+    rows.sort((a, b) => `${a.kind}/${a.name ?? a.id}`.localeCompare(`${b.kind}/${b.name ?? b.id}`));
+
+    return { series: rows, samplesScanned };
+  }
+
+  private filePath(day: string) {
+    return path.join(this.options.directory, `${day}.jsonl`);
+  }
+
+  private async days() {
+    try {
+      const names = await readdir(this.options.directory);
+      return names.flatMap((name) => DAY_FILE.exec(name)?.[1] ?? []).sort();
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== "ENOENT") throw err;
+      return [];
+    }
+  }
+
+  private async readLines(filePath: string) {
+    try {
+      return (await readFile(filePath, "utf8")).split("\n").filter(Boolean);
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== "ENOENT") throw err;
+      return [];
+    }
+  }
+}
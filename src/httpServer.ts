@@ -0,0 +1,294 @@
+import crypto from "node:crypto";
+import express, { Request, Response } from "express";
+import helmet from "helmet";
+import { pinoHttp } from "pino-http";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+import { config } from "./config.js";
+import {
+  authenticateRequest,
+  canOverrideVentPolicy,
+  canUseWriteTools,
+  type ClientIdentity,
+  isAuthEnabled
+} from "./auth.js";
+import { logger } from "./logger.js";
+import { buildFlairStatus, FlairApiClient, normalizeFlairError } from "./flairApi.js";
+import { createFlairMcpServer, type FlairMcpServerOptions } from "./mcp.js";
+import { metricsRegistry, sessionsActive, sessionsExpiredTotal } from "./metrics.js";
+
+type SessionState = {
+  transport: StreamableHTTPServerTransport;
+  server: ReturnType<typeof createFlairMcpServer>;
+  client?: ClientIdentity;
+  createdAt: number;
+  lastSeenAt: number;
+};
+
+const sessionTtlMs = 30 * 60 * 1000;
+
+const getSessionId = (headers: Request["headers"]) => {
+  const value = headers["mcp-session-id"];
+  if (Array.isArray(value)) return value[0];
+  return typeof value === "string" ? value : undefined;
+};
+
+const jsonRpcError = (code: number, message: string) => ({
+  jsonrpc: "2.0" as const,
+  error: {
+    code,
+    message
+  },
+  id: null
+});
+
+const allowedHosts = new Set(config.allowedHosts);
+const allowedOrigins = new Set(config.allowedOrigins);
+
+const isHostAllowed = (hostHeader?: string) => {
+  if (!hostHeader) return false;
+  const host = hostHeader.split(":")[0].toLowerCase();
+  return allowedHosts.has(host);
+};
+
+const isOriginAllowed = (originHeader?: string) => {
+  if (!originHeader) return true;
+  if (allowedOrigins.size === 0) return true;
+  try {
+    const origin = new URL(originHeader);
+    return allowedOrigins.has(origin.hostname.toLowerCase());
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Builds the Express app (health, metrics, MCP endpoint) without listening,
+ * so callers and tests control the port and the stale-session sweep.
+ */
+export function createHttpApp(flairApi: FlairApiClient, shared: FlairMcpServerOptions = {}) {
+  const app = express();
+  app.set("trust proxy", config.trustProxy);
+
+  app.use(
+    helmet({
+      contentSecurityPolicy: false
+    })
+  );
+  app.use(
+    pinoHttp({
+      logger: logger as any
+    })
+  );
+  app.use(
+    express.json({
+      limit: "1mb"
+    })
+  );
+
+  const sessions = new Map<string, SessionState>();
+
+  const closeSession = async (sessionId: string) => {
+    const session = sessions.get(sessionId);
+    if (!session) return;
+    sessions.delete(sessionId);
+    sessionsActive.set(sessions.size);
+    try {
+      await session.transport.close();
+    } catch {
+      // ignore
+    }
+    try {
+      const maybeClosable = session.server as unknown as { close?: () => Promise<void> | void };
+      if (typeof maybeClosable.close === "function") {
+        await maybeClosable.close();
+      }
+    } catch {
+      // ignore
+    }
+  };
+
+  const cleanupStaleSessions = async (nowMs = Date.now()) => {
+    const cutoff = nowMs - sessionTtlMs;
+    for (const [sessionId, session] of sessions.entries()) {
+      if (session.lastSeenAt < cutoff) {
+        logger.info({ sessionId }, "Closing stale MCP session");
+        sessionsExpiredTotal.inc();
+        await closeSession(sessionId);
+      }
+    }
+  };
+
+  app.get(config.healthPath, async (req, res) => {
+    const deep = typeof req.query.deep === "string" && ["1", "true", "yes"].includes(req.query.deep.toLowerCase());
+
+    let deepResult: unknown = undefined;
+    let deepOk = true;
+
+    if (deep) {
+      try {
+        const types = await flairApi.listResourceTypes();
+        deepResult = {
+          ok: true,
+          resourceTypeCount: types.length
+        };
+      } catch (err) {
+        deepOk = false;
+        deepResult = {
+          ok: false,
+          error: normalizeFlairError(err)
+        };
+      }
+    }
+
+    const status = {
+      ok: deep ? deepOk : true,
+      service: "flair-mcp",
+      version: "0.1.0",
+      time: new Date().toISOString(),
+      uptimeSec: Math.floor(process.uptime()),
+      writeToolsEnabled: config.writeToolsEnabled,
+      authEnabled: isAuthEnabled(),
+      sessions: sessions.size,
+      rateLimit: shared.rateLimiter ? { enabled: true, ...shared.rateLimiter.getStatus() } : { enabled: false },
+      flair: buildFlairStatus(flairApi),
+      ...(deep ? { deep: deepResult } : {})
+    };
+
+    res.status(status.ok ? 200 : 503).json(status);
+  });
+
+  if (config.metricsEnabled) {
+    app.get(config.metricsPath, async (_req, res) => {
+      try {
+        res.setHeader("Content-Type", metricsRegistry.contentType);
+        res.send(await metricsRegistry.metrics());
+      } catch (err) {
+        logger.error({ err }, "Failed to render metrics");
+        res.status(500).send("metrics unavailable");
+      }
+    });
+  }
+
+  app.all(config.mcpPath, async (req: Request, res: Response) => {
+    if (!isHostAllowed(req.headers.host)) {
+      return res.status(403).json({ error: "Host not allowed" });
+    }
+
+    if (!isOriginAllowed(req.headers.origin)) {
+      return res.status(403).json({ error: "Origin not allowed" });
+    }
+
+    let client: ClientIdentity | undefined;
+    if (isAuthEnabled()) {
+      client = authenticateRequest(req.headers);
+      if (!client) {
+        res.setHeader("WWW-Authenticate", 'Bearer realm="flair-mcp"');
+        return res.status(401).json(jsonRpcError(-32001, "Unauthorized: missing or invalid API key"));
+      }
+    }
+
+    const sessionId = getSessionId(req.headers);
+    let session = sessionId ? sessions.get(sessionId) : undefined;
+
+    if (session && session.client?.label !== client?.label) {
+      return res.status(403).json(jsonRpcError(-32001, "Forbidden: session belongs to a different API key"));
+    }
+
+    try {
+      if (!session) {
+        const isInit = req.method === "POST" && isInitializeRequest(req.body);
+        if (sessionId || !isInit) {
+          return res.status(400).json(jsonRpcError(-32000, "Bad Request: No valid session ID provided"));
+        }
+
+        const server = createFlairMcpServer(flairApi, {
+          ...shared,
+          writeToolsEnabled: canUseWriteTools(client),
+          ventPolicyOverride: canOverrideVentPolicy(client),
+          clientKey: client ? `key:${client.label}` : `ip:${req.ip ?? "unknown"}`
+        });
+        const createdAt = Date.now();
+        let initializedSessionId: string | undefined;
+
+        const transport = new StreamableHTTPServerTransport({
+          sessionIdGenerator: () => crypto.randomUUID(),
+          onsessioninitialized: (id) => {
+            initializedSessionId = id;
+            sessions.set(id, {
+              transport,
+              server,
+              client,
+              createdAt,
+              lastSeenAt: Date.now()
+            });
+            sessionsActive.set(sessions.size);
+          }
+        });
+
+        transport.onclose = () => {
+          const id = initializedSessionId ?? transport.sessionId;
+          if (id) {
+            sessions.delete(id);
+            sessionsActive.set(sessions.size);
+          }
+        };
+
+        await server.connect(transport);
+
+        session = {
+          transport,
+          server,
+          client,
+          createdAt,
+          lastSeenAt: Date.now()
+        };
+      }
+
+      session.lastSeenAt = Date.now();
+
+      if (req.method === "GET" || req.method === "DELETE") {
+        await session.transport.handleRequest(req, res);
+      } else {
+        await session.transport.handleRequest(req, res, req.body);
+      }
+    } catch (err) {
+      logger.error({ err, path: req.path, sessionId }, "MCP request failed");
+      if (!res.headersSent) {
+        res.status(500).json({ error: "MCP internal error" });
+      }
+    }
+  });
+
+  return {
+    app,
+    sessions,
+    closeSession,
+    cleanupStaleSessions
+  };
+}
+
+export function startHttpServer(flairApi: FlairApiClient, shared: FlairMcpServerOptions = {}) {
+  const { app, cleanupStaleSessions } = createHttpApp(flairApi, shared);
+
+  setInterval(() => {
+    cleanupStaleSessions().catch((err) => {
+      logger.warn({ err }, "Failed to cleanup stale sessions");
+    });
+  }, 5 * 60 * 1000);
+
+  app.listen(config.port, () => {
+    logger.info(
+      {
+        port: config.port,
+        mcpPath: config.mcpPath,
+        healthPath: config.healthPath,
+        metricsPath: config.metricsEnabled ? config.metricsPath : undefined,
+        writeToolsEnabled: config.writeToolsEnabled,
+        authEnabled: isAuthEnabled(),
+        apiKeyLabels: config.apiKeys.map((entry) => entry.label)
+      },
+      "Flair MCP listening"
+    );
+  });
+}
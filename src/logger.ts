@@ -1,17 +1,22 @@
 import pino from "pino";
 import { config } from "./config.js";
 
-export const logger = pino({
-  level: config.logLevel,
-  ...(config.logFile
-    ? {
-        transport: {
-          target: "pino/file",
-          options: {
-            destination: config.logFile,
-            mkdir: true
-          }
+const options = {
+  level: config.logLevel
+};
+
+// stdout carries JSON-RPC frames in stdio mode, so logs go to stderr unless a log file is configured.
+export const logger = config.logFile
+  ? pino({
+      ...options,
+      transport: {
+        target: "pino/file",
+        options: {
+          destination: config.logFile,
+          mkdir: true
         }
       }
-    : {})
-});
+    })
+  : config.transport === "stdio"
+    ? pino(options, pino.destination(2))
+    : pino(options);
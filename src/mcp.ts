@@ -1,10 +1,43 @@
-import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import crypto from "node:crypto";
+import { McpServer, type ToolCallback } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { ZodRawShape } from "zod";
 import { z } from "zod";
+import { captureUpstreamWrites, type AuditLog, type UpstreamWrite } from "./auditLog.js";
 import { config } from "./config.js";
-import { buildFlairStatus, FlairApiClient, normalizeFlairError, toJsonOutput } from "./flairApi.js";
+import {
+  attributeMatches,
+  buildFlairStatus,
+  FlairApiClient,
+  normalizeFlairError,
+  redactSensitive,
+  toCelsius,
+  toJsonOutput,
+  toJsonText,
+  toNumber
+} from "./flairApi.js";
+import type { HistoryRecorder } from "./historyRecorder.js";
+import type { HistoryStore } from "./historyStore.js";
+import { logger } from "./logger.js";
+import { registerFlairResources } from "./mcpResources.js";
+import { NameResolutionError } from "./nameResolver.js";
+import { toolCallDurationSeconds, toolCallsTotal } from "./metrics.js";
+import type { ToolAccess, ToolRateLimiter } from "./rateLimit.js";
+import type { RuleEngine } from "./ruleEngine.js";
+import { comparisonOperators, cooldownRemainingMs, describeRule, validateRuleDefinition, type Comparison, type Rule } from "./rules.js";
+import type { RuleStore } from "./ruleStore.js";
+import type { Scene, SceneStore } from "./sceneStore.js";
+import { scheduleDays, scheduleEventAttributes, scheduleTimePattern } from "./schedules.js";
+import { evaluateVentPolicy, type VentChange, type VentPolicyDecision } from "./ventPolicy.js";
+import type { JournalChange, JournalEntry, WriteJournal } from "./writeJournal.js";
 
 const id = z.string().min(1).max(128);
 const resourceType = z.string().min(1).max(64);
+// Only honored for API keys listed in VENT_POLICY_OVERRIDE_KEYS.
+const overridePolicy = z.boolean().optional().default(false);
+// One-time token from a `confirmation_required` response; see WRITE_CONFIRMATION_ENABLED.
+const confirmationToken = z.string().min(1).max(128).optional();
+// Resolved to the matching `*_id` before the handler runs; an ID passed alongside wins.
+const resourceName = z.string().min(1).max(96).optional();
 
 const listResourcesSchema = {
   resource_type: resourceType,
@@ -32,16 +65,20 @@ const getRelatedSchema = {
 };
 
 const listRoomsSchema = {
-  structure_id: id.optional()
+  structure_id: id.optional(),
+  structure_name: resourceName
 };
 
 const listVentsSchema = {
-  room_id: id.optional()
+  room_id: id.optional(),
+  room_name: resourceName
 };
 
 const listDevicesSchema = {
   structure_id: id.optional(),
+  structure_name: resourceName,
   room_id: id.optional(),
+  room_name: resourceName,
   active_only: z.boolean().optional().default(false),
   page_size: z.number().int().positive().max(500).optional().default(100),
   max_items: z.number().int().positive().max(5000).optional().default(200),
@@ -51,7 +88,9 @@ const listDevicesSchema = {
 const namedDeviceType = z.enum(["vents", "pucks", "puck2s", "thermostats", "remote-sensors", "devices"]);
 const listNamedDevicesSchema = {
   structure_id: id.optional(),
+  structure_name: resourceName,
   room_id: id.optional(),
+  room_name: resourceName,
   resource_types: z.array(namedDeviceType).optional(),
   page_size: z.number().int().positive().max(500).optional().default(100),
   max_items_per_type: z.number().int().positive().max(5000).optional().default(200),
@@ -60,15 +99,35 @@ const listNamedDevicesSchema = {
 
 const listRoomTemperaturesSchema = {
   structure_id: id.optional(),
+  structure_name: resourceName,
   room_id: id.optional(),
+  room_name: resourceName,
   page_size: z.number().int().positive().max(500).optional().default(200),
   max_stat_pages: z.number().int().positive().max(30).optional().default(10),
   include_rooms_without_stats: z.boolean().optional().default(false)
 };
 
+const getRoomTemperatureHistorySchema = {
+  structure_id: id.optional(),
+  structure_name: resourceName,
+  room_id: id.optional(),
+  room_name: resourceName,
+  // Window length ending at `until` (or now); ignored when `since` is given.
+  hours: z.number().positive().max(168).optional().default(12),
+  since: z.string().datetime({ offset: true }).optional(),
+  until: z.string().datetime({ offset: true }).optional(),
+  bucket_minutes: z.number().int().min(5).max(1440).optional().default(30),
+  stable_threshold_c_per_hour: z.number().min(0).max(5).optional().default(0.2),
+  include_points: z.boolean().optional().default(false),
+  page_size: z.number().int().positive().max(500).optional().default(200),
+  max_stat_pages: z.number().int().positive().max(100).optional().default(20)
+};
+
 const listDeviceRoomTemperaturesSchema = {
   structure_id: id.optional(),
+  structure_name: resourceName,
   room_id: id.optional(),
+  room_name: resourceName,
   resource_types: z.array(namedDeviceType).optional(),
   page_size: z.number().int().positive().max(500).optional().default(200),
   max_items_per_type: z.number().int().positive().max(5000).optional().default(200),
@@ -78,7 +137,9 @@ const listDeviceRoomTemperaturesSchema = {
 
 const listVentsWithRoomTemperaturesSchema = {
   structure_id: id.optional(),
+  structure_name: resourceName,
   room_id: id.optional(),
+  room_name: resourceName,
   page_size: z.number().int().positive().max(500).optional().default(200),
   max_items: z.number().int().positive().max(5000).optional().default(500),
   max_stat_pages: z.number().int().positive().max(30).optional().default(10),
@@ -88,7 +149,9 @@ const listVentsWithRoomTemperaturesSchema = {
 
 const listOpenVentsInColdRoomsSchema = {
   structure_id: id.optional(),
+  structure_name: resourceName,
   room_id: id.optional(),
+  room_name: resourceName,
   below_temp_c: z.number().optional(),
   below_temp_f: z.number().optional(),
   min_percent_open: z.number().min(0).max(100).optional().default(1),
@@ -100,7 +163,9 @@ const listOpenVentsInColdRoomsSchema = {
 
 const listVentsByRoomTemperatureSchema = {
   structure_id: id.optional(),
+  structure_name: resourceName,
   room_id: id.optional(),
+  room_name: resourceName,
   temperature_operator: z.enum(["lt", "lte", "gt", "gte", "between"]).optional().default("lt"),
   threshold_temp_c: z.number().optional(),
   threshold_temp_f: z.number().optional(),
@@ -122,37 +187,1085 @@ const updateResourceSchema = {
   resource_type: resourceType,
   resource_id: id,
   attributes: z.record(z.unknown()),
-  dry_run: z.boolean().optional().default(false)
+  dry_run: z.boolean().optional().default(false),
+  override_policy: overridePolicy,
+  confirmation_token: confirmationToken
 };
 
 const createResourceSchema = {
   resource_type: resourceType,
   attributes: z.record(z.unknown()),
   relationships: z.record(z.unknown()).optional(),
-  dry_run: z.boolean().optional().default(false)
+  dry_run: z.boolean().optional().default(false),
+  override_policy: overridePolicy,
+  confirmation_token: confirmationToken
 };
 
 const setVentPercentOpenSchema = {
-  vent_id: id,
+  vent_id: id.optional(),
+  vent_name: resourceName,
   percent_open: z.number().int().min(0).max(100),
-  dry_run: z.boolean().optional().default(false)
+  dry_run: z.boolean().optional().default(false),
+  override_policy: overridePolicy,
+  confirmation_token: confirmationToken
 };
 
 const setVentPercentOpenAndVerifySchema = {
-  vent_id: id,
+  vent_id: id.optional(),
+  vent_name: resourceName,
+  percent_open: z.number().int().min(0).max(100),
+  attempts: z.number().int().min(1).max(10).optional().default(4),
+  initial_delay_ms: z.number().int().min(0).max(10000).optional().default(800),
+  backoff_multiplier: z.number().min(1).max(4).optional().default(1.8),
+  override_policy: overridePolicy,
+  confirmation_token: confirmationToken
+};
+
+const getStructureStatusSchema = {
+  structure_id: id.optional(),
+  structure_name: resourceName
+};
+
+const setVentsPercentOpenSchema = {
+  vent_ids: z.array(id).min(1).max(100).optional(),
+  structure_id: id.optional(),
+  structure_name: resourceName,
+  room_id: id.optional(),
+  room_name: resourceName,
+  name_pattern: z.string().min(1).max(64).optional(),
   percent_open: z.number().int().min(0).max(100),
+  concurrency: z.number().int().min(1).max(10).optional().default(4),
+  dry_run: z.boolean().optional().default(false),
+  verify: z.boolean().optional().default(true),
+  attempts: z.number().int().min(1).max(10).optional().default(4),
+  initial_delay_ms: z.number().int().min(0).max(10000).optional().default(800),
+  backoff_multiplier: z.number().min(1).max(4).optional().default(1.8),
+  override_policy: overridePolicy,
+  confirmation_token: confirmationToken
+};
+
+// Read-back verification knobs shared by attribute-writing tools.
+const verifyWriteSchema = {
+  dry_run: z.boolean().optional().default(false),
+  verify: z.boolean().optional().default(true),
+  attempts: z.number().int().min(1).max(10).optional().default(3),
+  initial_delay_ms: z.number().int().min(0).max(10000).optional().default(500),
+  backoff_multiplier: z.number().min(1).max(4).optional().default(1.8),
+  confirmation_token: confirmationToken
+};
+
+const setRoomSetpointSchema = {
+  room_id: id.optional(),
+  room_name: resourceName,
+  set_point_c: z.number().min(5).max(35).optional(),
+  set_point_f: z.number().min(41).max(95).optional(),
+  ...verifyWriteSchema
+};
+
+const setRoomActiveSchema = {
+  room_id: id.optional(),
+  room_name: resourceName,
+  active: z.boolean(),
+  ...verifyWriteSchema
+};
+
+const setRoomHoldSchema = {
+  room_id: id.optional(),
+  room_name: resourceName,
+  hold_until: z.string().datetime({ offset: true }).optional(),
+  hold_minutes: z.number().int().min(1).max(10080).optional(),
+  clear: z.boolean().optional().default(false),
+  ...verifyWriteSchema
+};
+
+const setStructureModeSchema = {
+  structure_id: id.optional(),
+  structure_name: resourceName,
+  mode: z.enum(["auto", "manual"]),
+  ...verifyWriteSchema
+};
+
+const setStructureHomeAwaySchema = {
+  structure_id: id.optional(),
+  structure_name: resourceName,
+  home: z.boolean(),
+  ...verifyWriteSchema
+};
+
+const setStructureSetpointSchema = {
+  structure_id: id.optional(),
+  structure_name: resourceName,
+  set_point_c: z.number().min(5).max(35).optional(),
+  set_point_f: z.number().min(41).max(95).optional(),
+  ...verifyWriteSchema
+};
+
+const listThermostatsSchema = {
+  structure_id: id.optional(),
+  structure_name: resourceName,
+  room_id: id.optional(),
+  room_name: resourceName
+};
+
+const listHvacUnitsSchema = listThermostatsSchema;
+
+const hvacUnitTarget = {
+  hvac_unit_id: id.optional(),
+  hvac_unit_name: resourceName
+};
+
+const setHvacUnitPowerSchema = {
+  ...hvacUnitTarget,
+  power: z.enum(["on", "off"]),
+  ...verifyWriteSchema
+};
+
+const setHvacUnitModeSchema = {
+  ...hvacUnitTarget,
+  mode: z.enum(["cool", "heat", "auto", "dry", "fan"]),
+  ...verifyWriteSchema
+};
+
+const setHvacUnitFanSpeedSchema = {
+  ...hvacUnitTarget,
+  fan_speed: z.enum(["auto", "low", "medium", "high"]),
+  ...verifyWriteSchema
+};
+
+const setHvacUnitSetpointSchema = {
+  ...hvacUnitTarget,
+  set_point_c: z.number().min(10).max(32).optional(),
+  set_point_f: z.number().min(50).max(90).optional(),
+  ...verifyWriteSchema
+};
+
+const listSchedulesSchema = {
+  structure_id: id.optional(),
+  structure_name: resourceName
+};
+
+const createScheduleSchema = {
+  structure_id: id.optional(),
+  structure_name: resourceName,
+  name: z.string().min(1).max(64),
+  dry_run: z.boolean().optional().default(false),
+  confirmation_token: confirmationToken
+};
+
+const scheduleEventFields = {
+  days: z.array(z.enum(scheduleDays)).min(1).max(7).optional(),
+  time: z.string().regex(scheduleTimePattern, "Use 24-hour HH:MM").optional(),
+  // Structure-wide set point; rooms in room_set_points get their own.
+  set_point_c: z.number().min(5).max(35).optional(),
+  set_point_f: z.number().min(41).max(95).optional(),
+  room_set_points: z
+    .array(
+      z.object({
+        room_id: id.optional(),
+        room_name: resourceName,
+        set_point_c: z.number().min(5).max(35).optional(),
+        set_point_f: z.number().min(41).max(95).optional()
+      })
+    )
+    .max(50)
+    .optional(),
+  home: z.boolean().optional()
+};
+
+const createScheduleEventSchema = {
+  schedule_id: id,
+  ...scheduleEventFields,
+  dry_run: z.boolean().optional().default(false),
+  confirmation_token: confirmationToken
+};
+
+const updateScheduleEventSchema = {
+  event_id: id,
+  ...scheduleEventFields,
+  ...verifyWriteSchema
+};
+
+const activateScheduleSchema = {
+  schedule_id: id.optional(),
+  structure_id: id.optional(),
+  structure_name: resourceName,
+  clear: z.boolean().optional().default(false),
+  ...verifyWriteSchema
+};
+
+const sceneName = z.string().min(1).max(64);
+
+const sceneNameSchema = {
+  name: sceneName
+};
+
+const saveSceneSchema = {
+  name: sceneName,
+  description: z.string().max(200).optional(),
+  structure_id: id.optional(),
+  structure_name: resourceName,
+  vents: z
+    .array(z.object({ vent_id: id.optional(), vent_name: resourceName, percent_open: z.number().int().min(0).max(100) }))
+    .max(200)
+    .optional()
+    .default([]),
+  rooms: z
+    .array(
+      z.object({
+        room_id: id.optional(),
+        room_name: resourceName,
+        set_point_c: z.number().min(5).max(35).optional(),
+        set_point_f: z.number().min(41).max(95).optional()
+      })
+    )
+    .max(100)
+    .optional()
+    .default([]),
+  overwrite: z.boolean().optional().default(false)
+};
+
+const saveSceneFromCurrentStateSchema = {
+  name: sceneName,
+  description: z.string().max(200).optional(),
+  structure_id: id.optional(),
+  structure_name: resourceName,
+  room_id: id.optional(),
+  room_name: resourceName,
+  include_room_setpoints: z.boolean().optional().default(true),
+  overwrite: z.boolean().optional().default(false)
+};
+
+const applySceneSchema = {
+  name: sceneName,
+  dry_run: z.boolean().optional().default(false),
+  concurrency: z.number().int().min(1).max(10).optional().default(4),
+  verify: z.boolean().optional().default(true),
   attempts: z.number().int().min(1).max(10).optional().default(4),
   initial_delay_ms: z.number().int().min(0).max(10000).optional().default(800),
-  backoff_multiplier: z.number().min(1).max(4).optional().default(1.8)
+  backoff_multiplier: z.number().min(1).max(4).optional().default(1.8),
+  override_policy: overridePolicy,
+  confirmation_token: confirmationToken
+};
+
+// Temperatures default to Celsius; `unit: "f"` converts the values before the rule is stored.
+const comparisonSchema = z.object({
+  operator: z.enum(comparisonOperators),
+  value: z.number().optional(),
+  min: z.number().optional(),
+  max: z.number().optional()
+});
+
+const addRuleSchema = {
+  name: z.string().min(1).max(64),
+  structure_id: id.optional(),
+  structure_name: resourceName,
+  room_id: id.optional(),
+  room_name: resourceName,
+  vent_id: id.optional(),
+  vent_name: resourceName,
+  room_temperature: comparisonSchema.extend({ unit: z.enum(["c", "f"]).optional().default("c") }).optional(),
+  room_humidity: comparisonSchema.optional(),
+  vent_percent_open: comparisonSchema.optional(),
+  time_of_day: z
+    .object({
+      start: z.string().regex(scheduleTimePattern, "Use 24-hour HH:MM"),
+      end: z.string().regex(scheduleTimePattern, "Use 24-hour HH:MM"),
+      days: z.array(z.enum(scheduleDays)).min(1).max(7).optional()
+    })
+    .optional(),
+  action: z.enum(["set_vent_percent_open", "set_room_setpoint"]),
+  percent_open: z.number().int().min(0).max(100).optional(),
+  set_point_c: z.number().min(5).max(35).optional(),
+  set_point_f: z.number().min(41).max(95).optional(),
+  cooldown_minutes: z.number().int().min(1).max(1440).optional().default(30),
+  dry_run: z.boolean().optional().default(false),
+  enabled: z.boolean().optional().default(true),
+  confirmation_token: confirmationToken
+};
+
+const ruleRefSchema = {
+  rule_id: id.optional(),
+  rule_name: z.string().min(1).max(64).optional()
+};
+
+const enableRuleSchema = {
+  ...ruleRefSchema,
+  // Switch the rule between recording firings only and writing.
+  dry_run: z.boolean().optional(),
+  confirmation_token: confirmationToken
+};
+
+const listRuleFiringsSchema = {
+  ...ruleRefSchema,
+  limit: z.number().int().min(1).max(100).optional().default(20)
+};
+
+const listRecentChangesSchema = {
+  limit: z.number().int().min(1).max(100).optional().default(20),
+  resource_type: resourceType.optional(),
+  resource_id: id.optional()
 };
 
-export function createFlairMcpServer(flairApi: FlairApiClient) {
+const undoChangeSchema = {
+  change_id: id,
+  dry_run: z.boolean().optional().default(false),
+  // Restore even when the resource no longer holds the values the change wrote.
+  force: z.boolean().optional().default(false),
+  override_policy: overridePolicy,
+  confirmation_token: confirmationToken
+};
+
+const deviceHealthReportSchema = {
+  structure_id: id.optional(),
+  structure_name: resourceName,
+  room_id: id.optional(),
+  room_name: resourceName,
+  resource_types: z.array(namedDeviceType).optional(),
+  // Override the DEVICE_HEALTH_* defaults for this call.
+  low_battery_voltage: z.number().min(0).max(10).optional(),
+  low_battery_percent: z.number().min(0).max(100).optional(),
+  weak_rssi_dbm: z.number().min(-120).max(0).optional(),
+  stale_minutes: z.number().int().positive().max(525600).optional(),
+  only_issues: z.boolean().optional().default(false),
+  max_items_per_type: z.number().int().positive().max(5000).optional().default(500)
+};
+
+const recommendVentBalanceSchema = {
+  structure_id: id.optional(),
+  structure_name: resourceName,
+  // Per-room targets; other rooms use target_c/target_f, then their own set point, then the structure's.
+  targets: z
+    .array(
+      z.object({
+        room_id: id,
+        target_c: z.number().min(5).max(35).optional(),
+        target_f: z.number().min(41).max(95).optional()
+      })
+    )
+    .max(100)
+    .optional(),
+  target_c: z.number().min(5).max(35).optional(),
+  target_f: z.number().min(41).max(95).optional(),
+  direction: z.enum(["auto", "heating", "cooling"]).optional().default("auto"),
+  deadband_c: z.number().min(0).max(5).optional().default(0.3),
+  full_scale_c: z.number().min(0.5).max(10).optional().default(2),
+  min_percent_open: z.number().int().min(0).max(100).optional().default(0),
+  step_percent: z.number().int().min(1).max(50).optional().default(5),
+  // Send the plan through the bulk vent write path; needs write tools.
+  apply: z.boolean().optional().default(false),
+  concurrency: z.number().int().min(1).max(10).optional().default(4),
+  verify: z.boolean().optional().default(true),
+  attempts: z.number().int().min(1).max(10).optional().default(4),
+  initial_delay_ms: z.number().int().min(0).max(10000).optional().default(800),
+  backoff_multiplier: z.number().min(1).max(4).optional().default(1.8),
+  override_policy: overridePolicy,
+  confirmation_token: confirmationToken
+};
+
+const queryHistorySchema = {
+  metric: z.enum(["temperature_c", "humidity", "percent_open", "online"]),
+  // Window length ending at `until` (or now); ignored when `since` is given.
+  hours: z.number().positive().max(24 * 3650).optional().default(24),
+  since: z.string().datetime({ offset: true }).optional(),
+  until: z.string().datetime({ offset: true }).optional(),
+  kinds: z.array(z.enum(["room", "vent", "device"])).optional(),
+  // Rooms match themselves and every vent/device in them.
+  room_ids: z.array(id).max(200).optional(),
+  vent_ids: z.array(id).max(200).optional(),
+  bucket_minutes: z.number().int().min(1).max(10080).optional(),
+  aggregation: z.enum(["avg", "min", "max", "last", "count"]).optional().default("avg"),
+  max_points: z.number().int().positive().max(5000).optional().default(500)
+};
+
+const resolveNameSchema = {
+  name: z.string().min(1).max(96),
+  resource_types: z
+    .array(z.enum(["structures", "rooms", "vents", "pucks", "puck2s", "thermostats", "hvac-units", "remote-sensors"]))
+    .min(1)
+    .optional(),
+  structure_id: id.optional(),
+  room_id: id.optional(),
+  limit: z.number().int().min(1).max(20).optional().default(5)
+};
+
+const getAuditLogSchema = {
+  since: z.string().datetime({ offset: true }).optional(),
+  until: z.string().datetime({ offset: true }).optional(),
+  tool: z.string().min(1).max(96).optional(),
+  session_id: z.string().min(1).max(128).optional(),
+  outcome: z.enum(["ok", "error", "rate_limited"]).optional(),
+  limit: z.number().int().min(1).max(500).optional().default(50)
+};
+
+type ScheduleEventInput = {
+  days?: Array<(typeof scheduleDays)[number]>;
+  time?: string;
+  set_point_c?: number;
+  set_point_f?: number;
+  room_set_points?: Array<{ room_id?: string; room_name?: string; set_point_c?: number; set_point_f?: number }>;
+  home?: boolean;
+};
+
+type VerifyWriteInput = {
+  dry_run?: boolean;
+  verify?: boolean;
+  attempts?: number;
+  initial_delay_ms?: number;
+  backoff_multiplier?: number;
+  confirmation_token?: string;
+};
+
+// The bodies the write tools send, shared by their dry-run echoes and confirmation prompts.
+const ventStatePayload = (ventId: string, percentOpen: number) => ({
+  type: "vent-states",
+  attributes: { "percent-open": percentOpen },
+  relationships: { vent: { data: { type: "vents", id: ventId } } }
+});
+
+const patchPayload = (resourceType: string, resourceId: string, attributes: Record<string, unknown>) => ({
+  data: { type: resourceType, id: resourceId, attributes }
+});
+
+const describeAttributes = (attributes: Record<string, unknown>) =>
+  Object.entries(attributes)
+    .map(([key, value]) => `${key} = ${JSON.stringify(value)}`)
+    .join(", ");
+
+// Sorted keys, so a repeated call matches its confirmation token whatever order the client sends.
+const stableStringify = (value: unknown): string => {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(",")}]`;
+  if (value && typeof value === "object") {
+    const record = value as Record<string, unknown>;
+    return `{${Object.keys(record)
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${stableStringify(record[key])}`)
+      .join(",")}}`;
+  }
+  return JSON.stringify(value) ?? "null";
+};
+
+// What a write is about to change. An empty `resourceId` marks a create; it is filled from the response.
+type JournalTarget = Omit<JournalChange, "before">;
+
+const ventTarget = (ventId: string, percentOpen: number): JournalTarget => ({
+  kind: "vent_percent_open",
+  resourceType: "vents",
+  resourceId: ventId,
+  after: { "percent-open": percentOpen }
+});
+
+export type FlairMcpServerOptions = {
+  // Narrows `config.writeToolsEnabled` per session, e.g. for read-scoped API keys.
+  writeToolsEnabled?: boolean;
+  // Shared across sessions so per-client budgets hold when one client opens many sessions.
+  rateLimiter?: ToolRateLimiter;
+  // API key label or remote address; the per-client rate-limit key.
+  clientKey?: string;
+  // Whether `override_policy` may bypass vent safety policy refusals in this session.
+  ventPolicyOverride?: boolean;
+  // Shared across sessions so `undo_change` can reverse writes made from any session.
+  journal?: WriteJournal;
+  // Shared across sessions; every tool call in this session is appended to it.
+  auditLog?: AuditLog;
+  // Shared across sessions; backs the scene tools.
+  sceneStore?: SceneStore;
+  // Shared across sessions; backs the rule tools. The engine is only reported on.
+  ruleStore?: RuleStore;
+  ruleEngine?: RuleEngine;
+  // Backs `query_history`; the recorder is only reported on.
+  historyStore?: HistoryStore;
+  historyRecorder?: HistoryRecorder;
+};
+
+type ToolExtra = Parameters<ToolCallback<ZodRawShape>>[1];
+type ToolResult = Awaited<ReturnType<ToolCallback<ZodRawShape>>>;
+
+// Structured tool errors (rate limits, policy refusals) carry `message`/`error` in their JSON body.
+const resultErrorMessage = (result: ToolResult) => {
+  const first = result.content?.[0];
+  if (first?.type !== "text") return undefined;
+  try {
+    const body = JSON.parse(first.text) as { message?: unknown; error?: unknown };
+    return String(body.message ?? body.error ?? "");
+  } catch {
+    return first.text.slice(0, 500);
+  }
+};
+
+const rateLimitedOutput = (toolName: string, access: ToolAccess, retryAfterMs: number, limitedBy: string) => ({
+  ...toJsonOutput({
+    error: "rate_limited",
+    message: `Rate limit exceeded for ${access} tools (${limitedBy} budget). Retry after ${Math.ceil(retryAfterMs / 1000)}s.`,
+    tool: toolName,
+    access,
+    limitedBy,
+    retryAfterMs,
+    retryAfterSec: Math.ceil(retryAfterMs / 1000)
+  }),
+  isError: true
+});
+
+const ventPolicyRefusal = (
+  toolName: string,
+  decision: VentPolicyDecision,
+  overrideRequested: boolean,
+  overrideAllowed: boolean
+) => ({
+  ...toJsonOutput({
+    error: "vent_policy_violation",
+    message: `Refused by vent safety policy: ${decision.violations.map((violation) => violation.message).join("; ")}`,
+    tool: toolName,
+    violations: decision.violations,
+    overrideAllowed,
+    ...(overrideRequested && !overrideAllowed ? { overrideRejected: "This client is not authorized to override the vent policy" } : {})
+  }),
+  isError: true
+});
+
+const writeNotConfirmedOutput = (toolName: string, action: string) => ({
+  ...toJsonOutput({
+    error: "write_not_confirmed",
+    message: `The user did not approve ${toolName} (${action}); nothing was changed`,
+    tool: toolName,
+    action
+  }),
+  isError: true
+});
+
+const nameResolutionOutput = (err: NameResolutionError) => ({
+  ...toJsonOutput({
+    error: err.resolution.status === "ambiguous" ? "ambiguous_name" : "name_not_found",
+    message: err.message,
+    resource_type: err.resourceType,
+    query: err.resolution.query,
+    candidates: err.resolution.candidates
+  }),
+  isError: true
+});
+
+// `*_name` arguments in resolution order, so a structure scopes its rooms and a room its vents.
+const namedArguments = [
+  ["structure_name", "structure_id", "structures"],
+  ["room_name", "room_id", "rooms"],
+  ["vent_name", "vent_id", "vents"],
+  ["hvac_unit_name", "hvac_unit_id", "hvac-units"]
+] as const;
+
+// Tools whose `*_id` became optional to allow a `*_name` still need one of the two.
+const requiredId = (value: string | undefined, field: "room" | "vent" | "hvac_unit") => {
+  if (!value) {
+    throw new Error(`Provide ${field}_id or ${field}_name`);
+  }
+  return value;
+};
+
+type UndoConflict = {
+  resourceType: string;
+  resourceId: string;
+  expected: Record<string, unknown>;
+  actual: Record<string, unknown> | null;
+};
+
+const undoConflictOutput = (changeId: string, conflicts: UndoConflict[]) => ({
+  ...toJsonOutput({
+    error: "undo_conflict",
+    message: `Change ${changeId} has been overwritten since it was made; pass force=true to restore it anyway`,
+    changeId,
+    conflicts
+  }),
+  isError: true
+});
+
+// Vent writes hidden inside the generic tools: PATCH vents percent-open or POST vent-states.
+// Any percent-open value present is checked, so a numeric string cannot slip past the policy.
+const requestedPercentOpen = (attributes: Record<string, unknown>) => {
+  if (!("percent-open" in attributes)) return undefined;
+  const percentOpen = toNumber(attributes["percent-open"]);
+  if (percentOpen === undefined) throw new Error("percent-open must be a number from 0 to 100");
+  return percentOpen;
+};
+
+const ventChangesFromUpdate = (resourceType: string, resourceId: string, attributes: Record<string, unknown>): VentChange[] => {
+  const percentOpen = resourceType === "vents" ? requestedPercentOpen(attributes) : undefined;
+  return percentOpen === undefined ? [] : [{ ventId: resourceId, percentOpen }];
+};
+
+const ventChangesFromCreate = (
+  resourceType: string,
+  attributes: Record<string, unknown>,
+  relationships?: Record<string, unknown>
+): VentChange[] => {
+  const vent = (relationships?.vent as { data?: { id?: unknown } } | undefined)?.data;
+  const percentOpen = resourceType === "vent-states" ? requestedPercentOpen(attributes) : undefined;
+  return percentOpen !== undefined && typeof vent?.id === "string" ? [{ ventId: vent.id, percentOpen }] : [];
+};
+
+export function createFlairMcpServer(flairApi: FlairApiClient, options?: FlairMcpServerOptions) {
+  const writeToolsEnabled = config.writeToolsEnabled && (options?.writeToolsEnabled ?? true);
   const server = new McpServer({
     name: "Flair MCP",
     version: "0.1.0"
   });
 
-  server.tool("health_check", {}, async () => {
+  const registerTool = <Shape extends ZodRawShape>(
+    name: string,
+    access: ToolAccess,
+    schema: Shape,
+    handler: ToolCallback<Shape>
+  ) => {
+    const run = handler as unknown as (input: unknown, extra: ToolExtra) => Promise<ToolResult>;
+    const named = namedArguments.filter(([nameKey]) => nameKey in schema);
+    const wrapped = async (input: unknown, extra: ToolExtra): Promise<ToolResult> => {
+      const endTimer = toolCallDurationSeconds.startTimer({ tool: name });
+      const startedAt = Date.now();
+      let upstream: UpstreamWrite[] = [];
+      const record = (outcome: "ok" | "error" | "rate_limited", error?: string) => {
+        toolCallsTotal.inc({ tool: name, outcome });
+        endTimer({ outcome });
+        void options?.auditLog?.append({
+          at: new Date(startedAt).toISOString(),
+          sessionId: extra.sessionId,
+          client: options.clientKey,
+          tool: name,
+          access,
+          arguments: redactSensitive(input ?? {}),
+          dryRun: (input as { dry_run?: unknown } | undefined)?.dry_run === true,
+          outcome,
+          ...(error ? { error } : {}),
+          durationMs: Date.now() - startedAt,
+          upstream
+        });
+      };
+
+      if (options?.rateLimiter) {
+        const decision = options.rateLimiter.consume({ sessionId: extra.sessionId, clientKey: options.clientKey }, access);
+        if (!decision.ok) {
+          const limited = rateLimitedOutput(name, access, decision.retryAfterMs, decision.limitedBy);
+          record("rate_limited", resultErrorMessage(limited));
+          return limited;
+        }
+      }
+
+      try {
+        const resolved = named.length > 0 ? await resolveNamedArguments(named, input as Record<string, unknown>) : input;
+        const captured = captureUpstreamWrites(() => run(resolved, extra));
+        upstream = captured.writes;
+        const result = await captured.result;
+        record(result.isError ? "error" : "ok", result.isError ? resultErrorMessage(result) : undefined);
+        return result;
+      } catch (err) {
+        if (err instanceof NameResolutionError) {
+          const output = nameResolutionOutput(err);
+          record("error", err.message);
+          return output;
+        }
+        record("error", err instanceof Error ? err.message : String(err));
+        throw err;
+      }
+    };
+    return server.tool(name, schema, wrapped as unknown as ToolCallback<Shape>);
+  };
+
+  const resolveNamedArguments = async (named: Array<(typeof namedArguments)[number]>, input: Record<string, unknown>) => {
+    const resolved = { ...input };
+    for (const [nameKey, idKey, resourceType] of named) {
+      const query = resolved[nameKey];
+      if (typeof query !== "string" || resolved[idKey] !== undefined) continue;
+      resolved[idKey] = await flairApi.resolveNamedId(resourceType, query, {
+        structureId: resolved.structure_id as string | undefined,
+        roomId: resolved.room_id as string | undefined
+      });
+    }
+    return resolved;
+  };
+
+  const ventPolicyOverrideAllowed = options?.ventPolicyOverride ?? false;
+
+  // null when the policy is off or none of `changes` touch a vent.
+  const checkVentPolicy = async (changes: VentChange[]) => {
+    if (!config.ventPolicy.enabled || changes.length === 0) return null;
+    const [vents, rooms] = await Promise.all([flairApi.describeVents(), flairApi.describeRooms()]);
+    return evaluateVentPolicy(config.ventPolicy, changes, vents, rooms);
+  };
+
+  // Every vent write path calls this first; a returned value is the refusal to send back.
+  const enforceVentPolicy = async (toolName: string, changes: VentChange[], overrideRequested = false) => {
+    const decision = await checkVentPolicy(changes);
+    if (!decision || decision.allowed) return undefined;
+    if (overrideRequested && ventPolicyOverrideAllowed) {
+      logger.warn({ tool: toolName, clientKey: options?.clientKey, violations: decision.violations }, "Vent policy overridden");
+      return undefined;
+    }
+    return ventPolicyRefusal(toolName, decision, overrideRequested, ventPolicyOverrideAllowed);
+  };
+
+  const policyPreview = async (changes: VentChange[]) => {
+    const decision = await checkVentPolicy(changes);
+    return decision ? { policy: decision } : {};
+  };
+
+  // Outstanding confirmation tokens for this session, keyed by token.
+  const confirmationTokens = new Map<string, { tool: string; argsKey: string; payloadKey: string; expiresAtMs: number }>();
+
+  // Names make confirmation prompts readable; reads are cached, and IDs are the fallback.
+  const resourceLabel = async (resourceType: string, resourceId: string) => {
+    try {
+      const items =
+        resourceType === "vents"
+          ? await flairApi.describeVents()
+          : resourceType === "rooms"
+            ? await flairApi.describeRooms()
+            : resourceType === "structures"
+              ? await flairApi.describeStructures()
+              : resourceType === "hvac-units"
+                ? (await flairApi.describeHvacUnits()).hvac_units
+                : [];
+      const name = items.find((item) => item.id === resourceId)?.name;
+      return name ? `"${name}" (${resourceType}/${resourceId})` : `${resourceType}/${resourceId}`;
+    } catch {
+      return `${resourceType}/${resourceId}`;
+    }
+  };
+
+  /**
+   * Server-side approval for a write that passed every other check. Clients that support form
+   * elicitation show the user `summary` and the exact payload; the rest get a one-time token
+   * bound to this tool, these arguments and this payload to repeat the call with. Tools that
+   * re-plan on every call (vent balancing, scenes) may build a different payload on the confirming
+   * call; that gets a fresh token for the new plan instead of a write. Returns the tool result to
+   * send instead of writing, or undefined to go ahead.
+   */
+  const confirmWrite = async (
+    tool: string,
+    input: Record<string, unknown>,
+    summary: string,
+    payload: unknown,
+    extra: ToolExtra
+  ) => {
+    if (!config.writeConfirmation.enabled) return undefined;
+    const { confirmation_token: token, ...args } = input;
+
+    if (server.server.getClientCapabilities()?.elicitation?.form) {
+      try {
+        const result = await server.server.elicitInput(
+          {
+            message: `${summary}\n\n${toJsonText(payload)}`,
+            requestedSchema: {
+              type: "object",
+              properties: { confirm: { type: "boolean", title: "Apply this change", default: false } },
+              required: ["confirm"]
+            }
+          },
+          { relatedRequestId: extra.requestId }
+        );
+        if (result.action === "accept" && result.content?.confirm === true) return undefined;
+        return writeNotConfirmedOutput(tool, result.action === "accept" ? "not confirmed" : result.action);
+      } catch (err) {
+        logger.warn({ err, tool }, "Write confirmation elicitation failed; falling back to a confirmation token");
+      }
+    }
+
+    const now = Date.now();
+    for (const [key, pending] of confirmationTokens) {
+      if (pending.expiresAtMs <= now) confirmationTokens.delete(key);
+    }
+    const argsKey = stableStringify(args);
+    const payloadKey = crypto.createHash("sha256").update(stableStringify(payload)).digest("hex");
+    let planChanged = false;
+    if (typeof token === "string") {
+      const pending = confirmationTokens.get(token);
+      if (pending?.tool !== tool || pending.argsKey !== argsKey) {
+        return {
+          ...toJsonOutput({
+            error: "invalid_confirmation_token",
+            message: "confirmation_token is unknown, expired or was issued for different arguments; call again without it for a new one",
+            tool
+          }),
+          isError: true
+        };
+      }
+      confirmationTokens.delete(token);
+      if (pending.payloadKey === payloadKey) return undefined;
+      planChanged = true;
+    }
+
+    const issued = crypto.randomBytes(16).toString("hex");
+    const expiresAtMs = now + config.writeConfirmation.tokenTtlMs;
+    confirmationTokens.set(issued, { tool, argsKey, payloadKey, expiresAtMs });
+    const approval = `Show this to the user; once they approve, call ${tool} again with the same arguments plus confirmation_token.`;
+    return {
+      ...toJsonOutput({
+        error: "confirmation_required",
+        message: planChanged
+          ? `The change differs from the one approved, so nothing was written. ${summary}. ${approval}`
+          : `${summary}. ${approval}`,
+        ...(planChanged ? { planChanged: true } : {}),
+        tool,
+        summary,
+        payload,
+        confirmationToken: issued,
+        expiresAt: new Date(expiresAtMs).toISOString()
+      }),
+      isError: true
+    };
+  };
+
+  const journal = options?.journal;
+
+  // Current values of each target's `after` keys, aligned with `targets`; null for creates and missing resources.
+  const readCurrentValues = async (targets: JournalTarget[]) => {
+    const values: Array<Record<string, unknown> | null> = targets.map(() => null);
+    for (const type of new Set(targets.filter((target) => target.resourceId).map((target) => target.resourceType))) {
+      const indexes = targets.flatMap((target, index) => (target.resourceType === type && target.resourceId ? [index] : []));
+      const ids = Array.from(new Set(indexes.map((index) => targets[index].resourceId)));
+      const keys = Array.from(new Set(indexes.flatMap((index) => Object.keys(targets[index].after))));
+      const current = await flairApi.readCurrentAttributes(type, ids, keys);
+      for (const index of indexes) {
+        const attrs = current.get(targets[index].resourceId);
+        values[index] = attrs ? Object.fromEntries(Object.keys(targets[index].after).map((key) => [key, attrs[key]])) : null;
+      }
+    }
+    return values;
+  };
+
+  /**
+   * Runs `write` and journals it with the values it replaced. A failed read of those values
+   * only makes the entry non-undoable; it never blocks the write. `applied` drops targets the
+   * write itself reported as failed, e.g. bulk vent rows.
+   */
+  const journalWrite = async <T>(
+    tool: string,
+    targets: JournalTarget[],
+    write: () => Promise<T>,
+    extra?: { applied?: (data: T, change: JournalChange) => boolean; undoOf?: string }
+  ): Promise<T & { journalEntryId?: string }> => {
+    if (!journal) return (await write()) as T & { journalEntryId?: string };
+
+    let changes: JournalChange[];
+    try {
+      const before = await readCurrentValues(targets);
+      changes = targets.map((target, index) => ({ ...target, before: before[index] }));
+    } catch (err) {
+      logger.warn({ err, tool }, "Could not read values before write; the change will not be undoable");
+      changes = targets.map((target) => ({ ...target, before: null }));
+    }
+
+    const base = { tool, clientKey: options?.clientKey, ...(extra?.undoOf ? { undoOf: extra.undoOf } : {}) };
+    let data: T;
+    try {
+      data = await write();
+    } catch (err) {
+      await journal.record({ ...base, status: "failed", changes, error: normalizeFlairError(err).message });
+      throw err;
+    }
+
+    const createdId = (data as { data?: { id?: unknown } } | undefined)?.data?.id;
+    changes = changes.map((change) =>
+      change.resourceId || typeof createdId !== "string" ? change : { ...change, resourceId: createdId }
+    );
+    const applied = extra?.applied ? changes.filter((change) => extra.applied!(data, change)) : changes;
+    const entry = await journal.record(
+      applied.length > 0
+        ? { ...base, status: "applied", changes: applied }
+        : { ...base, status: "failed", changes, error: "No changes were applied" }
+    );
+    return { ...data, journalEntryId: entry.id };
+  };
+
+  // Dry-run echo, plain PATCH, or PATCH plus read-back depending on the tool input.
+  const applyAttributes = async (
+    action: string,
+    resourceType: string,
+    resourceId: string,
+    attributes: Record<string, unknown>,
+    input: VerifyWriteInput,
+    extra: ToolExtra
+  ) => {
+    const payload = patchPayload(resourceType, resourceId, attributes);
+    if (input.dry_run) {
+      return toJsonOutput({ dryRun: true, action, payload });
+    }
+
+    const summary = `Update ${await resourceLabel(resourceType, resourceId)}: ${describeAttributes(attributes)}`;
+    const confirmation = await confirmWrite(action, input, summary, payload, extra);
+    if (confirmation) return confirmation;
+
+    const targets: JournalTarget[] = [{ kind: "attributes", resourceType, resourceId, after: attributes }];
+    if (input.verify === false) {
+      return toJsonOutput(
+        await journalWrite(action, targets, () => flairApi.updateResourceAttributes(resourceType, resourceId, attributes))
+      );
+    }
+
+    const result = await journalWrite(action, targets, () =>
+      flairApi.updateResourceAttributesAndVerify(resourceType, resourceId, attributes, {
+        attempts: input.attempts ?? 3,
+        initialDelayMs: input.initial_delay_ms ?? 500,
+        backoffMultiplier: input.backoff_multiplier ?? 1.8
+      })
+    );
+    return toJsonOutput(result);
+  };
+
+  // Dry-run echo, or a confirmed and journaled POST; the created ID is filled into the journal entry.
+  const applyCreate = async (
+    action: string,
+    resourceType: string,
+    attributes: Record<string, unknown>,
+    relationships: Record<string, unknown>,
+    input: { dry_run?: boolean; confirmation_token?: string },
+    extra: ToolExtra
+  ) => {
+    const payload = { data: { type: resourceType, attributes, relationships } };
+    if (input.dry_run) {
+      return toJsonOutput({ dryRun: true, action, payload });
+    }
+
+    const summary = `Create ${resourceType}: ${describeAttributes(attributes)}`;
+    const confirmation = await confirmWrite(action, input, summary, payload, extra);
+    if (confirmation) return confirmation;
+
+    const targets: JournalTarget[] = [{ kind: "attributes", resourceType, resourceId: "", after: attributes }];
+    const data = await journalWrite(action, targets, () => flairApi.createResource(resourceType, attributes, relationships));
+    return toJsonOutput(data);
+  };
+
+  // Room names in `room_set_points` resolve within the schedule's structure.
+  const scheduleEventChange = async (input: ScheduleEventInput, structureId: () => Promise<string>) => {
+    const roomSetPoints = input.room_set_points
+      ? await Promise.all(
+          input.room_set_points.map(async (entry) => {
+            const setPointC = toCelsius(entry.set_point_c, entry.set_point_f);
+            if (typeof setPointC !== "number") {
+              throw new Error("Each room_set_points entry needs set_point_c or set_point_f");
+            }
+            const roomId =
+              entry.room_id ??
+              (entry.room_name
+                ? await flairApi.resolveNamedId("rooms", entry.room_name, { structureId: await structureId() })
+                : undefined);
+            return { roomId: requiredId(roomId, "room"), setPointC };
+          })
+        )
+      : undefined;
+    return {
+      days: input.days,
+      time: input.time,
+      setPointC: toCelsius(input.set_point_c, input.set_point_f),
+      roomSetPoints,
+      home: input.home
+    };
+  };
+
+  const undoChange = async (
+    entry: JournalEntry,
+    input: { dry_run?: boolean; force?: boolean; override_policy?: boolean; confirmation_token?: string },
+    extra: ToolExtra
+  ) => {
+    if (entry.status === "undone") {
+      throw new Error(`Change ${entry.id} was already undone by ${entry.undoneBy ?? "another change"}`);
+    }
+    if (entry.status === "failed") {
+      throw new Error(`Change ${entry.id} failed, so there is nothing to undo`);
+    }
+    if (entry.changes.length === 0 || entry.changes.some((change) => !change.before)) {
+      throw new Error(`Change ${entry.id} cannot be undone: its previous values were not captured`);
+    }
+
+    // Previous values are kept as read upstream, so a percent-open may be a numeric string.
+    const restores: JournalTarget[] = entry.changes.map((change) => {
+      const before = change.before as Record<string, unknown>;
+      const percentOpen = change.resourceType === "vents" ? requestedPercentOpen(before) : undefined;
+      return {
+        kind: change.kind,
+        resourceType: change.resourceType,
+        resourceId: change.resourceId,
+        after: percentOpen === undefined ? before : { ...before, "percent-open": percentOpen }
+      };
+    });
+    const current = await readCurrentValues(entry.changes);
+    const conflicts: UndoConflict[] = entry.changes.flatMap((change, index) => {
+      const actual = current[index];
+      const unchanged = !!actual && Object.entries(change.after).every(([key, value]) => attributeMatches(value, actual[key]));
+      return unchanged ? [] : [{ resourceType: change.resourceType, resourceId: change.resourceId, expected: change.after, actual }];
+    });
+    const ventChanges: VentChange[] = restores.flatMap((restore) =>
+      ventChangesFromUpdate(restore.resourceType, restore.resourceId, restore.after)
+    );
+
+    if (input.dry_run) {
+      return toJsonOutput({
+        dryRun: true,
+        action: "undo_change",
+        changeId: entry.id,
+        tool: entry.tool,
+        plan: restores.map((restore, index) => ({
+          resource_type: restore.resourceType,
+          resource_id: restore.resourceId,
+          current: current[index],
+          restore_to: restore.after
+        })),
+        conflicts,
+        ...(await policyPreview(ventChanges))
+      });
+    }
+
+    if (conflicts.length > 0 && !input.force) return undoConflictOutput(entry.id, conflicts);
+    const refusal = await enforceVentPolicy("undo_change", ventChanges, input.override_policy);
+    if (refusal) return refusal;
+    const restoreSummaries = await Promise.all(
+      restores.map(async (restore) => `${await resourceLabel(restore.resourceType, restore.resourceId)} to ${describeAttributes(restore.after)}`)
+    );
+    const confirmation = await confirmWrite(
+      "undo_change",
+      input,
+      `Undo ${entry.tool} change ${entry.id}: restore ${restoreSummaries.join("; ")}`,
+      restores.map((restore) =>
+        restore.kind === "vent_percent_open"
+          ? ventStatePayload(restore.resourceId, restore.after["percent-open"] as number)
+          : patchPayload(restore.resourceType, restore.resourceId, restore.after)
+      ),
+      extra
+    );
+    if (confirmation) return confirmation;
+
+    const data = await journalWrite(
+      "undo_change",
+      restores,
+      async () => {
+        const results: Array<{ resource_type: string; resource_id: string; restored: Record<string, unknown>; error?: string }> = [];
+        for (const restore of restores) {
+          const row = { resource_type: restore.resourceType, resource_id: restore.resourceId, restored: restore.after };
+          try {
+            if (restore.kind === "vent_percent_open") {
+              await flairApi.setVentPercentOpen(restore.resourceId, restore.after["percent-open"] as number);
+            } else {
+              await flairApi.updateResourceAttributes(restore.resourceType, restore.resourceId, restore.after);
+            }
+            results.push(row);
+          } catch (err) {
+            results.push({ ...row, error: normalizeFlairError(err).message });
+          }
+        }
+        return { ok: results.every((row) => !row.error), changeId: entry.id, results };
+      },
+      {
+        undoOf: entry.id,
+        applied: (result, change) =>
+          result.results.some(
+            (row) => !row.error && row.resource_type === change.resourceType && row.resource_id === change.resourceId
+          )
+      }
+    );
+
+    // A partial restore leaves the original entry undoable so it can be retried.
+    if (data.ok && data.journalEntryId) {
+      await journal?.update(entry.id, { status: "undone", undoneAt: new Date().toISOString(), undoneBy: data.journalEntryId });
+    }
+    return toJsonOutput(data);
+  };
+
+  registerTool("health_check", "read", {}, async () => {
     try {
       const resourceTypes = await flairApi.listResourceTypes();
       return toJsonOutput({
@@ -169,27 +1282,42 @@ export function createFlairMcpServer(flairApi: FlairApiClient) {
     }
   });
 
-  server.tool("list_resource_types", {}, async () => {
+  registerTool("list_resource_types", "read", {}, async () => {
     const data = await flairApi.listResourceTypes();
     return toJsonOutput(data);
   });
 
-  server.tool("list_structures", {}, async () => {
+  registerTool("resolve_name", "read", resolveNameSchema, async (input) => {
+    const data = await flairApi.resolveName(input.name, {
+      resourceTypes: input.resource_types ?? ["structures", "rooms", "vents"],
+      structureId: input.structure_id,
+      roomId: input.room_id,
+      limit: input.limit
+    });
+    return toJsonOutput(data);
+  });
+
+  registerTool("list_structures", "read", {}, async () => {
     const data = await flairApi.listStructures();
     return toJsonOutput(data);
   });
 
-  server.tool("list_rooms", listRoomsSchema, async (input) => {
+  registerTool("get_structure_status", "read", getStructureStatusSchema, async (input) => {
+    const data = await flairApi.getStructureStatus(input.structure_id);
+    return toJsonOutput(data);
+  });
+
+  registerTool("list_rooms", "read", listRoomsSchema, async (input) => {
     const data = await flairApi.listRooms(input.structure_id);
     return toJsonOutput(data);
   });
 
-  server.tool("list_vents", listVentsSchema, async (input) => {
+  registerTool("list_vents", "read", listVentsSchema, async (input) => {
     const data = await flairApi.listVents(input.room_id);
     return toJsonOutput(data);
   });
 
-  server.tool("list_devices", listDevicesSchema, async (input) => {
+  registerTool("list_devices", "read", listDevicesSchema, async (input) => {
     const data = await flairApi.listDevices({
       structureId: input.structure_id,
       roomId: input.room_id,
@@ -208,7 +1336,7 @@ export function createFlairMcpServer(flairApi: FlairApiClient) {
     return toJsonOutput(data);
   });
 
-  server.tool("list_named_devices", listNamedDevicesSchema, async (input) => {
+  registerTool("list_named_devices", "read", listNamedDevicesSchema, async (input) => {
     const data = await flairApi.listNamedDevices({
       structureId: input.structure_id,
       roomId: input.room_id,
@@ -220,7 +1348,22 @@ export function createFlairMcpServer(flairApi: FlairApiClient) {
     return toJsonOutput(data);
   });
 
-  server.tool("list_room_temperatures", listRoomTemperaturesSchema, async (input) => {
+  registerTool("list_thermostats", "read", listThermostatsSchema, async (input) => {
+    const data = await flairApi.describeThermostats({ structureId: input.structure_id, roomId: input.room_id });
+    return toJsonOutput(data);
+  });
+
+  registerTool("list_hvac_units", "read", listHvacUnitsSchema, async (input) => {
+    const data = await flairApi.describeHvacUnits({ structureId: input.structure_id, roomId: input.room_id });
+    return toJsonOutput(data);
+  });
+
+  registerTool("list_schedules", "read", listSchedulesSchema, async (input) => {
+    const data = await flairApi.describeSchedules(input.structure_id);
+    return toJsonOutput(data);
+  });
+
+  registerTool("list_room_temperatures", "read", listRoomTemperaturesSchema, async (input) => {
     const data = await flairApi.listRoomTemperatures({
       structureId: input.structure_id,
       roomId: input.room_id,
@@ -231,7 +1374,119 @@ export function createFlairMcpServer(flairApi: FlairApiClient) {
     return toJsonOutput(data);
   });
 
-  server.tool("list_device_room_temperatures", listDeviceRoomTemperaturesSchema, async (input) => {
+  registerTool("get_room_temperature_history", "read", getRoomTemperatureHistorySchema, async (input) => {
+    const untilMs = input.until ? Date.parse(input.until) : Date.now();
+    const sinceMs = input.since ? Date.parse(input.since) : untilMs - input.hours * 60 * 60 * 1000;
+    if (sinceMs >= untilMs) {
+      throw new Error("since must be earlier than until");
+    }
+    const data = await flairApi.getRoomTemperatureHistory({
+      structureId: input.structure_id,
+      roomId: input.room_id,
+      sinceMs,
+      untilMs,
+      bucketMinutes: input.bucket_minutes,
+      stableThresholdCPerHour: input.stable_threshold_c_per_hour,
+      includePoints: input.include_points,
+      pageSize: input.page_size,
+      maxStatPages: input.max_stat_pages
+    });
+    return toJsonOutput(data);
+  });
+
+  registerTool("device_health_report", "read", deviceHealthReportSchema, async (input) => {
+    const data = await flairApi.deviceHealthReport({
+      structureId: input.structure_id,
+      roomId: input.room_id,
+      resourceTypes: input.resource_types,
+      thresholds: {
+        lowBatteryVoltage: input.low_battery_voltage ?? config.deviceHealth.lowBatteryVoltage,
+        lowBatteryPercent: input.low_battery_percent ?? config.deviceHealth.lowBatteryPercent,
+        weakRssiDbm: input.weak_rssi_dbm ?? config.deviceHealth.weakRssiDbm,
+        staleMinutes: input.stale_minutes ?? config.deviceHealth.staleMinutes
+      },
+      onlyIssues: input.only_issues,
+      maxItemsPerType: input.max_items_per_type
+    });
+    return toJsonOutput(data);
+  });
+
+  // Counts against the write budget whenever it is able to write.
+  registerTool("recommend_vent_balance", writeToolsEnabled ? "write" : "read", recommendVentBalanceSchema, async (input, extra) => {
+    const targetsByRoom: Record<string, number> = {};
+    for (const target of input.targets ?? []) {
+      const targetC = toCelsius(target.target_c, target.target_f);
+      if (typeof targetC !== "number") {
+        throw new Error(`Provide target_c or target_f for room ${target.room_id}`);
+      }
+      targetsByRoom[target.room_id] = targetC;
+    }
+    const plan = await flairApi.planVentBalance({
+      structureId: input.structure_id,
+      targetsByRoom,
+      targetC: toCelsius(input.target_c, input.target_f),
+      direction: input.direction === "auto" ? undefined : input.direction,
+      tuning: {
+        deadbandC: input.deadband_c,
+        fullScaleC: input.full_scale_c,
+        minPercent: input.min_percent_open,
+        stepPercent: input.step_percent,
+        policy: config.ventPolicy.enabled ? config.ventPolicy : undefined
+      }
+    });
+    const changes = plan.recommendations
+      .filter((row) => row.action !== "hold")
+      .map((row) => ({ ventId: row.vent_id, percentOpen: row.recommended_percent_open }));
+    if (!input.apply) {
+      return toJsonOutput({ ...plan, applied: false, ...(await policyPreview(changes)) });
+    }
+    if (!writeToolsEnabled) {
+      throw new Error("apply requires write tools; enable them or apply the recommendations with set_vents_percent_open");
+    }
+    if (changes.length === 0) {
+      return toJsonOutput({ ...plan, applied: false, message: "Every vent is already where the plan wants it" });
+    }
+
+    const refusal = await enforceVentPolicy("recommend_vent_balance", changes, input.override_policy);
+    if (refusal) return refusal;
+    const byVent = new Map(plan.recommendations.map((row) => [row.vent_id, row]));
+    const confirmation = await confirmWrite(
+      "recommend_vent_balance",
+      input,
+      `Rebalance ${changes.length} vent${changes.length === 1 ? "" : "s"}: ${changes
+        .map((change) => `${byVent.get(change.ventId)?.name ?? change.ventId} ${change.percentOpen}%`)
+        .join(", ")}`,
+      { type: "vent-states", targets: Object.fromEntries(changes.map((change) => [change.ventId, change.percentOpen])) },
+      extra
+    );
+    if (confirmation) return confirmation;
+
+    const result = await journalWrite(
+      "recommend_vent_balance",
+      changes.map((change) => ventTarget(change.ventId, change.percentOpen)),
+      () =>
+        flairApi.setVentsPercentOpen(
+          { ventIds: changes.map((change) => change.ventId) },
+          Object.fromEntries(changes.map((change) => [change.ventId, change.percentOpen])),
+          {
+            concurrency: input.concurrency ?? 4,
+            verify: input.verify
+              ? {
+                  attempts: input.attempts ?? 4,
+                  initialDelayMs: input.initial_delay_ms ?? 800,
+                  backoffMultiplier: input.backoff_multiplier ?? 1.8
+                }
+              : undefined
+          }
+        ),
+      {
+        applied: (data, change) => data.vents.some((row) => row.vent_id === change.resourceId && row.status !== "failed")
+      }
+    );
+    return toJsonOutput({ ...plan, applied: true, result });
+  });
+
+  registerTool("list_device_room_temperatures", "read", listDeviceRoomTemperaturesSchema, async (input) => {
     const data = await flairApi.listDeviceRoomTemperatures({
       structureId: input.structure_id,
       roomId: input.room_id,
@@ -244,7 +1499,7 @@ export function createFlairMcpServer(flairApi: FlairApiClient) {
     return toJsonOutput(data);
   });
 
-  server.tool("list_vents_with_room_temperatures", listVentsWithRoomTemperaturesSchema, async (input) => {
+  registerTool("list_vents_with_room_temperatures", "read", listVentsWithRoomTemperaturesSchema, async (input) => {
     const data = await flairApi.listVentsWithRoomTemperatures({
       structureId: input.structure_id,
       roomId: input.room_id,
@@ -257,7 +1512,7 @@ export function createFlairMcpServer(flairApi: FlairApiClient) {
     return toJsonOutput(data);
   });
 
-  server.tool("list_open_vents_in_cold_rooms", listOpenVentsInColdRoomsSchema, async (input) => {
+  registerTool("list_open_vents_in_cold_rooms", "read", listOpenVentsInColdRoomsSchema, async (input) => {
     if (typeof input.below_temp_c !== "number" && typeof input.below_temp_f !== "number") {
       throw new Error("Provide below_temp_c or below_temp_f");
     }
@@ -276,7 +1531,7 @@ export function createFlairMcpServer(flairApi: FlairApiClient) {
     return toJsonOutput(data);
   });
 
-  server.tool("list_vents_by_room_temperature", listVentsByRoomTemperatureSchema, async (input) => {
+  registerTool("list_vents_by_room_temperature", "read", listVentsByRoomTemperatureSchema, async (input) => {
     const data = await flairApi.listVentsByRoomTemperature({
       structureId: input.structure_id,
       roomId: input.room_id,
@@ -299,7 +1554,7 @@ export function createFlairMcpServer(flairApi: FlairApiClient) {
     return toJsonOutput(data);
   });
 
-  server.tool("list_resources", listResourcesSchema, async (input) => {
+  registerTool("list_resources", "read", listResourcesSchema, async (input) => {
     const data = await flairApi.listResources(input.resource_type, {
       pageNumber: input.page_number,
       pageSize: input.page_size,
@@ -311,12 +1566,12 @@ export function createFlairMcpServer(flairApi: FlairApiClient) {
     return toJsonOutput(data);
   });
 
-  server.tool("get_resource", getResourceSchema, async (input) => {
+  registerTool("get_resource", "read", getResourceSchema, async (input) => {
     const data = await flairApi.getResource(input.resource_type, input.resource_id, input.include);
     return toJsonOutput(data);
   });
 
-  server.tool("get_related_resources", getRelatedSchema, async (input) => {
+  registerTool("get_related_resources", "read", getRelatedSchema, async (input) => {
     const data = await flairApi.getRelatedResources(input.resource_type, input.resource_id, input.relationship, {
       pageNumber: input.page_number,
       pageSize: input.page_size,
@@ -325,81 +1580,667 @@ export function createFlairMcpServer(flairApi: FlairApiClient) {
     return toJsonOutput(data);
   });
 
-  if (config.writeToolsEnabled) {
-    server.tool("update_resource_attributes", updateResourceSchema, async (input) => {
+  if (journal) {
+    registerTool("list_recent_changes", "read", listRecentChangesSchema, async (input) => {
+      const entries = await journal.list({
+        limit: input.limit,
+        resourceType: input.resource_type,
+        resourceId: input.resource_id
+      });
+      return toJsonOutput({ entries, count: entries.length });
+    });
+  }
+
+  if (options?.auditLog) {
+    const auditLog = options.auditLog;
+    registerTool("get_audit_log", "read", getAuditLogSchema, async (input) => {
+      const entries = await auditLog.query({
+        since: input.since,
+        until: input.until,
+        tool: input.tool,
+        sessionId: input.session_id,
+        outcome: input.outcome,
+        limit: input.limit
+      });
+      return toJsonOutput({ entries, count: entries.length });
+    });
+  }
+
+  if (options?.historyStore) {
+    const historyStore = options.historyStore;
+    const historyRecorder = options.historyRecorder;
+    registerTool("query_history", "read", queryHistorySchema, async (input) => {
+      const untilMs = input.until ? Date.parse(input.until) : Date.now();
+      const sinceMs = input.since ? Date.parse(input.since) : untilMs - input.hours * 60 * 60 * 1000;
+      if (sinceMs >= untilMs) {
+        throw new Error("since must be earlier than until");
+      }
+      const result = await historyStore.query({
+        sinceMs,
+        untilMs,
+        metric: input.metric,
+        kinds: input.vent_ids?.length ? ["vent"] : input.kinds,
+        ids: input.vent_ids,
+        roomIds: input.room_ids,
+        bucketMs: input.bucket_minutes ? input.bucket_minutes * 60_000 : undefined,
+        aggregation: input.aggregation,
+        maxPoints: input.max_points
+      });
+      return toJsonOutput({
+        window: {
+          since: new Date(sinceMs).toISOString(),
+          until: new Date(untilMs).toISOString(),
+          ...(input.bucket_minutes ? { bucket_minutes: input.bucket_minutes, aggregation: input.aggregation } : {})
+        },
+        series: result.series,
+        summary: {
+          series_count: result.series.length,
+          samples_scanned: result.samplesScanned
+        },
+        store: await historyStore.getStatus(),
+        ...(historyRecorder ? { recorder: historyRecorder.getStatus() } : {})
+      });
+    });
+  }
+
+  const sceneStore = options?.sceneStore;
+  const getScene = async (name: string) => {
+    const scene = await sceneStore?.get(name);
+    if (!scene) {
+      throw new Error(`Unknown scene "${name}"; list_scenes shows the saved ones`);
+    }
+    return scene;
+  };
+
+  // Vent moves in a scene plan, for the vent policy.
+  const sceneVentChanges = (plan: Awaited<ReturnType<FlairApiClient["planScene"]>>): VentChange[] =>
+    plan.vents.filter((row) => row.changes).map((row) => ({ ventId: row.vent_id, percentOpen: row.target_percent_open }));
+
+  const sceneOverview = (scene: Scene) => ({
+    name: scene.name,
+    description: scene.description,
+    source: scene.source,
+    updatedAt: scene.updatedAt
+  });
+
+  if (sceneStore) {
+    registerTool("list_scenes", "read", {}, async () => {
+      const scenes = await sceneStore.list();
+      return toJsonOutput({ scenes, count: scenes.length });
+    });
+
+    registerTool("preview_scene", "read", sceneNameSchema, async (input) => {
+      const scene = await getScene(input.name);
+      const plan = await flairApi.planScene(scene);
+      return toJsonOutput({ scene: sceneOverview(scene), ...plan, ...(await policyPreview(sceneVentChanges(plan))) });
+    });
+  }
+
+  const ruleStore = options?.ruleStore;
+  const getRule = async (input: { rule_id?: string; rule_name?: string }) => {
+    const ref = input.rule_id ?? input.rule_name;
+    if (!ref) throw new Error("Provide rule_id or rule_name");
+    const rule = await ruleStore?.get(ref);
+    if (!rule) {
+      throw new Error(`Unknown rule "${ref}"; list_rules shows the saved ones`);
+    }
+    return rule;
+  };
+
+  const ruleOverview = (rule: Rule) => ({
+    ...rule,
+    description: describeRule(rule),
+    cooldown_remaining_ms: cooldownRemainingMs(rule, Date.now())
+  });
+
+  if (ruleStore) {
+    registerTool("list_rules", "read", {}, async () => {
+      const rules = await ruleStore.list();
+      return toJsonOutput({
+        rules: rules.map(ruleOverview),
+        count: rules.length,
+        ...(options?.ruleEngine ? { engine: options.ruleEngine.getStatus() } : {})
+      });
+    });
+
+    registerTool("list_rule_firings", "read", listRuleFiringsSchema, async (input) => {
+      const rule = input.rule_id || input.rule_name ? await getRule(input) : undefined;
+      const firings = await ruleStore.listFirings({ limit: input.limit, ruleId: rule?.id });
+      return toJsonOutput({ firings, count: firings.length });
+    });
+  }
+
+  // Resource reads hit the same upstream, so they draw on the read budget too.
+  registerFlairResources(server, flairApi, {
+    subscriptions: config.subscriptions.enabled,
+    beforeRead: (sessionId) => {
+      if (!options?.rateLimiter) return;
+      const decision = options.rateLimiter.consume({ sessionId, clientKey: options.clientKey }, "read");
+      if (!decision.ok) {
+        throw new Error(
+          `Rate limit exceeded for read requests (${decision.limitedBy} budget). Retry after ${Math.ceil(decision.retryAfterMs / 1000)}s.`
+        );
+      }
+    }
+  });
+
+  if (writeToolsEnabled) {
+    registerTool("update_resource_attributes", "write", updateResourceSchema, async (input, extra) => {
+      const ventChanges = ventChangesFromUpdate(input.resource_type, input.resource_id, input.attributes);
+      const payload = patchPayload(input.resource_type, input.resource_id, input.attributes);
       if (input.dry_run) {
         return toJsonOutput({
           dryRun: true,
           action: "update_resource_attributes",
-          payload: {
-            data: {
-              type: input.resource_type,
-              id: input.resource_id,
-              attributes: input.attributes
-            }
-          }
+          payload,
+          ...(await policyPreview(ventChanges))
         });
       }
 
-      const data = await flairApi.updateResourceAttributes(input.resource_type, input.resource_id, input.attributes);
+      const refusal = await enforceVentPolicy("update_resource_attributes", ventChanges, input.override_policy);
+      if (refusal) return refusal;
+      const summary = `Update ${await resourceLabel(input.resource_type, input.resource_id)}: ${describeAttributes(input.attributes)}`;
+      const confirmation = await confirmWrite("update_resource_attributes", input, summary, payload, extra);
+      if (confirmation) return confirmation;
+
+      const data = await journalWrite(
+        "update_resource_attributes",
+        [{ kind: "attributes", resourceType: input.resource_type, resourceId: input.resource_id, after: input.attributes }],
+        () => flairApi.updateResourceAttributes(input.resource_type, input.resource_id, input.attributes)
+      );
       return toJsonOutput(data);
     });
 
-    server.tool("create_resource", createResourceSchema, async (input) => {
+    registerTool("create_resource", "write", createResourceSchema, async (input, extra) => {
+      const ventChanges = ventChangesFromCreate(input.resource_type, input.attributes, input.relationships);
+      const payload = {
+        data: {
+          type: input.resource_type,
+          attributes: input.attributes,
+          ...(input.relationships ? { relationships: input.relationships } : {})
+        }
+      };
       if (input.dry_run) {
         return toJsonOutput({
           dryRun: true,
           action: "create_resource",
-          payload: {
-            data: {
-              type: input.resource_type,
-              attributes: input.attributes,
-              ...(input.relationships ? { relationships: input.relationships } : {})
-            }
-          }
+          payload,
+          ...(await policyPreview(ventChanges))
         });
       }
 
-      const data = await flairApi.createResource(input.resource_type, input.attributes, input.relationships);
+      const refusal = await enforceVentPolicy("create_resource", ventChanges, input.override_policy);
+      if (refusal) return refusal;
+      const summary = `Create ${input.resource_type}: ${describeAttributes(input.attributes)}`;
+      const confirmation = await confirmWrite("create_resource", input, summary, payload, extra);
+      if (confirmation) return confirmation;
+
+      // Vent-states creates are undoable vent moves; other creates are journaled without previous values.
+      const targets: JournalTarget[] =
+        ventChanges.length > 0
+          ? ventChanges.map((change) => ventTarget(change.ventId, change.percentOpen))
+          : [{ kind: "attributes", resourceType: input.resource_type, resourceId: "", after: input.attributes }];
+      const data = await journalWrite("create_resource", targets, () =>
+        flairApi.createResource(input.resource_type, input.attributes, input.relationships)
+      );
       return toJsonOutput(data);
     });
 
-    server.tool("set_vent_percent_open", setVentPercentOpenSchema, async (input) => {
+    registerTool("set_vent_percent_open", "write", setVentPercentOpenSchema, async (input, extra) => {
+      const ventId = requiredId(input.vent_id, "vent");
+      const ventChanges = [{ ventId: ventId, percentOpen: input.percent_open }];
+      const payload = ventStatePayload(ventId, input.percent_open);
       if (input.dry_run) {
         return toJsonOutput({
           dryRun: true,
           action: "set_vent_percent_open",
-          payload: {
-            type: "vent-states",
-            attributes: {
-              "percent-open": input.percent_open
-            },
-            relationships: {
-              vent: {
-                data: {
-                  type: "vents",
-                  id: input.vent_id
-                }
-              }
-            }
-          }
+          payload,
+          ...(await policyPreview(ventChanges))
         });
       }
 
-      const data = await flairApi.setVentPercentOpen(input.vent_id, input.percent_open);
+      const refusal = await enforceVentPolicy("set_vent_percent_open", ventChanges, input.override_policy);
+      if (refusal) return refusal;
+      const summary = `Set vent ${await resourceLabel("vents", ventId)} to ${input.percent_open}% open`;
+      const confirmation = await confirmWrite("set_vent_percent_open", input, summary, payload, extra);
+      if (confirmation) return confirmation;
+
+      const data = await journalWrite("set_vent_percent_open", [ventTarget(ventId, input.percent_open)], () =>
+        flairApi.setVentPercentOpen(ventId, input.percent_open)
+      );
       return toJsonOutput(data);
     });
 
-    server.tool("set_vent_percent_open_and_verify", setVentPercentOpenAndVerifySchema, async (input) => {
-      const data = await flairApi.setVentPercentOpenAndVerify(
-        input.vent_id,
-        input.percent_open,
-        input.attempts ?? 4,
-        input.initial_delay_ms ?? 800,
-        input.backoff_multiplier ?? 1.8
+    registerTool("set_vent_percent_open_and_verify", "write", setVentPercentOpenAndVerifySchema, async (input, extra) => {
+      const ventId = requiredId(input.vent_id, "vent");
+      const refusal = await enforceVentPolicy(
+        "set_vent_percent_open_and_verify",
+        [{ ventId: ventId, percentOpen: input.percent_open }],
+        input.override_policy
+      );
+      if (refusal) return refusal;
+      const confirmation = await confirmWrite(
+        "set_vent_percent_open_and_verify",
+        input,
+        `Set vent ${await resourceLabel("vents", ventId)} to ${input.percent_open}% open`,
+        ventStatePayload(ventId, input.percent_open),
+        extra
+      );
+      if (confirmation) return confirmation;
+
+      const data = await journalWrite("set_vent_percent_open_and_verify", [ventTarget(ventId, input.percent_open)], () =>
+        flairApi.setVentPercentOpenAndVerify(
+          ventId,
+          input.percent_open,
+          input.attempts ?? 4,
+          input.initial_delay_ms ?? 800,
+          input.backoff_multiplier ?? 1.8
+        )
+      );
+      return toJsonOutput(data);
+    });
+
+    registerTool("set_vents_percent_open", "write", setVentsPercentOpenSchema, async (input, extra) => {
+      const selector = {
+        ventIds: input.vent_ids,
+        structureId: input.structure_id,
+        roomId: input.room_id,
+        namePattern: input.name_pattern
+      };
+      if (!selector.ventIds && !selector.structureId && !selector.roomId && !selector.namePattern) {
+        throw new Error("Provide vent_ids or a selector (structure_id, room_id, name_pattern)");
+      }
+
+      const { vents, missingIds } = await flairApi.selectVents(selector);
+      if (!input.dry_run && vents.length === 0 && missingIds.length === 0) {
+        throw new Error("No vents matched the selector");
+      }
+      const ventChanges = vents.map((vent) => ({ ventId: vent.id, percentOpen: input.percent_open }));
+      if (input.dry_run) {
+        return toJsonOutput({
+          dryRun: true,
+          action: "set_vents_percent_open",
+          percentOpen: input.percent_open,
+          plan: vents.map((vent) => ({
+            vent_id: vent.id,
+            name: vent.name,
+            room_id: vent.room_id,
+            current_percent_open: vent.percent_open,
+            target_percent_open: input.percent_open
+          })),
+          missingIds,
+          summary: {
+            selected: vents.length,
+            unchanged: vents.filter((vent) => vent.percent_open === input.percent_open).length
+          },
+          ...(await policyPreview(ventChanges))
+        });
+      }
+
+      const refusal = await enforceVentPolicy("set_vents_percent_open", ventChanges, input.override_policy);
+      if (refusal) return refusal;
+      const confirmation = await confirmWrite(
+        "set_vents_percent_open",
+        input,
+        `Set ${vents.length} vent${vents.length === 1 ? "" : "s"} to ${input.percent_open}% open: ${vents.map((vent) => vent.name ?? vent.id).join(", ")}`,
+        {
+          type: "vent-states",
+          attributes: { "percent-open": input.percent_open },
+          ventIds: vents.map((vent) => vent.id)
+        },
+        extra
+      );
+      if (confirmation) return confirmation;
+
+      // Send exactly the set the policy just approved.
+      const approved = { ventIds: [...vents.map((vent) => vent.id), ...missingIds] };
+      const data = await journalWrite(
+        "set_vents_percent_open",
+        vents.map((vent) => ventTarget(vent.id, input.percent_open)),
+        () =>
+          flairApi.setVentsPercentOpen(approved, input.percent_open, {
+            concurrency: input.concurrency ?? 4,
+            verify: input.verify
+              ? {
+                  attempts: input.attempts ?? 4,
+                  initialDelayMs: input.initial_delay_ms ?? 800,
+                  backoffMultiplier: input.backoff_multiplier ?? 1.8
+                }
+              : undefined
+          }),
+        {
+          applied: (result, change) =>
+            result.vents.some((row) => row.vent_id === change.resourceId && row.status !== "failed")
+        }
       );
       return toJsonOutput(data);
     });
+
+    registerTool("set_structure_mode", "write", setStructureModeSchema, async (input, extra) => {
+      const structureId = await flairApi.resolveStructureId(input.structure_id);
+      return applyAttributes("set_structure_mode", "structures", structureId, { mode: input.mode }, input, extra);
+    });
+
+    registerTool("set_structure_home_away", "write", setStructureHomeAwaySchema, async (input, extra) => {
+      const structureId = await flairApi.resolveStructureId(input.structure_id);
+      return applyAttributes("set_structure_home_away", "structures", structureId, { home: input.home }, input, extra);
+    });
+
+    registerTool("set_structure_setpoint", "write", setStructureSetpointSchema, async (input, extra) => {
+      const setPointC = toCelsius(input.set_point_c, input.set_point_f);
+      if (typeof setPointC !== "number") {
+        throw new Error("Provide set_point_c or set_point_f");
+      }
+      const structureId = await flairApi.resolveStructureId(input.structure_id);
+      const attributes = { "set-point-temperature-c": Math.round(setPointC * 100) / 100 };
+      return applyAttributes("set_structure_setpoint", "structures", structureId, attributes, input, extra);
+    });
+
+    registerTool("set_room_setpoint", "write", setRoomSetpointSchema, async (input, extra) => {
+      const roomId = requiredId(input.room_id, "room");
+      const setPointC = toCelsius(input.set_point_c, input.set_point_f);
+      if (typeof setPointC !== "number") {
+        throw new Error("Provide set_point_c or set_point_f");
+      }
+      const attributes = { "set-point-c": Math.round(setPointC * 100) / 100 };
+      return applyAttributes("set_room_setpoint", "rooms", roomId, attributes, input, extra);
+    });
+
+    registerTool("set_room_active", "write", setRoomActiveSchema, async (input, extra) => {
+      const roomId = requiredId(input.room_id, "room");
+      return applyAttributes("set_room_active", "rooms", roomId, { active: input.active }, input, extra);
+    });
+
+    registerTool("set_room_hold", "write", setRoomHoldSchema, async (input, extra) => {
+      const roomId = requiredId(input.room_id, "room");
+      const provided = [input.hold_until !== undefined, input.hold_minutes !== undefined, input.clear].filter(Boolean).length;
+      if (provided !== 1) {
+        throw new Error("Provide exactly one of hold_until, hold_minutes or clear=true");
+      }
+      const holdUntil = input.clear
+        ? null
+        : (input.hold_until ?? new Date(Date.now() + (input.hold_minutes as number) * 60 * 1000).toISOString());
+      return applyAttributes("set_room_hold", "rooms", roomId, { "hold-until": holdUntil }, input, extra);
+    });
+
+    registerTool("set_hvac_unit_power", "write", setHvacUnitPowerSchema, async (input, extra) => {
+      const unitId = requiredId(input.hvac_unit_id, "hvac_unit");
+      const attributes = await flairApi.hvacUnitAttributes(unitId, { power: input.power });
+      return applyAttributes("set_hvac_unit_power", "hvac-units", unitId, attributes, input, extra);
+    });
+
+    registerTool("set_hvac_unit_mode", "write", setHvacUnitModeSchema, async (input, extra) => {
+      const unitId = requiredId(input.hvac_unit_id, "hvac_unit");
+      const attributes = await flairApi.hvacUnitAttributes(unitId, { mode: input.mode });
+      return applyAttributes("set_hvac_unit_mode", "hvac-units", unitId, attributes, input, extra);
+    });
+
+    registerTool("set_hvac_unit_fan_speed", "write", setHvacUnitFanSpeedSchema, async (input, extra) => {
+      const unitId = requiredId(input.hvac_unit_id, "hvac_unit");
+      const attributes = await flairApi.hvacUnitAttributes(unitId, { fanSpeed: input.fan_speed });
+      return applyAttributes("set_hvac_unit_fan_speed", "hvac-units", unitId, attributes, input, extra);
+    });
+
+    registerTool("set_hvac_unit_setpoint", "write", setHvacUnitSetpointSchema, async (input, extra) => {
+      const unitId = requiredId(input.hvac_unit_id, "hvac_unit");
+      const setPointC = toCelsius(input.set_point_c, input.set_point_f);
+      if (typeof setPointC !== "number") {
+        throw new Error("Provide set_point_c or set_point_f");
+      }
+      const attributes = await flairApi.hvacUnitAttributes(unitId, { setPointC });
+      return applyAttributes("set_hvac_unit_setpoint", "hvac-units", unitId, attributes, input, extra);
+    });
+
+    registerTool("create_schedule", "write", createScheduleSchema, async (input, extra) => {
+      const structureId = await flairApi.resolveStructureId(input.structure_id);
+      const relationships = { structure: { data: { type: "structures", id: structureId } } };
+      return applyCreate("create_schedule", "schedules", { name: input.name }, relationships, input, extra);
+    });
+
+    registerTool("create_schedule_event", "write", createScheduleEventSchema, async (input, extra) => {
+      const change = await scheduleEventChange(input, () => flairApi.getScheduleStructureId(input.schedule_id));
+      const attributes = scheduleEventAttributes(change, { create: true });
+      const relationships = { schedule: { data: { type: "schedules", id: input.schedule_id } } };
+      return applyCreate("create_schedule_event", "schedule-events", attributes, relationships, input, extra);
+    });
+
+    registerTool("update_schedule_event", "write", updateScheduleEventSchema, async (input, extra) => {
+      const change = await scheduleEventChange(input, async () =>
+        flairApi.getScheduleStructureId(await flairApi.getScheduleEventScheduleId(input.event_id))
+      );
+      const attributes = scheduleEventAttributes(change);
+      return applyAttributes("update_schedule_event", "schedule-events", input.event_id, attributes, input, extra);
+    });
+
+    registerTool("activate_schedule", "write", activateScheduleSchema, async (input, extra) => {
+      if ((input.schedule_id !== undefined) === input.clear) {
+        throw new Error("Provide exactly one of schedule_id or clear=true");
+      }
+      const structureId = input.schedule_id
+        ? await flairApi.getScheduleStructureId(input.schedule_id)
+        : await flairApi.resolveStructureId(input.structure_id);
+      if (input.structure_id && input.structure_id !== structureId) {
+        throw new Error(`Schedule ${input.schedule_id} belongs to structure ${structureId}, not ${input.structure_id}`);
+      }
+      const attributes = { "active-schedule-id": input.schedule_id ?? null };
+      return applyAttributes("activate_schedule", "structures", structureId, attributes, input, extra);
+    });
+
+    if (sceneStore) {
+      // Names are stored as given and resolved on every preview/apply; unresolved ones are reported now.
+      registerTool("save_scene", "write", saveSceneSchema, async (input) => {
+        if (input.vents.length === 0 && input.rooms.length === 0) {
+          throw new Error("Provide at least one entry in vents or rooms");
+        }
+        const vents = input.vents.map((entry) => {
+          if (!entry.vent_id && !entry.vent_name) throw new Error("Each vents entry needs vent_id or vent_name");
+          return { ventId: entry.vent_id, ventName: entry.vent_name, percentOpen: entry.percent_open };
+        });
+        const rooms = input.rooms.map((entry) => {
+          if (!entry.room_id && !entry.room_name) throw new Error("Each rooms entry needs room_id or room_name");
+          const setPointC = toCelsius(entry.set_point_c, entry.set_point_f);
+          if (typeof setPointC !== "number") throw new Error("Each rooms entry needs set_point_c or set_point_f");
+          return { roomId: entry.room_id, roomName: entry.room_name, setPointC: Math.round(setPointC * 100) / 100 };
+        });
+        const scene = { name: input.name, description: input.description, structureId: input.structure_id, vents, rooms };
+        const { unresolved } = await flairApi.planScene(scene);
+        const saved = await sceneStore.save({ ...scene, source: "manual" }, { overwrite: input.overwrite });
+        return toJsonOutput({ scene: saved, unresolved });
+      });
+
+      registerTool("save_scene_from_current_state", "write", saveSceneFromCurrentStateSchema, async (input) => {
+        const captured = await flairApi.captureScene({
+          structureId: input.structure_id,
+          roomId: input.room_id,
+          includeRooms: input.include_room_setpoints
+        });
+        const saved = await sceneStore.save(
+          { name: input.name, description: input.description, structureId: input.structure_id, source: "captured", ...captured },
+          { overwrite: input.overwrite }
+        );
+        return toJsonOutput({ scene: saved });
+      });
+
+      registerTool("delete_scene", "write", sceneNameSchema, async (input) => {
+        const scene = await getScene(input.name);
+        await sceneStore.delete(scene.name);
+        return toJsonOutput({ deleted: scene.name });
+      });
+
+      // Vent moves go through the same policy, confirmation, journal and verification as set_vents_percent_open.
+      registerTool("apply_scene", "write", applySceneSchema, async (input, extra) => {
+        const scene = await getScene(input.name);
+        const plan = await flairApi.planScene(scene);
+        if (plan.unresolved.length > 0) {
+          throw new Error(
+            `Scene "${scene.name}" has targets that no longer resolve (${plan.unresolved
+              .map((target) => target.name ?? target.id)
+              .join(", ")}); preview_scene shows them. Re-save the scene to fix it`
+          );
+        }
+        const ventChanges = sceneVentChanges(plan);
+        const roomChanges = plan.rooms.filter((row) => row.changes);
+        if (input.dry_run) {
+          return toJsonOutput({ dryRun: true, scene: sceneOverview(scene), ...plan, ...(await policyPreview(ventChanges)) });
+        }
+        if (ventChanges.length === 0 && roomChanges.length === 0) {
+          return toJsonOutput({ scene: sceneOverview(scene), ...plan, applied: false, message: "Everything already matches the scene" });
+        }
+
+        const refusal = await enforceVentPolicy("apply_scene", ventChanges, input.override_policy);
+        if (refusal) return refusal;
+        const ventNames = new Map(plan.vents.map((row) => [row.vent_id, row.name]));
+        const summary = `Apply scene "${scene.name}": ${[
+          ...ventChanges.map((change) => `${ventNames.get(change.ventId) ?? change.ventId} ${change.percentOpen}%`),
+          ...roomChanges.map((row) => `${row.name} set point ${row.target_set_point_c}°C`)
+        ].join(", ")}`;
+        const payload = {
+          vents: Object.fromEntries(ventChanges.map((change) => [change.ventId, change.percentOpen])),
+          rooms: Object.fromEntries(roomChanges.map((row) => [row.room_id, { "set-point-c": row.target_set_point_c }]))
+        };
+        const confirmation = await confirmWrite("apply_scene", input, summary, payload, extra);
+        if (confirmation) return confirmation;
+
+        const verify = input.verify
+          ? {
+              attempts: input.attempts ?? 4,
+              initialDelayMs: input.initial_delay_ms ?? 800,
+              backoffMultiplier: input.backoff_multiplier ?? 1.8
+            }
+          : undefined;
+        const targets: JournalTarget[] = [
+          ...ventChanges.map((change) => ventTarget(change.ventId, change.percentOpen)),
+          ...roomChanges.map(
+            (row): JournalTarget => ({
+              kind: "attributes",
+              resourceType: "rooms",
+              resourceId: row.room_id,
+              after: { "set-point-c": row.target_set_point_c }
+            })
+          )
+        ];
+        const result = await journalWrite(
+          "apply_scene",
+          targets,
+          async () => {
+            const vents =
+              ventChanges.length > 0
+                ? await flairApi.setVentsPercentOpen({ ventIds: Object.keys(payload.vents) }, payload.vents, {
+                    concurrency: input.concurrency ?? 4,
+                    verify
+                  })
+                : undefined;
+            // Same statuses as the bulk vent rows.
+            const rooms: Array<{ room_id: string; name: string; status: "succeeded" | "unverified" | "sent" | "failed"; error?: string }> = [];
+            for (const row of roomChanges) {
+              const attributes = { "set-point-c": row.target_set_point_c };
+              try {
+                if (verify) {
+                  const outcome = await flairApi.updateResourceAttributesAndVerify("rooms", row.room_id, attributes, verify);
+                  rooms.push({ room_id: row.room_id, name: row.name, status: outcome.ok ? "succeeded" : "unverified" });
+                } else {
+                  await flairApi.updateResourceAttributes("rooms", row.room_id, attributes);
+                  rooms.push({ room_id: row.room_id, name: row.name, status: "sent" });
+                }
+              } catch (err) {
+                rooms.push({ room_id: row.room_id, name: row.name, status: "failed", error: normalizeFlairError(err).message });
+              }
+            }
+            return { vents, rooms };
+          },
+          {
+            applied: (data, change) =>
+              change.resourceType === "vents"
+                ? !!data.vents?.vents.some((row) => row.vent_id === change.resourceId && row.status !== "failed")
+                : data.rooms.some((row) => row.room_id === change.resourceId && row.status !== "failed")
+          }
+        );
+        return toJsonOutput({ scene: sceneOverview(scene), applied: true, result });
+      });
+    }
+
+    if (ruleStore) {
+      // Rules only store intent; the engine applies them later under the vent policy and journal.
+      // Adding one, or making one live, is where the user approves those future writes.
+      registerTool("add_rule", "write", addRuleSchema, async (input, extra) => {
+        const toRuleCelsius = (comparison: Comparison & { unit: "c" | "f" }): Comparison => {
+          const { unit, ...rest } = comparison;
+          const convert = (value?: number) =>
+            unit === "f" && typeof value === "number" ? Math.round(toCelsius(undefined, value)! * 100) / 100 : value;
+          return { ...rest, value: convert(rest.value), min: convert(rest.min), max: convert(rest.max) };
+        };
+        let action: Rule["action"];
+        if (input.action === "set_vent_percent_open") {
+          if (input.percent_open === undefined) throw new Error("set_vent_percent_open needs percent_open");
+          action = { type: "set_vent_percent_open", percentOpen: input.percent_open };
+        } else {
+          const setPointC = toCelsius(input.set_point_c, input.set_point_f);
+          if (typeof setPointC !== "number") throw new Error("set_room_setpoint needs set_point_c or set_point_f");
+          action = { type: "set_room_setpoint", setPointC: Math.round(setPointC * 100) / 100 };
+        }
+        const definition = validateRuleDefinition({
+          name: input.name,
+          scope: { structureId: input.structure_id, roomId: input.room_id, ventId: input.vent_id },
+          conditions: {
+            roomTemperatureC: input.room_temperature ? toRuleCelsius(input.room_temperature) : undefined,
+            roomHumidity: input.room_humidity,
+            ventPercentOpen: input.vent_percent_open,
+            timeOfDay: input.time_of_day
+          },
+          action,
+          cooldownMinutes: input.cooldown_minutes,
+          dryRun: input.dry_run,
+          enabled: input.enabled
+        });
+        const mode = !definition.enabled ? " (disabled)" : definition.dryRun ? " (dry run)" : "";
+        const confirmation = await confirmWrite(
+          "add_rule",
+          input,
+          `Add rule "${definition.name}"${mode}: ${describeRule(definition)}`,
+          definition,
+          extra
+        );
+        if (confirmation) return confirmation;
+        const rule = await ruleStore.add(definition);
+        return toJsonOutput({ rule: ruleOverview(rule) });
+      });
+
+      registerTool("enable_rule", "write", enableRuleSchema, async (input, extra) => {
+        const rule = await getRule(input);
+        if (!(input.dry_run ?? rule.dryRun)) {
+          const summary = `Enable rule "${rule.name}": ${describeRule(rule)}`;
+          const confirmation = await confirmWrite("enable_rule", input, summary, { ...rule, enabled: true, dryRun: false }, extra);
+          if (confirmation) return confirmation;
+        }
+        const updated = await ruleStore.update(rule.id, {
+          enabled: true,
+          ...(input.dry_run !== undefined ? { dryRun: input.dry_run } : {})
+        });
+        return toJsonOutput({ rule: ruleOverview(updated!) });
+      });
+
+      registerTool("disable_rule", "write", ruleRefSchema, async (input) => {
+        const rule = await getRule(input);
+        const updated = await ruleStore.update(rule.id, { enabled: false });
+        return toJsonOutput({ rule: ruleOverview(updated!) });
+      });
+
+      registerTool("delete_rule", "write", ruleRefSchema, async (input) => {
+        const rule = await getRule(input);
+        await ruleStore.delete(rule.id);
+        return toJsonOutput({ deleted: { id: rule.id, name: rule.name } });
+      });
+    }
+
+    if (journal) {
+      registerTool("undo_change", "write", undoChangeSchema, async (input, extra) => {
+        const entry = await journal.get(input.change_id);
+        if (!entry) {
+          throw new Error(`Unknown change_id: ${input.change_id}`);
+        }
+        return undoChange(entry, input, extra);
+      });
+    }
   }
 
   return server;
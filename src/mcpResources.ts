@@ -0,0 +1,212 @@
+import { ResourceTemplate, type McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { Variables } from "@modelcontextprotocol/sdk/shared/uriTemplate.js";
+import {
+  ErrorCode,
+  McpError,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+  type ReadResourceResult
+} from "@modelcontextprotocol/sdk/types.js";
+import type { ResourceRef } from "./changePoller.js";
+import { FlairApiClient, toJsonText } from "./flairApi.js";
+import { logger } from "./logger.js";
+
+const JSON_MIME = "application/json";
+const MAX_COMPLETIONS = 50;
+
+export const structuresUri = "flair://structures";
+export const structureUri = (structureId: string) => `flair://structures/${encodeURIComponent(structureId)}`;
+export const roomUri = (roomId: string) => `flair://rooms/${encodeURIComponent(roomId)}`;
+export const ventUri = (ventId: string) => `flair://vents/${encodeURIComponent(ventId)}`;
+
+const subscribableUri = /^flair:\/\/(rooms|vents)\/([^/?#]+)$/;
+
+export type FlairResourceOptions = {
+  // Runs before every upstream-backed callback; throws to refuse (e.g. rate limiting).
+  beforeRead?: (sessionId?: string) => void;
+  // Advertise `resources.subscribe` and forward poller changes for room and vent URIs.
+  subscriptions?: boolean;
+};
+
+const jsonContents = (uri: URL, data: unknown): ReadResourceResult => ({
+  contents: [{ uri: uri.href, mimeType: JSON_MIME, text: toJsonText(data) }]
+});
+
+const readVariable = (variables: Variables, name: string) => {
+  const value = variables[name];
+  const raw = Array.isArray(value) ? value[0] : value;
+  if (!raw) throw new Error(`Missing ${name} in resource URI`);
+  return decodeURIComponent(raw);
+};
+
+const refToUri = (ref: ResourceRef) => (ref.resourceType === "rooms" ? roomUri(ref.resourceId) : ventUri(ref.resourceId));
+
+// Normalizes encoding so `flair://vents/a b` and `flair://vents/a%20b` are the same subscription.
+const canonicalSubscriptionUri = (uri: string) => {
+  const match = subscribableUri.exec(uri);
+  if (!match) {
+    throw new McpError(ErrorCode.InvalidParams, `Only flair://rooms/{id} and flair://vents/{id} support subscriptions: ${uri}`);
+  }
+  return refToUri({ resourceType: match[1], resourceId: decodeURIComponent(match[2]) });
+};
+
+/**
+ * Tracks this session's subscribed URIs and holds one listener on the shared change poller
+ * while the set is non-empty. The listener is dropped when the session's server closes.
+ */
+const enableSubscriptions = (server: McpServer, flairApi: FlairApiClient) => {
+  const subscribed = new Set<string>();
+  let unwatch: (() => void) | null = null;
+
+  const onChanges = (changed: ResourceRef[]) => {
+    for (const ref of changed) {
+      const uri = refToUri(ref);
+      if (!subscribed.has(uri)) continue;
+      server.server.sendResourceUpdated({ uri }).catch((err) => {
+        logger.warn({ err, uri }, "Failed to send resource update notification");
+      });
+    }
+  };
+
+  server.server.registerCapabilities({ resources: { subscribe: true } });
+
+  server.server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    subscribed.add(canonicalSubscriptionUri(request.params.uri));
+    unwatch ??= flairApi.watchResourceChanges(onChanges);
+    return {};
+  });
+
+  server.server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    subscribed.delete(canonicalSubscriptionUri(request.params.uri));
+    if (subscribed.size === 0 && unwatch) {
+      unwatch();
+      unwatch = null;
+    }
+    return {};
+  });
+
+  const previousOnClose = server.server.onclose;
+  server.server.onclose = () => {
+    subscribed.clear();
+    unwatch?.();
+    unwatch = null;
+    previousOnClose?.();
+  };
+};
+
+// Match on ID prefix or on a case-insensitive name substring, so clients can complete by either.
+const completeIds = (items: Array<{ id: string; name?: string }>, value: string) => {
+  const needle = value.trim().toLowerCase();
+  return items
+    .filter((item) => !needle || item.id.toLowerCase().startsWith(needle) || item.name?.toLowerCase().includes(needle))
+    .map((item) => item.id)
+    .slice(0, MAX_COMPLETIONS);
+};
+
+export function registerFlairResources(server: McpServer, flairApi: FlairApiClient, options?: FlairResourceOptions) {
+  const beforeRead = options?.beforeRead ?? (() => undefined);
+  // Completion callbacks get no request context, so the session comes from the server's transport.
+  const completeFrom =
+    (load: () => Promise<Array<{ id: string; name?: string }>>) =>
+    async (value: string) => {
+      beforeRead(server.server.transport?.sessionId);
+      return completeIds(await load(), value);
+    };
+
+  server.registerResource(
+    "structures",
+    structuresUri,
+    {
+      title: "Flair structures",
+      description: "All structures (homes) with mode, home/away and set point.",
+      mimeType: JSON_MIME
+    },
+    async (uri, extra) => {
+      beforeRead(extra.sessionId);
+      return jsonContents(uri, { structures: await flairApi.describeStructures() });
+    }
+  );
+
+  server.registerResource(
+    "structure",
+    new ResourceTemplate("flair://structures/{id}", {
+      list: async (extra) => {
+        beforeRead(extra.sessionId);
+        const structures = await flairApi.describeStructures();
+        return {
+          resources: structures.map((structure) => ({
+            uri: structureUri(structure.id),
+            name: structure.name,
+            mimeType: JSON_MIME
+          }))
+        };
+      },
+      complete: {
+        id: completeFrom(() => flairApi.describeStructures())
+      }
+    }),
+    {
+      title: "Flair structure",
+      description: "One structure with its rooms.",
+      mimeType: JSON_MIME
+    },
+    async (uri, variables, extra) => {
+      beforeRead(extra.sessionId);
+      return jsonContents(uri, await flairApi.describeStructure(readVariable(variables, "id")));
+    }
+  );
+
+  server.registerResource(
+    "room",
+    new ResourceTemplate("flair://rooms/{id}", {
+      list: async (extra) => {
+        beforeRead(extra.sessionId);
+        const rooms = await flairApi.describeRooms();
+        return {
+          resources: rooms.map((room) => ({ uri: roomUri(room.id), name: room.name, mimeType: JSON_MIME }))
+        };
+      },
+      complete: {
+        id: completeFrom(() => flairApi.describeRooms())
+      }
+    }),
+    {
+      title: "Flair room",
+      description: "One room with set point, current temperature and its vents.",
+      mimeType: JSON_MIME
+    },
+    async (uri, variables, extra) => {
+      beforeRead(extra.sessionId);
+      return jsonContents(uri, await flairApi.describeRoom(readVariable(variables, "id")));
+    }
+  );
+
+  server.registerResource(
+    "vent",
+    new ResourceTemplate("flair://vents/{id}", {
+      list: async (extra) => {
+        beforeRead(extra.sessionId);
+        const vents = await flairApi.describeVents();
+        return {
+          resources: vents.map((vent) => ({ uri: ventUri(vent.id), name: vent.name, mimeType: JSON_MIME }))
+        };
+      },
+      complete: {
+        id: completeFrom(() => flairApi.describeVents())
+      }
+    }),
+    {
+      title: "Flair vent",
+      description: "One vent with percent open, room and battery/signal readings.",
+      mimeType: JSON_MIME
+    },
+    async (uri, variables, extra) => {
+      beforeRead(extra.sessionId);
+      return jsonContents(uri, await flairApi.describeVent(readVariable(variables, "id")));
+    }
+  );
+
+  if (options?.subscriptions) {
+    enableSubscriptions(server, flairApi);
+  }
+}
@@ -0,0 +1,101 @@
+import { Counter, Gauge, Histogram, Registry, collectDefaultMetrics } from "prom-client";
+import { config } from "./config.js";
+
+export const metricsRegistry = new Registry();
+
+collectDefaultMetrics({
+  register: metricsRegistry,
+  prefix: "flair_mcp_"
+});
+
+export const toolCallsTotal = new Counter({
+  name: "flair_mcp_tool_calls_total",
+  help: "MCP tool invocations by tool name and outcome",
+  labelNames: ["tool", "outcome"] as const,
+  registers: [metricsRegistry]
+});
+
+export const toolCallDurationSeconds = new Histogram({
+  name: "flair_mcp_tool_call_duration_seconds",
+  help: "MCP tool invocation latency",
+  labelNames: ["tool", "outcome"] as const,
+  buckets: [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30],
+  registers: [metricsRegistry]
+});
+
+export const upstreamRequestsTotal = new Counter({
+  name: "flair_upstream_requests_total",
+  help: "HTTP requests sent to the Flair API by method, resource type and status",
+  labelNames: ["method", "resource_type", "status"] as const,
+  registers: [metricsRegistry]
+});
+
+export const upstreamRequestDurationSeconds = new Histogram({
+  name: "flair_upstream_request_duration_seconds",
+  help: "Flair API request latency",
+  labelNames: ["method", "resource_type"] as const,
+  buckets: [0.05, 0.1, 0.25, 0.5, 1, 2, 5, 12],
+  registers: [metricsRegistry]
+});
+
+export const upstreamRetriesTotal = new Counter({
+  name: "flair_upstream_retries_total",
+  help: "Flair API request retries by method, resource type and reason",
+  labelNames: ["method", "resource_type", "reason"] as const,
+  registers: [metricsRegistry]
+});
+
+export const upstreamBackoffSeconds = new Histogram({
+  name: "flair_upstream_backoff_seconds",
+  help: "Time slept before retrying a Flair API request",
+  labelNames: ["method", "resource_type"] as const,
+  buckets: [0.1, 0.25, 0.5, 1, 2, 5, 10, 30],
+  registers: [metricsRegistry]
+});
+
+export const tokenRefreshesTotal = new Counter({
+  name: "flair_token_refreshes_total",
+  help: "Flair OAuth token refresh attempts by outcome",
+  labelNames: ["outcome"] as const,
+  registers: [metricsRegistry]
+});
+
+export const sessionsActive = new Gauge({
+  name: "flair_mcp_sessions_active",
+  help: "Open MCP HTTP sessions",
+  registers: [metricsRegistry]
+});
+
+export const sessionsExpiredTotal = new Counter({
+  name: "flair_mcp_sessions_expired_total",
+  help: "MCP HTTP sessions closed by stale-session cleanup",
+  registers: [metricsRegistry]
+});
+
+export const resourceUpdatesTotal = new Counter({
+  name: "flair_mcp_resource_updates_total",
+  help: "Resource changes detected by the subscription poller",
+  registers: [metricsRegistry]
+});
+
+/**
+ * Maps a Flair API path or absolute URL to a low-cardinality resource type label,
+ * e.g. `/api/vents/abc123` -> `vents`, `/api/` -> `root`.
+ */
+export const resourceTypeFromPath = (path: string) => {
+  let pathname = path;
+  try {
+    pathname = new URL(path, `${config.flairApiBaseUrl}/`).pathname;
+  } catch {
+    // keep raw path
+  }
+
+  const rootPath = `/${config.flairApiRootPath.replace(/^\/+|\/+$/g, "")}`;
+  if (rootPath !== "/" && pathname.startsWith(rootPath)) {
+    pathname = pathname.slice(rootPath.length);
+  }
+
+  const segment = pathname.split("/").filter(Boolean)[0];
+  if (!segment) return "root";
+  return /^[a-z0-9-]+$/i.test(segment) ? segment.toLowerCase() : "other";
+};
@@ -0,0 +1,130 @@
+export type NameCandidate = {
+  id: string;
+  type: string;
+  name: string;
+  // Other strings the resource answers to, e.g. a vent's name prefixed with its room's.
+  aliases?: string[];
+  room_name?: string;
+  structure_name?: string;
+};
+
+export type RankedCandidate = Omit<NameCandidate, "aliases"> & {
+  score: number;
+  matched_on: "id" | "name" | "alias";
+};
+
+export type NameResolution = {
+  status: "matched" | "ambiguous" | "not_found";
+  query: string;
+  match?: RankedCandidate;
+  candidates: RankedCandidate[];
+};
+
+export type NameResolutionOptions = {
+  // Lowest score that counts as a match at all.
+  minScore?: number;
+  // How far ahead the best candidate must be to win outright.
+  ambiguityGap?: number;
+  limit?: number;
+};
+
+/** Thrown when a `*_name` argument does not resolve to exactly one resource. */
+export class NameResolutionError extends Error {
+  constructor(
+    readonly resourceType: string,
+    readonly resolution: NameResolution
+  ) {
+    super(
+      resolution.status === "ambiguous"
+        ? `"${resolution.query}" matches several ${resourceType}: ${resolution.candidates
+            .map((candidate) => candidate.name)
+            .join(", ")}. Pass one of their IDs or a more specific name.`
+        : `No ${resourceType} match "${resolution.query}"`
+    );
+    this.name = "NameResolutionError";
+  }
+}
+
+/** Lowercase, accents and apostrophes dropped, punctuation collapsed: "Kid's Room" -> "kids room". */
+export const normalizeName = (value: string) =>
+  value
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/['’`]/g, "")
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+
+const editDistance = (a: string, b: string) => {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i += 1) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j += 1) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+/**
+ * Similarity in [0, 1]: 1 for the same normalized name, then the best of spacing-insensitive
+ * equality, containment, shared words and edit distance (for typos).
+ */
+export const scoreName = (query: string, candidate: string) => {
+  const q = normalizeName(query);
+  const c = normalizeName(candidate);
+  if (!q || !c) return 0;
+  if (q === c) return 1;
+  const qCompact = q.replace(/ /g, "");
+  const cCompact = c.replace(/ /g, "");
+  if (qCompact === cCompact) return 0.97;
+
+  const qWords = q.split(" ");
+  const cWords = new Set(c.split(" "));
+  const shared = qWords.filter((word) => cWords.has(word)).length;
+  const wordScore = (0.9 * shared) / Math.max(qWords.length, cWords.size);
+  const shorter = Math.min(qCompact.length, cCompact.length);
+  const longer = Math.max(qCompact.length, cCompact.length);
+  const containScore = cCompact.includes(qCompact) || qCompact.includes(cCompact) ? 0.6 + (0.3 * shorter) / longer : 0;
+  const editScore = 0.95 * (1 - editDistance(qCompact, cCompact) / longer);
+  return Number(Math.max(wordScore, containScore, editScore).toFixed(3));
+};
+
+/**
+ * Ranks candidates for `query`. An exact ID always wins; otherwise the best-scoring name wins
+ * only when it clears `minScore` and leads the runner-up by `ambiguityGap`.
+ */
+export function rankCandidates(query: string, candidates: NameCandidate[], options: NameResolutionOptions = {}): NameResolution {
+  const minScore = options.minScore ?? 0.6;
+  const ambiguityGap = options.ambiguityGap ?? 0.1;
+  const limit = options.limit ?? 5;
+  const strip = ({ aliases: _aliases, ...candidate }: NameCandidate) => candidate;
+
+  const byId = candidates.find((candidate) => candidate.id === query.trim());
+  if (byId) {
+    const match: RankedCandidate = { ...strip(byId), score: 1, matched_on: "id" };
+    return { status: "matched", query, match, candidates: [match] };
+  }
+
+  const scored = candidates
+    .map((candidate): RankedCandidate => {
+      const nameScore = scoreName(query, candidate.name);
+      const aliasScore = Math.max(0, ...(candidate.aliases ?? []).map((alias) => scoreName(query, alias)));
+      return aliasScore > nameScore
+        ? { ...strip(candidate), score: aliasScore, matched_on: "alias" }
+        : { ...strip(candidate), score: nameScore, matched_on: "name" };
+    })
+    .sort((a, b) => b.score - a.score || a.name.localeCompare(b.name));
+  const ranked = scored.filter((candidate) => candidate.score >= minScore);
+
+  const [best, runnerUp] = ranked;
+  if (!best) {
+    // Near misses, so the caller can suggest what was probably meant.
+    return { status: "not_found", query, candidates: scored.filter((candidate) => candidate.score >= 0.3).slice(0, limit) };
+  }
+  if (runnerUp && best.score - runnerUp.score < ambiguityGap) {
+    return { status: "ambiguous", query, candidates: ranked.slice(0, limit) };
+  }
+  return { status: "matched", query, match: best, candidates: ranked.slice(0, limit) };
+}
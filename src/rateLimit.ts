@@ -0,0 +1,118 @@
+export type ToolAccess = "read" | "write";
+
+export type BucketBudget = {
+  burst: number;
+  perMinute: number;
+};
+
+export type RateLimitDecision =
+  | { ok: true }
+  | { ok: false; retryAfterMs: number; limitedBy: "session" | "client"; access: ToolAccess };
+
+const idleEvictionMs = 10 * 60 * 1000;
+const sweepIntervalMs = 60 * 1000;
+
+class TokenBucket {
+  private tokens: number;
+  private updatedAtMs: number;
+
+  constructor(private readonly budget: BucketBudget, nowMs: number) {
+    this.tokens = budget.burst;
+    this.updatedAtMs = nowMs;
+  }
+
+  private refill(nowMs: number) {
+    const elapsedMs = Math.max(0, nowMs - this.updatedAtMs);
+    this.tokens = Math.min(this.budget.burst, this.tokens + (elapsedMs * this.budget.perMinute) / 60000);
+    this.updatedAtMs = nowMs;
+  }
+
+  /** Milliseconds until one token is available (0 when one is available now). */
+  waitMs(nowMs: number) {
+    this.refill(nowMs);
+    if (this.tokens >= 1) return 0;
+    if (this.budget.perMinute <= 0) return Number.POSITIVE_INFINITY;
+    return Math.ceil(((1 - this.tokens) * 60000) / this.budget.perMinute);
+  }
+
+  take() {
+    this.tokens -= 1;
+  }
+
+  isFull(nowMs: number) {
+    this.refill(nowMs);
+    return this.tokens >= this.budget.burst;
+  }
+}
+
+/**
+ * Token-bucket limiter for tool calls, keyed by MCP session and by client (API key label or IP).
+ * A call must fit both buckets; nothing is charged when either one refuses.
+ */
+export class ToolRateLimiter {
+  private buckets = new Map<string, { bucket: TokenBucket; lastUsedMs: number }>();
+  private lastSweepMs = 0;
+
+  constructor(private readonly budgets: Record<ToolAccess, BucketBudget>) {}
+
+  consume(keys: { sessionId?: string; clientKey?: string }, access: ToolAccess, nowMs = Date.now()): RateLimitDecision {
+    this.sweep(nowMs);
+
+    const candidates: Array<{ limitedBy: "session" | "client"; bucket: TokenBucket }> = [];
+    if (keys.sessionId) {
+      candidates.push({ limitedBy: "session", bucket: this.getBucket(`session:${keys.sessionId}:${access}`, access, nowMs) });
+    }
+    if (keys.clientKey) {
+      candidates.push({ limitedBy: "client", bucket: this.getBucket(`client:${keys.clientKey}:${access}`, access, nowMs) });
+    }
+
+    let worst: { limitedBy: "session" | "client"; waitMs: number } | undefined;
+    for (const candidate of candidates) {
+      const waitMs = candidate.bucket.waitMs(nowMs);
+      if (waitMs > 0 && (!worst || waitMs > worst.waitMs)) {
+        worst = { limitedBy: candidate.limitedBy, waitMs };
+      }
+    }
+
+    if (worst) {
+      return {
+        ok: false,
+        retryAfterMs: Number.isFinite(worst.waitMs) ? worst.waitMs : 60000,
+        limitedBy: worst.limitedBy,
+        access
+      };
+    }
+
+    for (const candidate of candidates) {
+      candidate.bucket.take();
+    }
+    return { ok: true };
+  }
+
+  getStatus() {
+    return {
+      trackedBuckets: this.buckets.size,
+      budgets: this.budgets
+    };
+  }
+
+  private getBucket(key: string, access: ToolAccess, nowMs: number) {
+    let entry = this.buckets.get(key);
+    if (!entry) {
+      entry = { bucket: new TokenBucket(this.budgets[access], nowMs), lastUsedMs: nowMs };
+      this.buckets.set(key, entry);
+    }
+    entry.lastUsedMs = nowMs;
+    return entry.bucket;
+  }
+
+  private sweep(nowMs: number) {
+    if (nowMs - this.lastSweepMs < sweepIntervalMs) return;
+    this.lastSweepMs = nowMs;
+    for (const [key, entry] of this.buckets.entries()) {
+      if (nowMs - entry.lastUsedMs >= idleEvictionMs && entry.bucket.isFull(nowMs)) {
+        this.buckets.delete(key);
+      }
+    }
+  }
+}
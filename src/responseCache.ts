@@ -0,0 +1,119 @@
+import type { JsonApiDocument } from "./flairTypes.js";
+
+export type ResponseCacheOptions = {
+  defaultTtlMs: number;
+  ttlByType: Record<string, number>;
+  maxEntries: number;
+};
+
+type CacheEntry = {
+  doc: JsonApiDocument;
+  resourceType: string;
+  expiresAtMs: number;
+};
+
+type InflightLoad = {
+  promise: Promise<JsonApiDocument>;
+  resourceType: string;
+};
+
+/**
+ * In-memory TTL cache for JSON:API GET responses with single-flight coalescing.
+ * Entries are tagged with their resource type so writes can drop everything of that type.
+ * Every caller gets its own copy of the document, so mutating a result never changes the cache.
+ */
+export class ResponseCache {
+  private entries = new Map<string, CacheEntry>();
+  private inflight = new Map<string, InflightLoad>();
+  // Bumped on invalidation so loads that started earlier do not repopulate stale data.
+  private generations = new Map<string, number>();
+  private stats = {
+    hits: 0,
+    misses: 0,
+    coalesced: 0,
+    invalidations: 0,
+    evictions: 0
+  };
+
+  constructor(private readonly options: ResponseCacheOptions) {}
+
+  ttlFor(resourceType: string) {
+    return this.options.ttlByType[resourceType] ?? this.options.defaultTtlMs;
+  }
+
+  async getOrLoad(key: string, resourceType: string, load: () => Promise<JsonApiDocument>): Promise<JsonApiDocument> {
+    const now = Date.now();
+    const cached = this.entries.get(key);
+    if (cached && cached.expiresAtMs > now) {
+      this.stats.hits += 1;
+      return structuredClone(cached.doc);
+    }
+    if (cached) {
+      this.entries.delete(key);
+    }
+
+    const pending = this.inflight.get(key);
+    if (pending) {
+      this.stats.coalesced += 1;
+      return pending.promise.then((doc) => structuredClone(doc));
+    }
+
+    this.stats.misses += 1;
+    const generation = this.generations.get(resourceType) ?? 0;
+    const promise = load()
+      .then((doc) => {
+        const ttlMs = this.ttlFor(resourceType);
+        if (ttlMs > 0 && (this.generations.get(resourceType) ?? 0) === generation) {
+          this.store(key, { doc, resourceType, expiresAtMs: Date.now() + ttlMs });
+        }
+        return doc;
+      })
+      .finally(() => {
+        // An invalidation may already have replaced this load with a newer one.
+        if (this.inflight.get(key)?.promise === promise) this.inflight.delete(key);
+      });
+
+    this.inflight.set(key, { promise, resourceType });
+    return promise.then((doc) => structuredClone(doc));
+  }
+
+  invalidateTypes(resourceTypes: string[]) {
+    const targets = new Set(resourceTypes);
+    for (const type of targets) {
+      this.generations.set(type, (this.generations.get(type) ?? 0) + 1);
+    }
+    for (const [key, entry] of this.entries.entries()) {
+      if (targets.has(entry.resourceType)) {
+        this.entries.delete(key);
+      }
+    }
+    // Loads already in flight may carry pre-write data; later callers start a fresh one.
+    for (const [key, load] of this.inflight.entries()) {
+      if (targets.has(load.resourceType)) {
+        this.inflight.delete(key);
+      }
+    }
+    this.stats.invalidations += 1;
+  }
+
+  getStatus() {
+    const lookups = this.stats.hits + this.stats.misses;
+    return {
+      entries: this.entries.size,
+      inflight: this.inflight.size,
+      ...this.stats,
+      hitRatio: lookups > 0 ? Number((this.stats.hits / lookups).toFixed(3)) : 0
+    };
+  }
+
+  private store(key: string, entry: CacheEntry) {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    while (this.entries.size > this.options.maxEntries) {
+      const oldest = this.entries.keys().next().value;
+      if (typeof oldest === "undefined") break;
+      this.entries.delete(oldest);
+      this.stats.evictions += 1;
+    }
+  }
+}
@@ -0,0 +1,153 @@
+export type RoomStatPoint = {
+  atMs: number;
+  temperatureC: number;
+  humidity?: number;
+};
+
+export type RoomTrend = "warming" | "cooling" | "stable" | "insufficient_data";
+
+export type RoomSeriesOptions = {
+  bucketMs: number;
+  // Absolute °C/hour below which the room counts as stable.
+  stableThresholdCPerHour: number;
+  includePoints?: boolean;
+};
+
+export type RoomSeriesBucket = {
+  start: string;
+  temperature_c: number;
+  temperature_f: number;
+  humidity?: number;
+  samples: number;
+};
+
+// Every field but `samples`, `trend` and `buckets` is omitted when the window holds no samples.
+export type RoomSeriesSummary = {
+  samples: number;
+  first_at?: string;
+  last_at?: string;
+  temperature?: {
+    latest_c: number;
+    latest_f: number;
+    min_c: number;
+    max_c: number;
+    mean_c: number;
+    min_f: number;
+    max_f: number;
+    mean_f: number;
+  };
+  humidity?: { latest: number; min: number; max: number; mean: number };
+  change_c?: number;
+  change_f?: number;
+  rate_c_per_hour?: number;
+  rate_f_per_hour?: number;
+  trend: RoomTrend;
+  buckets: RoomSeriesBucket[];
+  points?: Array<{ at: string; temperature_c: number; temperature_f: number; humidity?: number }>;
+};
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export const toFahrenheit = (celsius: number) => (celsius * 9) / 5 + 32;
+
+const round = (value: number, digits = 2) => Number(value.toFixed(digits));
+
+const mean = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+
+// Least-squares slope in °C per hour; null when the samples span no time.
+const slopePerHour = (points: RoomStatPoint[]) => {
+  const originMs = points[0].atMs;
+  const xs = points.map((point) => (point.atMs - originMs) / HOUR_MS);
+  const ys = points.map((point) => point.temperatureC);
+  const meanX = mean(xs);
+  const meanY = mean(ys);
+  let numerator = 0;
+  let denominator = 0;
+  for (let index = 0; index < points.length; index += 1) {
+    numerator += (xs[index] - meanX) * (ys[index] - meanY);
+    denominator += (xs[index] - meanX) ** 2;
+  }
+  return denominator > 0 ? numerator / denominator : null;
+};
+
+export const classifyTrend = (ratePerHour: number | null, stableThresholdCPerHour: number): RoomTrend => {
+  if (ratePerHour === null) return "insufficient_data";
+  if (Math.abs(ratePerHour) < stableThresholdCPerHour) return "stable";
+  return ratePerHour > 0 ? "warming" : "cooling";
+};
+
+/**
+ * Downsamples one room's samples into fixed buckets and summarizes them: min/max/mean, overall
+ * change, a regression rate per hour (robust to a single noisy reading) and a trend label.
+ */
+export function analyzeRoomSeries(points: RoomStatPoint[], options: RoomSeriesOptions): RoomSeriesSummary {
+  const sorted = [...points].sort((a, b) => a.atMs - b.atMs);
+  if (sorted.length === 0) {
+    return { samples: 0, trend: "insufficient_data", buckets: [] };
+  }
+
+  const byBucket = new Map<number, RoomStatPoint[]>();
+  for (const point of sorted) {
+    const start = Math.floor(point.atMs / options.bucketMs) * options.bucketMs;
+    byBucket.set(start, [...(byBucket.get(start) ?? []), point]);
+  }
+  const buckets = Array.from(byBucket, ([start, bucketPoints]): RoomSeriesBucket => {
+    const temperatureC = mean(bucketPoints.map((point) => point.temperatureC));
+    const humidities = bucketPoints.flatMap((point) => (typeof point.humidity === "number" ? [point.humidity] : []));
+    return {
+      start: new Date(start).toISOString(),
+      temperature_c: round(temperatureC),
+      temperature_f: round(toFahrenheit(temperatureC)),
+      ...(humidities.length > 0 ? { humidity: round(mean(humidities), 1) } : {}),
+      samples: bucketPoints.length
+    };
+  });
+
+  const temperatures = sorted.map((point) => point.temperatureC);
+  const humidities = sorted.flatMap((point) => (typeof point.humidity === "number" ? [point.humidity] : []));
+  const first = sorted[0];
+  const last = sorted[sorted.length - 1];
+  const rate = sorted.length > 1 ? slopePerHour(sorted) : null;
+  const changeC = last.temperatureC - first.temperatureC;
+
+  return {
+    samples: sorted.length,
+    first_at: new Date(first.atMs).toISOString(),
+    last_at: new Date(last.atMs).toISOString(),
+    temperature: {
+      latest_c: round(last.temperatureC),
+      latest_f: round(toFahrenheit(last.temperatureC)),
+      min_c: round(Math.min(...temperatures)),
+      max_c: round(Math.max(...temperatures)),
+      mean_c: round(mean(temperatures)),
+      min_f: round(toFahrenheit(Math.min(...temperatures))),
+      max_f: round(toFahrenheit(Math.max(...temperatures))),
+      mean_f: round(toFahrenheit(mean(temperatures)))
+    },
+    ...(humidities.length > 0
+      ? {
+          humidity: {
+            latest: humidities[humidities.length - 1],
+            min: Math.min(...humidities),
+            max: Math.max(...humidities),
+            mean: round(mean(humidities), 1)
+          }
+        }
+      : {}),
+    change_c: round(changeC),
+    change_f: round(changeC * 1.8),
+    ...(rate === null ? {} : { rate_c_per_hour: round(rate), rate_f_per_hour: round(rate * 1.8) }),
+    trend: classifyTrend(rate, options.stableThresholdCPerHour),
+    buckets,
+    ...(options.includePoints
+      ? {
+          points: sorted.map((point) => ({
+            at: new Date(point.atMs).toISOString(),
+            temperature_c: point.temperatureC,
+            temperature_f: round(toFahrenheit(point.temperatureC)),
+            ...(typeof point.humidity === "number" ? { humidity: point.humidity } : {})
+          }))
+        }
+      : {})
+  };
+}
@@ -0,0 +1,266 @@
+import { captureUpstreamWrites, type AuditLog } from "./auditLog.js";
+import { normalizeFlairError, type FlairApiClient, type VerifyOptions } from "./flairApi.js";
+import { logger } from "./logger.js";
+import type { RuleStore } from "./ruleStore.js";
+import {
+  applyRuleTargets,
+  cooldownRemainingMs,
+  planRuleTargets,
+  type Rule,
+  type RuleFiring,
+  type RuleRoomState,
+  type RuleTargets,
+  type RuleVentState
+} from "./rules.js";
+import { evaluateVentPolicy, type VentPolicyConfig } from "./ventPolicy.js";
+import type { JournalChange, WriteJournal } from "./writeJournal.js";
+
+export type RuleEngineOptions = {
+  intervalMs: number;
+  // Ceiling for the backoff applied after failed evaluations.
+  maxIntervalMs: number;
+  // Evaluate and record firings for every rule without writing anything.
+  dryRun: boolean;
+  // For time-of-day conditions; server local time when omitted.
+  timeZone?: string;
+  // Vent changes that break the policy are not sent; the firing is recorded as `blocked`.
+  ventPolicy?: VentPolicyConfig;
+  // Journals applied firings so `undo_change` can revert them.
+  journal?: WriteJournal;
+  // Gets one `rule_engine` entry per firing that wrote, with its upstream writes.
+  auditLog?: AuditLog;
+  concurrency?: number;
+  verify?: VerifyOptions;
+};
+
+type FiringResult = Omit<RuleFiring, "id" | "at" | "ruleId" | "ruleName">;
+
+/**
+ * Evaluates enabled rules on an interval and applies their actions through the same bulk vent
+ * and room write paths the tools use. Like the history recorder it runs whether or not any
+ * session is connected; a rule that fires (or would, in dry-run) waits out its cooldown.
+ */
+export class RuleEngine {
+  private timer: NodeJS.Timeout | null = null;
+  private inflight: Promise<RuleFiring[]> | null = null;
+  private currentIntervalMs: number;
+  private lastEvaluationAtMs?: number;
+  private lastError?: string;
+  private evaluations = 0;
+  private failures = 0;
+  private firings = 0;
+
+  constructor(
+    private readonly flairApi: FlairApiClient,
+    private readonly store: RuleStore,
+    private readonly options: RuleEngineOptions
+  ) {
+    this.currentIntervalMs = options.intervalMs;
+  }
+
+  start() {
+    if (!this.timer) this.schedule(0);
+  }
+
+  stop() {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+  }
+
+  /** Evaluates every enabled rule now (coalescing with a pass in flight) and returns the firings recorded. */
+  evaluateNow(): Promise<RuleFiring[]> {
+    if (!this.inflight) {
+      this.inflight = this.evaluate().finally(() => {
+        this.inflight = null;
+      });
+    }
+    return this.inflight;
+  }
+
+  getStatus() {
+    return {
+      running: !!this.timer,
+      dryRun: this.options.dryRun,
+      intervalMs: this.currentIntervalMs,
+      evaluations: this.evaluations,
+      failures: this.failures,
+      firings: this.firings,
+      lastEvaluationAt: this.lastEvaluationAtMs ? new Date(this.lastEvaluationAtMs).toISOString() : null,
+      lastError: this.lastError ?? null
+    };
+  }
+
+  private async evaluate() {
+    this.evaluations += 1;
+    try {
+      const nowMs = Date.now();
+      const due = (await this.store.list()).filter((rule) => rule.enabled && cooldownRemainingMs(rule, nowMs) === 0);
+      const recorded: RuleFiring[] = [];
+      if (due.length > 0) {
+        // One read per pass. Each firing is folded into the snapshot before the next rule is planned
+        // and policy-checked, and a vent or room changed earlier in the pass is left alone until the
+        // next pass, so opposing rules cannot flap it.
+        const [listed, described] = await Promise.all([
+          this.flairApi.listVentsWithRoomTemperatures({ includeClosed: true }),
+          this.flairApi.describeRooms()
+        ]);
+        let vents: RuleVentState[] = listed.vents;
+        let rooms: RuleRoomState[] = described;
+        const touched = new Set<string>();
+        for (const rule of due) {
+          const planned = planRuleTargets(rule, vents, rooms, nowMs, this.options.timeZone);
+          const targets: RuleTargets = {
+            vents: planned.vents.filter((target) => !touched.has(`vents/${target.ventId}`)),
+            rooms: planned.rooms.filter((target) => !touched.has(`rooms/${target.roomId}`))
+          };
+          if (targets.vents.length === 0 && targets.rooms.length === 0) continue;
+          const result = await this.fire(rule, targets, vents, rooms, nowMs);
+          recorded.push(await this.store.recordFiring({ ruleId: rule.id, ruleName: rule.name, ...result }));
+
+          // Dry-run firings count as landed so the recorded passes show what would really happen.
+          const landed: RuleTargets =
+            result.status === "blocked"
+              ? { vents: [], rooms: [] }
+              : {
+                  vents: result.vents.filter((row) => row.status !== "failed"),
+                  rooms: result.rooms.filter((row) => row.status !== "failed")
+                };
+          landed.vents.forEach((target) => touched.add(`vents/${target.ventId}`));
+          landed.rooms.forEach((target) => touched.add(`rooms/${target.roomId}`));
+          ({ vents, rooms } = applyRuleTargets(vents, rooms, landed));
+        }
+      }
+      this.firings += recorded.length;
+      this.lastEvaluationAtMs = Date.now();
+      this.lastError = undefined;
+      this.currentIntervalMs = this.options.intervalMs;
+      return recorded;
+    } catch (err) {
+      this.failures += 1;
+      this.lastError = err instanceof Error ? err.message : String(err);
+      this.currentIntervalMs = Math.min(this.currentIntervalMs * 2, this.options.maxIntervalMs);
+      logger.warn({ err, nextEvaluationInMs: this.currentIntervalMs }, "Rule evaluation failed");
+      return [];
+    }
+  }
+
+  private async fire(
+    rule: Rule,
+    targets: RuleTargets,
+    vents: RuleVentState[],
+    rooms: RuleRoomState[],
+    nowMs: number
+  ): Promise<FiringResult> {
+    const planned = {
+      vents: targets.vents.map((target) => ({ ...target, status: "planned" })),
+      rooms: targets.rooms.map((target) => ({ ...target, status: "planned" }))
+    };
+    if (this.options.dryRun || rule.dryRun) {
+      return { status: "dry_run", ...planned };
+    }
+
+    const ventChanges = targets.vents.map((target) => ({ ventId: target.ventId, percentOpen: target.after }));
+    if (this.options.ventPolicy && ventChanges.length > 0) {
+      const decision = evaluateVentPolicy(this.options.ventPolicy, ventChanges, vents, rooms, nowMs);
+      if (!decision.allowed) {
+        return {
+          status: "blocked",
+          ...planned,
+          message: decision.violations.map((violation) => violation.message).join("; ")
+        };
+      }
+    }
+
+    const startedAt = Date.now();
+    const captured = captureUpstreamWrites(() => this.write(targets));
+    const firing = await captured.result;
+    firing.journalEntryId = await this.journal(rule, firing);
+    void this.options.auditLog?.append({
+      at: new Date(startedAt).toISOString(),
+      client: `rule:${rule.name}`,
+      tool: "rule_engine",
+      access: "write",
+      arguments: { rule_id: rule.id, rule_name: rule.name, vents: targets.vents, rooms: targets.rooms },
+      dryRun: false,
+      outcome: firing.status === "failed" ? "error" : "ok",
+      ...(firing.message ? { error: firing.message } : {}),
+      durationMs: Date.now() - startedAt,
+      upstream: captured.writes
+    });
+    return firing;
+  }
+
+  private async write(targets: RuleTargets): Promise<FiringResult> {
+    const firing: FiringResult = { status: "applied", vents: [], rooms: [] };
+    if (targets.vents.length > 0) {
+      try {
+        const result = await this.flairApi.setVentsPercentOpen(
+          { ventIds: targets.vents.map((target) => target.ventId) },
+          Object.fromEntries(targets.vents.map((target) => [target.ventId, target.after])),
+          { concurrency: this.options.concurrency ?? 4, verify: this.options.verify }
+        );
+        const statusById = new Map(result.vents.map((row) => [row.vent_id, row.status]));
+        firing.vents = targets.vents.map((target) => ({ ...target, status: statusById.get(target.ventId) ?? "failed" }));
+      } catch (err) {
+        firing.vents = targets.vents.map((target) => ({ ...target, status: "failed" }));
+        firing.message = normalizeFlairError(err).message;
+      }
+    }
+    for (const target of targets.rooms) {
+      const attributes = { "set-point-c": target.after };
+      try {
+        if (this.options.verify) {
+          const outcome = await this.flairApi.updateResourceAttributesAndVerify("rooms", target.roomId, attributes, this.options.verify);
+          firing.rooms.push({ ...target, status: outcome.ok ? "succeeded" : "unverified" });
+        } else {
+          await this.flairApi.updateResourceAttributes("rooms", target.roomId, attributes);
+          firing.rooms.push({ ...target, status: "sent" });
+        }
+      } catch (err) {
+        firing.rooms.push({ ...target, status: "failed", error: normalizeFlairError(err).message });
+      }
+    }
+
+    const rows = [...firing.vents, ...firing.rooms];
+    const failed = rows.filter((row) => row.status === "failed").length;
+    firing.status = failed === 0 ? "applied" : failed === rows.length ? "failed" : "partial";
+    return firing;
+  }
+
+  // The values replaced come from the evaluation snapshot, read moments before the write.
+  private async journal(rule: Rule, firing: FiringResult) {
+    if (!this.options.journal) return undefined;
+    const changes: JournalChange[] = [
+      ...firing.vents
+        .filter((row) => row.status !== "failed")
+        .map((row) => ({
+          kind: "vent_percent_open" as const,
+          resourceType: "vents",
+          resourceId: row.ventId,
+          before: typeof row.before === "number" ? { "percent-open": row.before } : null,
+          after: { "percent-open": row.after }
+        })),
+      ...firing.rooms
+        .filter((row) => row.status !== "failed")
+        .map((row) => ({
+          kind: "attributes" as const,
+          resourceType: "rooms",
+          resourceId: row.roomId,
+          before: typeof row.before === "number" ? { "set-point-c": row.before } : null,
+          after: { "set-point-c": row.after }
+        }))
+    ];
+    if (changes.length === 0) return undefined;
+    const entry = await this.options.journal.record({ tool: "rule_engine", clientKey: `rule:${rule.name}`, status: "applied", changes });
+    return entry.id;
+  }
+
+  private schedule(delayMs: number) {
+    this.timer = setTimeout(() => {
+      void this.evaluateNow().finally(() => {
+        if (this.timer) this.schedule(this.currentIntervalMs);
+      });
+    }, delayMs);
+    this.timer.unref();
+  }
+}
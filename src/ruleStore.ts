@@ -0,0 +1,134 @@
+import crypto from "node:crypto";
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { logger } from "./logger.js";
+import type { Rule, RuleDefinition, RuleFiring } from "./rules.js";
+
+export type RuleStoreOptions = {
+  // Omit to keep rules in memory only.
+  filePath?: string;
+  maxRules: number;
+  // Firings kept for `list_rule_firings`, newest last.
+  maxFirings: number;
+};
+
+const ruleKey = (name: string) => name.trim().toLowerCase();
+
+/**
+ * Automation rules, unique by case-insensitive name, and a bounded log of their firings.
+ * Persisted like the scene store: one JSON document rewritten atomically after every change.
+ */
+export class RuleStore {
+  private rules: Rule[] = [];
+  private firings: RuleFiring[] = [];
+  private loaded: Promise<void> | null = null;
+  private persisting: Promise<void> = Promise.resolve();
+
+  constructor(private readonly options: RuleStoreOptions) {}
+
+  async list() {
+    await this.ensureLoaded();
+    return [...this.rules];
+  }
+
+  /** By ID, or else by case-insensitive name. */
+  async get(idOrName: string) {
+    await this.ensureLoaded();
+    return this.rules.find((rule) => rule.id === idOrName) ?? this.rules.find((rule) => ruleKey(rule.name) === ruleKey(idOrName));
+  }
+
+  async add(definition: RuleDefinition) {
+    await this.ensureLoaded();
+    const existing = this.rules.find((rule) => ruleKey(rule.name) === ruleKey(definition.name));
+    if (existing) {
+      throw new Error(`Rule "${existing.name}" already exists; delete it first or pick another name`);
+    }
+    if (this.rules.length >= this.options.maxRules) {
+      throw new Error(`Rule limit of ${this.options.maxRules} reached; delete one first`);
+    }
+    const now = new Date().toISOString();
+    const rule: Rule = { ...definition, id: crypto.randomUUID().slice(0, 8), createdAt: now, updatedAt: now };
+    this.rules.push(rule);
+    await this.persist();
+    return rule;
+  }
+
+  async update(id: string, patch: Partial<Pick<Rule, "enabled" | "dryRun" | "lastFiredAt">>) {
+    await this.ensureLoaded();
+    const index = this.rules.findIndex((rule) => rule.id === id);
+    if (index < 0) return undefined;
+    const updated: Rule = { ...this.rules[index], ...patch, updatedAt: new Date().toISOString() };
+    this.rules[index] = updated;
+    await this.persist();
+    return updated;
+  }
+
+  async delete(id: string) {
+    await this.ensureLoaded();
+    const before = this.rules.length;
+    this.rules = this.rules.filter((rule) => rule.id !== id);
+    if (this.rules.length === before) return false;
+    await this.persist();
+    return true;
+  }
+
+  /** Appends a firing and starts the rule's cooldown from it. */
+  async recordFiring(firing: Omit<RuleFiring, "id" | "at">) {
+    await this.ensureLoaded();
+    const recorded: RuleFiring = { id: crypto.randomUUID().slice(0, 8), at: new Date().toISOString(), ...firing };
+    this.firings.push(recorded);
+    if (this.firings.length > this.options.maxFirings) {
+      this.firings.splice(0, this.firings.length - this.options.maxFirings);
+    }
+    const index = this.rules.findIndex((rule) => rule.id === firing.ruleId);
+    if (index >= 0) this.rules[index] = { ...this.rules[index], lastFiredAt: recorded.at };
+    await this.persist();
+    return recorded;
+  }
+
+  /** Newest first. */
+  async listFirings(options?: { limit?: number; ruleId?: string }) {
+    await this.ensureLoaded();
+    const limit = options?.limit ?? 20;
+    return this.firings
+      .filter((firing) => !options?.ruleId || firing.ruleId === options.ruleId)
+      .slice(-limit)
+      .reverse();
+  }
+
+  private ensureLoaded() {
+    this.loaded ??= this.load();
+    return this.loaded;
+  }
+
+  private async load() {
+    if (!this.options.filePath) return;
+    try {
+      const parsed = JSON.parse(await readFile(this.options.filePath, "utf8")) as { rules?: Rule[]; firings?: RuleFiring[] };
+      this.rules = Array.isArray(parsed.rules) ? parsed.rules : [];
+      this.firings = Array.isArray(parsed.firings) ? parsed.firings.slice(-this.options.maxFirings) : [];
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== "ENOENT") {
+        logger.warn({ err, filePath: this.options.filePath }, "Could not read rules; starting empty");
+      }
+    }
+  }
+
+  // Writes are chained so concurrent saves never interleave on disk.
+  private persist() {
+    const filePath = this.options.filePath;
+    if (!filePath) return Promise.resolve();
+    const snapshot = JSON.stringify({ version: 1, rules: this.rules, firings: this.firings }, null, 2);
+    this.persisting = this.persisting.then(async () => {
+      try {
+        await mkdir(path.dirname(filePath), { recursive: true });
+        const tempPath = `${filePath}.${process.pid}.tmp`;
+        await writeFile(tempPath, snapshot, { encoding: "utf8", mode: 0o600 });
+        await rename(tempPath, filePath);
+      } catch (err) {
+        logger.warn({ err, filePath }, "Failed to persist rules");
+      }
+    });
+    return this.persisting;
+  }
+}
@@ -0,0 +1,296 @@
+import { toFahrenheit } from "./roomHistory.js";
+import { formatDays, normalizeDays, scheduleDays, scheduleTimePattern, type ScheduleDay } from "./schedules.js";
+
+export const comparisonOperators = ["lt", "lte", "gt", "gte", "between"] as const;
+
+export type ComparisonOperator = (typeof comparisonOperators)[number];
+
+// `value` for lt/lte/gt/gte; `min` and `max` (inclusive) for between.
+export type Comparison = {
+  operator: ComparisonOperator;
+  value?: number;
+  min?: number;
+  max?: number;
+};
+
+// Local time window; wraps midnight when `end` is before `start`. `days` are checked against the current local day.
+export type TimeOfDayWindow = {
+  start: string;
+  end: string;
+  days?: ScheduleDay[];
+};
+
+// Every condition given must hold; the room and vent conditions are checked per vent.
+export type RuleConditions = {
+  roomTemperatureC?: Comparison;
+  roomHumidity?: Comparison;
+  ventPercentOpen?: Comparison;
+  timeOfDay?: TimeOfDayWindow;
+};
+
+export type RuleAction =
+  | { type: "set_vent_percent_open"; percentOpen: number }
+  | { type: "set_room_setpoint"; setPointC: number };
+
+export type RuleScope = {
+  structureId?: string;
+  roomId?: string;
+  ventId?: string;
+};
+
+export type RuleDefinition = {
+  name: string;
+  scope: RuleScope;
+  conditions: RuleConditions;
+  action: RuleAction;
+  cooldownMinutes: number;
+  // Record firings without writing anything.
+  dryRun: boolean;
+  enabled: boolean;
+};
+
+export type Rule = RuleDefinition & {
+  id: string;
+  createdAt: string;
+  updatedAt: string;
+  lastFiredAt?: string;
+};
+
+export type RuleFiringStatus = "applied" | "partial" | "failed" | "dry_run" | "blocked";
+
+// Target rows share the bulk vent statuses; `planned` is used when nothing was sent.
+export type RuleFiring = {
+  id: string;
+  at: string;
+  ruleId: string;
+  ruleName: string;
+  status: RuleFiringStatus;
+  vents: Array<{ ventId: string; name?: string; roomName?: string; before?: number; after: number; status: string }>;
+  rooms: Array<{ roomId: string; name?: string; before?: number; after: number; status: string; error?: string }>;
+  message?: string;
+  journalEntryId?: string;
+};
+
+// The fields of a `listVentsWithRoomTemperatures` row a rule looks at.
+export type RuleVentState = {
+  id: string;
+  name?: string;
+  structure_id?: string;
+  room_id?: string;
+  room_name?: string;
+  percent_open?: number;
+  room_temperature_c?: number;
+  room_humidity?: number;
+};
+
+export type RuleRoomState = {
+  id: string;
+  name?: string;
+  set_point_c?: number;
+};
+
+export type RuleTargets = {
+  vents: Array<{ ventId: string; name?: string; roomName?: string; before?: number; after: number }>;
+  rooms: Array<{ roomId: string; name?: string; before?: number; after: number }>;
+};
+
+const round = (value: number, digits = 2) => Number(value.toFixed(digits));
+
+const operatorSymbols: Record<Exclude<ComparisonOperator, "between">, string> = { lt: "<", lte: "<=", gt: ">", gte: ">=" };
+
+const timeMinute = (time: string) => Number(time.slice(0, 2)) * 60 + Number(time.slice(3, 5));
+
+const validateComparison = (label: string, comparison: Comparison, bounds: [number, number]) => {
+  const values = comparison.operator === "between" ? [comparison.min, comparison.max] : [comparison.value];
+  if (values.some((value) => typeof value !== "number" || !Number.isFinite(value))) {
+    throw new Error(
+      comparison.operator === "between" ? `${label} with operator between needs min and max` : `${label} needs a value`
+    );
+  }
+  if ((values as number[]).some((value) => value < bounds[0] || value > bounds[1])) {
+    throw new Error(`${label} must be between ${bounds[0]} and ${bounds[1]}`);
+  }
+  if (comparison.operator === "between" && comparison.min! > comparison.max!) {
+    throw new Error(`${label} min must not be above max`);
+  }
+};
+
+/**
+ * Checks what the tool schema cannot: complete comparisons, a valid non-empty time window,
+ * at least one condition and an action value in range. Returns the definition with days normalized.
+ */
+export function validateRuleDefinition(definition: RuleDefinition): RuleDefinition {
+  const { conditions, action } = definition;
+  if (!definition.name.trim()) throw new Error("Provide a rule name");
+  if (conditions.roomTemperatureC) validateComparison("room_temperature", conditions.roomTemperatureC, [-40, 60]);
+  if (conditions.roomHumidity) validateComparison("room_humidity", conditions.roomHumidity, [0, 100]);
+  if (conditions.ventPercentOpen) validateComparison("vent_percent_open", conditions.ventPercentOpen, [0, 100]);
+
+  let timeOfDay = conditions.timeOfDay;
+  if (timeOfDay) {
+    for (const time of [timeOfDay.start, timeOfDay.end]) {
+      if (!scheduleTimePattern.test(time)) throw new Error(`Invalid time "${time}"; use 24-hour HH:MM`);
+    }
+    if (timeOfDay.start === timeOfDay.end) throw new Error("time_of_day start and end must differ");
+    if (timeOfDay.days) {
+      const days = normalizeDays(timeOfDay.days);
+      if (days.length === 0) throw new Error("Provide at least one day");
+      timeOfDay = { ...timeOfDay, days };
+    }
+  }
+  if (!conditions.roomTemperatureC && !conditions.roomHumidity && !conditions.ventPercentOpen && !timeOfDay) {
+    throw new Error("Provide at least one condition");
+  }
+
+  if (
+    action.type === "set_vent_percent_open" &&
+    (!Number.isInteger(action.percentOpen) || action.percentOpen < 0 || action.percentOpen > 100)
+  ) {
+    throw new Error("percent_open must be a whole number from 0 to 100");
+  }
+  if (action.type === "set_room_setpoint" && !(action.setPointC >= 5 && action.setPointC <= 35)) {
+    throw new Error("The set point must be between 5°C and 35°C");
+  }
+  return { ...definition, name: definition.name.trim(), conditions: { ...conditions, timeOfDay } };
+}
+
+export const matchesComparison = (comparison: Comparison, value: number) => {
+  switch (comparison.operator) {
+    case "lt":
+      return value < comparison.value!;
+    case "lte":
+      return value <= comparison.value!;
+    case "gt":
+      return value > comparison.value!;
+    case "gte":
+      return value >= comparison.value!;
+    case "between":
+      return value >= comparison.min! && value <= comparison.max!;
+  }
+};
+
+/** Weekday and minute of the day at `nowMs` in `timeZone` (server local time when omitted). */
+export const localTime = (nowMs: number, timeZone?: string) => {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    weekday: "long",
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+    timeZone
+  }).formatToParts(new Date(nowMs));
+  const part = (type: string) => parts.find((entry) => entry.type === type)?.value ?? "";
+  return {
+    day: part("weekday").toLowerCase() as ScheduleDay,
+    minute: Number(part("hour")) * 60 + Number(part("minute"))
+  };
+};
+
+export const isWithinTimeWindow = (window: TimeOfDayWindow, nowMs: number, timeZone?: string) => {
+  const { day, minute } = localTime(nowMs, timeZone);
+  if (window.days && !window.days.includes(day)) return false;
+  const start = timeMinute(window.start);
+  const end = timeMinute(window.end);
+  return start < end ? minute >= start && minute < end : minute >= start || minute < end;
+};
+
+/** Milliseconds until the rule may fire again; 0 when it is not cooling down. */
+export const cooldownRemainingMs = (rule: Rule, nowMs: number) => {
+  if (!rule.lastFiredAt) return 0;
+  return Math.max(0, Date.parse(rule.lastFiredAt) + rule.cooldownMinutes * 60_000 - nowMs);
+};
+
+const inScope = (scope: RuleScope, vent: RuleVentState) =>
+  (!scope.structureId || vent.structure_id === scope.structureId) &&
+  (!scope.roomId || vent.room_id === scope.roomId) &&
+  (!scope.ventId || vent.id === scope.ventId);
+
+// A condition on a reading the vent does not have never holds.
+const ventMatches = (conditions: RuleConditions, vent: RuleVentState) => {
+  const checks: Array<[Comparison | undefined, number | undefined]> = [
+    [conditions.roomTemperatureC, vent.room_temperature_c],
+    [conditions.roomHumidity, vent.room_humidity],
+    [conditions.ventPercentOpen, vent.percent_open]
+  ];
+  return checks.every(([comparison, value]) => !comparison || (typeof value === "number" && matchesComparison(comparison, value)));
+};
+
+/**
+ * What the rule would change right now. Vents in scope that meet every condition are the
+ * matches; the action then targets those vents, or the rooms they are in, skipping any already
+ * at the target value. Empty when the time window is closed or nothing would change.
+ */
+export function planRuleTargets(
+  rule: RuleDefinition,
+  vents: RuleVentState[],
+  rooms: RuleRoomState[],
+  nowMs = Date.now(),
+  timeZone?: string
+): RuleTargets {
+  const targets: RuleTargets = { vents: [], rooms: [] };
+  if (rule.conditions.timeOfDay && !isWithinTimeWindow(rule.conditions.timeOfDay, nowMs, timeZone)) return targets;
+  const matched = vents.filter((vent) => inScope(rule.scope, vent) && ventMatches(rule.conditions, vent));
+
+  if (rule.action.type === "set_vent_percent_open") {
+    const percentOpen = rule.action.percentOpen;
+    targets.vents = matched
+      .filter((vent) => vent.percent_open !== percentOpen)
+      .map((vent) => ({ ventId: vent.id, name: vent.name, roomName: vent.room_name, before: vent.percent_open, after: percentOpen }));
+    return targets;
+  }
+
+  const setPointC = rule.action.setPointC;
+  const roomIds = new Set(matched.flatMap((vent) => (vent.room_id ? [vent.room_id] : [])));
+  targets.rooms = rooms
+    .filter((room) => roomIds.has(room.id) && room.set_point_c !== setPointC)
+    .map((room) => ({ roomId: room.id, name: room.name, before: room.set_point_c, after: setPointC }));
+  return targets;
+}
+
+/**
+ * The snapshot as it will be once `targets` land, so rules later in the same pass are planned and
+ * policy-checked against what earlier firings changed.
+ */
+export function applyRuleTargets<V extends RuleVentState, R extends RuleRoomState>(
+  vents: V[],
+  rooms: R[],
+  targets: RuleTargets
+): { vents: V[]; rooms: R[] } {
+  const ventTargets = new Map(targets.vents.map((target) => [target.ventId, target.after]));
+  const roomTargets = new Map(targets.rooms.map((target) => [target.roomId, target.after]));
+  return {
+    vents: vents.map((vent) => (ventTargets.has(vent.id) ? { ...vent, percent_open: ventTargets.get(vent.id) } : vent)),
+    rooms: rooms.map((room) => (roomTargets.has(room.id) ? { ...room, set_point_c: roomTargets.get(room.id) } : room))
+  };
+}
+
+const describeComparison = (label: string, comparison: Comparison, unit: (value: number) => string) =>
+  comparison.operator === "between"
+    ? `${label} between ${unit(comparison.min!)} and ${unit(comparison.max!)}`
+    : `${label} ${operatorSymbols[comparison.operator]} ${unit(comparison.value!)}`;
+
+const celsiusLabel = (celsius: number) => `${round(celsius)}°C (${round(toFahrenheit(celsius), 1)}°F)`;
+
+/** One line a person can read back, e.g. "When room temperature < 18°C (64.4°F) and vent open < 50%: set vents to 100% open". */
+export const describeRule = (rule: RuleDefinition) => {
+  const { conditions, action } = rule;
+  const clauses = [
+    ...(conditions.roomTemperatureC ? [describeComparison("room temperature", conditions.roomTemperatureC, celsiusLabel)] : []),
+    ...(conditions.roomHumidity ? [describeComparison("room humidity", conditions.roomHumidity, (value) => `${value}%`)] : []),
+    ...(conditions.ventPercentOpen ? [describeComparison("vent open", conditions.ventPercentOpen, (value) => `${value}%`)] : [])
+  ];
+  const window = conditions.timeOfDay
+    ? `${conditions.timeOfDay.start}-${conditions.timeOfDay.end}${
+        conditions.timeOfDay.days && conditions.timeOfDay.days.length < scheduleDays.length
+          ? ` on ${formatDays(conditions.timeOfDay.days)}`
+          : ""
+      }`
+    : undefined;
+  const when = clauses.length
+    ? `When ${clauses.join(" and ")}${window ? `, during ${window}` : ""}`
+    : `During ${window}`;
+  const does =
+    action.type === "set_vent_percent_open"
+      ? `set vents to ${action.percentOpen}% open`
+      : `set matching rooms to ${celsiusLabel(action.setPointC)}`;
+  return `${when}: ${does}`;
+};
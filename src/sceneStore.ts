@@ -0,0 +1,120 @@
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { logger } from "./logger.js";
+
+// Targets keep both the ID and the name when known: the ID is tried first, the name if the ID is gone.
+export type SceneVent = {
+  ventId?: string;
+  ventName?: string;
+  percentOpen: number;
+};
+
+export type SceneRoom = {
+  roomId?: string;
+  roomName?: string;
+  setPointC: number;
+};
+
+export type Scene = {
+  name: string;
+  description?: string;
+  // Scopes name lookups when the account has several structures.
+  structureId?: string;
+  source: "manual" | "captured";
+  vents: SceneVent[];
+  rooms: SceneRoom[];
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type SceneStoreOptions = {
+  // Omit to keep scenes in memory only.
+  filePath?: string;
+  maxScenes: number;
+};
+
+const sceneKey = (name: string) => name.trim().toLowerCase();
+
+/**
+ * Named vent and room presets, unique by case-insensitive name. Persisted like the write
+ * journal: one JSON document rewritten atomically (temp file + rename) after every change.
+ */
+export class SceneStore {
+  private scenes = new Map<string, Scene>();
+  private loaded: Promise<void> | null = null;
+  private persisting: Promise<void> = Promise.resolve();
+
+  constructor(private readonly options: SceneStoreOptions) {}
+
+  async list() {
+    await this.ensureLoaded();
+    return Array.from(this.scenes.values()).sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async get(name: string) {
+    await this.ensureLoaded();
+    return this.scenes.get(sceneKey(name));
+  }
+
+  /** Replacing an existing scene needs `overwrite`; it keeps the original `createdAt`. */
+  async save(scene: Omit<Scene, "createdAt" | "updatedAt">, options: { overwrite?: boolean } = {}) {
+    await this.ensureLoaded();
+    const key = sceneKey(scene.name);
+    const existing = this.scenes.get(key);
+    if (existing && !options.overwrite) {
+      throw new Error(`Scene "${existing.name}" already exists; pass overwrite=true to replace it`);
+    }
+    if (!existing && this.scenes.size >= this.options.maxScenes) {
+      throw new Error(`Scene limit of ${this.options.maxScenes} reached; delete one first`);
+    }
+    const now = new Date().toISOString();
+    const saved: Scene = { ...scene, name: scene.name.trim(), createdAt: existing?.createdAt ?? now, updatedAt: now };
+    this.scenes.set(key, saved);
+    await this.persist();
+    return saved;
+  }
+
+  async delete(name: string) {
+    await this.ensureLoaded();
+    const deleted = this.scenes.delete(sceneKey(name));
+    if (deleted) await this.persist();
+    return deleted;
+  }
+
+  private ensureLoaded() {
+    this.loaded ??= this.load();
+    return this.loaded;
+  }
+
+  private async load() {
+    if (!this.options.filePath) return;
+    try {
+      const parsed = JSON.parse(await readFile(this.options.filePath, "utf8")) as { scenes?: Scene[] };
+      for (const scene of Array.isArray(parsed.scenes) ? parsed.scenes : []) {
+        this.scenes.set(sceneKey(scene.name), scene);
+      }
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== "ENOENT") {
+        logger.warn({ err, filePath: this.options.filePath }, "Could not read scenes; starting empty");
+      }
+    }
+  }
+
+  // Writes are chained so concurrent saves never interleave on disk.
+  private persist() {
+    const filePath = this.options.filePath;
+    if (!filePath) return Promise.resolve();
+    const snapshot = JSON.stringify({ version: 1, scenes: Array.from(this.scenes.values()) }, null, 2);
+    this.persisting = this.persisting.then(async () => {
+      try {
+        await mkdir(path.dirname(filePath), { recursive: true });
+        const tempPath = `${filePath}.${process.pid}.tmp`;
+        await writeFile(tempPath, snapshot, { encoding: "utf8", mode: 0o600 });
+        await rename(tempPath, filePath);
+      } catch (err) {
+        logger.warn({ err, filePath }, "Failed to persist scenes");
+      }
+    });
+    return this.persisting;
+  }
+}
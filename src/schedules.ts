@@ -0,0 +1,121 @@
+import { toFahrenheit } from "./roomHistory.js";
+
+export const scheduleDays = ["monday", "tuesday", "wednesday", "thursday", "friday", "saturday", "sunday"] as const;
+
+export type ScheduleDay = (typeof scheduleDays)[number];
+
+export type ScheduleRoomSetPoint = {
+  room_id: string;
+  room_name?: string;
+  set_point_c: number;
+};
+
+// One schedule-events resource, normalized.
+export type ScheduleEvent = {
+  id: string;
+  schedule_id?: string;
+  days: ScheduleDay[];
+  time?: string;
+  set_point_c?: number;
+  room_set_points: ScheduleRoomSetPoint[];
+  home?: boolean;
+};
+
+// Fields left undefined are not sent, so the same input serves creates and partial edits.
+export type ScheduleEventChange = {
+  days?: ScheduleDay[];
+  time?: string;
+  setPointC?: number;
+  roomSetPoints?: Array<{ roomId: string; setPointC: number }>;
+  home?: boolean;
+};
+
+export const scheduleTimePattern = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+const round = (value: number, digits = 2) => Number(value.toFixed(digits));
+
+const dayIndex = (day: string) => scheduleDays.indexOf(day as ScheduleDay);
+
+const dayLabel = (day: ScheduleDay) => day.charAt(0).toUpperCase() + day.slice(1, 3);
+
+/** Known days in week order, once each; anything else is dropped. */
+export const normalizeDays = (days: unknown[]) =>
+  scheduleDays.filter((day) => days.some((value) => typeof value === "string" && value.trim().toLowerCase() === day));
+
+/** "Every day", "Mon-Fri", "Mon-Wed, Sat": runs of three or more days collapse to a range. */
+export const formatDays = (days: ScheduleDay[]) => {
+  const sorted = normalizeDays(days);
+  if (sorted.length === scheduleDays.length) return "Every day";
+  const runs: ScheduleDay[][] = [];
+  for (const day of sorted) {
+    const run = runs[runs.length - 1];
+    if (run && dayIndex(day) === dayIndex(run[run.length - 1]) + 1) run.push(day);
+    else runs.push([day]);
+  }
+  return runs
+    .flatMap((run) =>
+      run.length >= 3 ? [`${dayLabel(run[0])}-${dayLabel(run[run.length - 1])}`] : run.map((day) => dayLabel(day))
+    )
+    .join(", ");
+};
+
+/**
+ * Upstream attributes for a schedule event. Validates what the tool schema cannot: at least one
+ * day, no room listed twice, and (for creates) something for the event to do.
+ */
+export function scheduleEventAttributes(change: ScheduleEventChange, options: { create?: boolean } = {}) {
+  const attributes: Record<string, unknown> = {};
+  if (change.days !== undefined) {
+    const days = normalizeDays(change.days);
+    if (days.length === 0) throw new Error("Provide at least one day");
+    attributes.days = days;
+  }
+  if (change.time !== undefined) {
+    if (!scheduleTimePattern.test(change.time)) throw new Error(`Invalid time "${change.time}"; use 24-hour HH:MM`);
+    attributes["start-time"] = change.time;
+  }
+  if (change.setPointC !== undefined) {
+    attributes["set-point-c"] = round(change.setPointC);
+  }
+  if (change.roomSetPoints !== undefined) {
+    const seen = new Set<string>();
+    for (const entry of change.roomSetPoints) {
+      if (seen.has(entry.roomId)) throw new Error(`Room ${entry.roomId} is listed more than once`);
+      seen.add(entry.roomId);
+    }
+    attributes["room-set-points"] = change.roomSetPoints.map((entry) => ({
+      "room-id": entry.roomId,
+      "set-point-c": round(entry.setPointC)
+    }));
+  }
+  if (change.home !== undefined) {
+    attributes.home = change.home;
+  }
+
+  if (options.create) {
+    if (!attributes.days || !attributes["start-time"]) throw new Error("Provide days and time");
+    const acts = ["set-point-c", "room-set-points", "home"].some((key) => attributes[key] !== undefined);
+    if (!acts) throw new Error("Provide set_point_c/set_point_f, room_set_points or home");
+  } else if (Object.keys(attributes).length === 0) {
+    throw new Error("Provide at least one field to change");
+  }
+  return attributes;
+}
+
+/** Week order by first day, then time of day. */
+export const compareScheduleEvents = (a: ScheduleEvent, b: ScheduleEvent) =>
+  (a.days.length ? dayIndex(a.days[0]) : 7) - (b.days.length ? dayIndex(b.days[0]) : 7) ||
+  (a.time ?? "").localeCompare(b.time ?? "");
+
+const describeTemperature = (celsius: number) => `${celsius}°C (${round(toFahrenheit(celsius), 1)}°F)`;
+
+/** One line a person can read back, e.g. "Mon-Fri at 07:00: 21°C (69.8°F); Office 20°C (68°F); home". */
+export const describeScheduleEvent = (event: ScheduleEvent) => {
+  const actions = [
+    ...(typeof event.set_point_c === "number" ? [describeTemperature(event.set_point_c)] : []),
+    ...event.room_set_points.map((entry) => `${entry.room_name ?? entry.room_id} ${describeTemperature(entry.set_point_c)}`),
+    ...(typeof event.home === "boolean" ? [event.home ? "home" : "away"] : [])
+  ];
+  const when = `${event.days.length ? formatDays(event.days) : "No days"} at ${event.time ?? "unknown time"}`;
+  return `${when}: ${actions.length ? actions.join("; ") : "no changes"}`;
+};
@@ -0,0 +1,65 @@
+import dotenv from "dotenv";
+import pino from "pino";
+import { z } from "zod";
+import { startFlairSimulator } from "./server.js";
+
+dotenv.config();
+
+const emptyToUndefined = (value: unknown) => {
+  if (typeof value === "string" && value.trim().length === 0) return undefined;
+  return value;
+};
+
+const schema = z.object({
+  FLAIR_SIM_PORT: z.coerce.number().int().positive().default(8091),
+  FLAIR_SIM_HOST: z.string().default("127.0.0.1"),
+  FLAIR_SIM_SEED: z.coerce.number().int().default(42),
+  FLAIR_SIM_CLIENT_ID: z.preprocess(emptyToUndefined, z.string().optional()),
+  FLAIR_SIM_CLIENT_SECRET: z.preprocess(emptyToUndefined, z.string().optional()),
+  FLAIR_SIM_TOKEN_TTL_SEC: z.coerce.number().int().positive().default(3600),
+  FLAIR_SIM_PAGE_SIZE: z.coerce.number().int().positive().max(500).default(50),
+  FLAIR_SIM_VENT_DELAY_MS: z.coerce.number().int().min(0).default(1500),
+  FLAIR_SIM_FAULT_RATE: z.coerce.number().min(0).max(1).default(0),
+  FLAIR_SIM_FAULT_STATUS: z.coerce.number().int().min(400).max(599).default(503),
+  FLAIR_SIM_STATS_INTERVAL_MS: z.coerce.number().int().min(0).default(60000),
+  LOG_LEVEL: z.string().default("info")
+});
+
+const parsed = schema.safeParse(process.env);
+if (!parsed.success) {
+  // eslint-disable-next-line no-console
+  console.error("Invalid simulator configuration:", parsed.error.flatten().fieldErrors);
+  process.exit(1);
+}
+
+const env = parsed.data;
+const logger = pino({ level: env.LOG_LEVEL });
+
+startFlairSimulator({
+  port: env.FLAIR_SIM_PORT,
+  host: env.FLAIR_SIM_HOST,
+  seed: env.FLAIR_SIM_SEED,
+  clientId: env.FLAIR_SIM_CLIENT_ID,
+  clientSecret: env.FLAIR_SIM_CLIENT_SECRET,
+  tokenTtlSec: env.FLAIR_SIM_TOKEN_TTL_SEC,
+  pageSize: env.FLAIR_SIM_PAGE_SIZE,
+  ventStateDelayMs: env.FLAIR_SIM_VENT_DELAY_MS,
+  faultRate: env.FLAIR_SIM_FAULT_RATE,
+  faultStatus: env.FLAIR_SIM_FAULT_STATUS,
+  statsIntervalMs: env.FLAIR_SIM_STATS_INTERVAL_MS
+})
+  .then((simulator) => {
+    logger.info(
+      {
+        url: simulator.url,
+        seed: env.FLAIR_SIM_SEED,
+        ventStateDelayMs: env.FLAIR_SIM_VENT_DELAY_MS,
+        faultRate: env.FLAIR_SIM_FAULT_RATE
+      },
+      "Flair API simulator listening (set FLAIR_API_BASE_URL to this URL)"
+    );
+  })
+  .catch((err) => {
+    logger.error({ err }, "Failed to start Flair API simulator");
+    process.exit(1);
+  });
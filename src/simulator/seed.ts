@@ -0,0 +1,268 @@
+import type { JsonApiResource } from "../flairTypes.js";
+
+export type SimulatorStore = Map<string, Map<string, JsonApiResource>>;
+
+type Rng = () => number;
+
+// mulberry32: small deterministic PRNG so seeded data is stable across runs.
+export const createRng = (seed: number): Rng => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+export const createIdFactory = (rng: Rng) => () => {
+  const hex = (length: number) =>
+    Array.from({ length }, () => Math.floor(rng() * 16).toString(16)).join("");
+  return `${hex(8)}-${hex(4)}-${hex(4)}-${hex(4)}-${hex(12)}`;
+};
+
+export const toOne = (type: string, id: string, selfType: string, selfId: string, name: string) => ({
+  data: { type, id },
+  links: { related: `/api/${selfType}/${selfId}/${name}` }
+});
+
+const round = (value: number, digits = 2) => Number(value.toFixed(digits));
+
+const roomPlan = [
+  { name: "Living Room", vents: 2, baseTempC: 21.2 },
+  { name: "Kitchen", vents: 1, baseTempC: 21.8 },
+  { name: "Office", vents: 2, baseTempC: 20.4 },
+  { name: "Primary Bedroom", vents: 2, baseTempC: 19.6 },
+  { name: "Kid's Room", vents: 1, baseTempC: 19.1 },
+  { name: "Basement", vents: 2, baseTempC: 17.8 }
+];
+
+export const statsHistoryStepMs = 5 * 60 * 1000;
+const statsHistoryRows = 72;
+
+export type SeedResult = {
+  store: SimulatorStore;
+  baseTempByRoom: Map<string, number>;
+  nextId: () => string;
+  rng: Rng;
+};
+
+export const seedSimulatorStore = (seed: number, nowMs = Date.now()): SeedResult => {
+  const rng = createRng(seed);
+  const nextId = createIdFactory(rng);
+  const store: SimulatorStore = new Map();
+  const put = (resource: JsonApiResource) => {
+    if (!store.has(resource.type)) store.set(resource.type, new Map());
+    store.get(resource.type)!.set(resource.id, resource);
+  };
+  // Device types the real root links advertise; unseeded ones stay empty collections.
+  const types = [
+    "structures",
+    "rooms",
+    "vents",
+    "pucks",
+    "puck2s",
+    "thermostats",
+    "hvac-units",
+    "remote-sensors",
+    "room-stats",
+    "vent-states",
+    "schedules",
+    "schedule-events"
+  ];
+  for (const type of types) {
+    store.set(type, new Map());
+  }
+
+  const nowIso = new Date(nowMs).toISOString();
+  const structureId = nextId();
+  put({
+    id: structureId,
+    type: "structures",
+    attributes: {
+      name: "Simulated Home",
+      mode: "manual",
+      home: true,
+      "set-point-temperature-c": 21,
+      "temperature-scale": "F",
+      "default-hold-duration": "2h",
+      "active-schedule-id": null,
+      "structure-heat-cool-mode": "heat",
+      "created-at": nowIso,
+      "updated-at": nowIso
+    },
+    relationships: {}
+  });
+
+  const baseTempByRoom = new Map<string, number>();
+  const roomIdByName = new Map<string, string>();
+  for (const plan of roomPlan) {
+    const roomId = nextId();
+    baseTempByRoom.set(roomId, plan.baseTempC);
+    roomIdByName.set(plan.name, roomId);
+    put({
+      id: roomId,
+      type: "rooms",
+      attributes: {
+        name: plan.name,
+        active: true,
+        "set-point-c": 21,
+        "hold-until": null,
+        "hold-reason": null,
+        "current-temperature-c": plan.baseTempC,
+        "current-humidity": 40,
+        "created-at": nowIso,
+        "updated-at": nowIso
+      },
+      relationships: {
+        structure: toOne("structures", structureId, "rooms", roomId, "structure")
+      }
+    });
+
+    for (let index = 0; index < plan.vents; index += 1) {
+      const ventId = nextId();
+      put({
+        id: ventId,
+        type: "vents",
+        attributes: {
+          name: plan.vents > 1 ? `${plan.name} Vent ${index + 1}` : `${plan.name} Vent`,
+          "percent-open": [0, 25, 50, 100][Math.floor(rng() * 4)],
+          inactive: false,
+          voltage: round(2.7 + rng() * 0.5),
+          rssi: Math.round(-45 - rng() * 40),
+          "firmware-version-s": "1.2.7",
+          "duct-temperature-c": round(plan.baseTempC + 6 + rng() * 4),
+          "created-at": nowIso,
+          "updated-at": nowIso
+        },
+        relationships: {
+          room: toOne("rooms", roomId, "vents", ventId, "room"),
+          structure: toOne("structures", structureId, "vents", ventId, "structure")
+        }
+      });
+    }
+
+    if (plan.name !== "Basement") {
+      const puckId = nextId();
+      put({
+        id: puckId,
+        type: "pucks",
+        attributes: {
+          name: `${plan.name} Puck`,
+          inactive: false,
+          voltage: round(2.6 + rng() * 0.6),
+          rssi: Math.round(-40 - rng() * 45),
+          "firmware-version-s": "2.4.1",
+          "is-gateway": plan.name === "Living Room",
+          "created-at": nowIso,
+          "updated-at": nowIso
+        },
+        relationships: {
+          room: toOne("rooms", roomId, "pucks", puckId, "room"),
+          structure: toOne("structures", structureId, "pucks", puckId, "structure")
+        }
+      });
+    }
+
+    // Oldest first so the newest row ends up last; the server sorts on request.
+    for (let step = statsHistoryRows - 1; step >= 0; step -= 1) {
+      const statId = nextId();
+      const createdAt = new Date(nowMs - step * statsHistoryStepMs).toISOString();
+      const drift = Math.sin((statsHistoryRows - step) / 12) * 0.6;
+      put({
+        id: statId,
+        type: "room-stats",
+        attributes: {
+          "temperature-c": round(plan.baseTempC + drift + (rng() - 0.5) * 0.2),
+          humidity: round(38 + rng() * 10, 1),
+          "created-at": createdAt
+        },
+        relationships: {
+          room: toOne("rooms", roomId, "room-stats", statId, "room")
+        }
+      });
+    }
+  }
+
+  // Seeded after the rooms so adding them left every earlier ID unchanged.
+  const hallRoomId = roomIdByName.get("Living Room")!;
+  const thermostatId = nextId();
+  put({
+    id: thermostatId,
+    type: "thermostats",
+    attributes: {
+      name: "Hallway Thermostat",
+      "hvac-mode": "heat",
+      "fan-mode": "auto",
+      "hvac-state": "heating",
+      "heat-set-point-c": 21,
+      "cool-set-point-c": 25,
+      "current-temperature-c": 21.1,
+      "current-humidity": 41,
+      online: true,
+      "created-at": nowIso,
+      "updated-at": nowIso
+    },
+    relationships: {
+      room: toOne("rooms", hallRoomId, "thermostats", thermostatId, "room"),
+      structure: toOne("structures", structureId, "thermostats", thermostatId, "structure")
+    }
+  });
+
+  const officeRoomId = roomIdByName.get("Office")!;
+  const hvacUnitId = nextId();
+  put({
+    id: hvacUnitId,
+    type: "hvac-units",
+    attributes: {
+      name: "Office Mini-Split",
+      power: "On",
+      mode: "Heat",
+      "fan-speed": "Auto",
+      swing: "Off",
+      temperature: 70,
+      "temperature-scale": "F",
+      "created-at": nowIso,
+      "updated-at": nowIso
+    },
+    relationships: {
+      room: toOne("rooms", officeRoomId, "hvac-units", hvacUnitId, "room"),
+      structure: toOne("structures", structureId, "hvac-units", hvacUnitId, "structure")
+    }
+  });
+
+  // Not active, so the structure's set points are unaffected until a test activates it.
+  const scheduleId = nextId();
+  put({
+    id: scheduleId,
+    type: "schedules",
+    attributes: { name: "Weekday Comfort", "created-at": nowIso, "updated-at": nowIso },
+    relationships: {
+      structure: toOne("structures", structureId, "schedules", scheduleId, "structure")
+    }
+  });
+  const weekdays = ["monday", "tuesday", "wednesday", "thursday", "friday"];
+  const events = [
+    { days: weekdays, "start-time": "07:00", "set-point-c": 21, "room-set-points": [], home: true },
+    {
+      days: weekdays,
+      "start-time": "22:00",
+      "set-point-c": 18,
+      "room-set-points": [{ "room-id": roomIdByName.get("Kid's Room")!, "set-point-c": 20 }]
+    }
+  ];
+  for (const attributes of events) {
+    const eventId = nextId();
+    put({
+      id: eventId,
+      type: "schedule-events",
+      attributes: { ...attributes, "created-at": nowIso, "updated-at": nowIso },
+      relationships: {
+        schedule: toOne("schedules", scheduleId, "schedule-events", eventId, "schedule")
+      }
+    });
+  }
+
+  return { store, baseTempByRoom, nextId, rng };
+};
@@ -0,0 +1,420 @@
+import crypto from "node:crypto";
+import type { AddressInfo } from "node:net";
+import express, { type Express, type NextFunction, type Request, type Response } from "express";
+import type { JsonApiResource } from "../flairTypes.js";
+import { seedSimulatorStore, toOne, type SimulatorStore } from "./seed.js";
+
+const JSON_API = "application/vnd.api+json";
+
+export type FaultRule = {
+  status: number;
+  // Number of matching requests to fail; defaults to 1.
+  count?: number;
+  method?: string;
+  pathPrefix?: string;
+  retryAfterSec?: number;
+};
+
+export type FlairSimulatorOptions = {
+  seed?: number;
+  clientId?: string;
+  clientSecret?: string;
+  tokenTtlSec?: number;
+  pageSize?: number;
+  ventStateDelayMs?: number;
+  // Probability (0..1) that any API request fails with `faultStatus`.
+  faultRate?: number;
+  faultStatus?: number;
+  // Append a fresh room-stats row per room on this interval (0 disables).
+  statsIntervalMs?: number;
+};
+
+type ActiveFault = Required<Pick<FaultRule, "status">> & Omit<FaultRule, "status"> & { remaining: number };
+
+const jsonApiError = (res: Response, status: number, detail: string) =>
+  res.status(status).type(JSON_API).send(JSON.stringify({ errors: [{ status: String(status), detail }] }));
+
+const singular = (type: string) => type.replace(/s$/, "");
+
+const relationIds = (resource: JsonApiResource, name: string) => {
+  const data = resource.relationships?.[name]?.data;
+  if (!data) return [];
+  return Array.isArray(data) ? data.map((item) => item.id) : [data.id];
+};
+
+const compareBy = (field: string) => (a: JsonApiResource, b: JsonApiResource) => {
+  const left = a.attributes?.[field];
+  const right = b.attributes?.[field];
+  if (typeof left === "number" && typeof right === "number") return left - right;
+  return String(left ?? "").localeCompare(String(right ?? ""));
+};
+
+/**
+ * Local stand-in for the Flair API: OAuth client-credentials, JSON:API root links,
+ * paginated collections, PATCH/POST writes and delayed vent-state application.
+ * Control endpoints live under `/__sim` (state, faults, reset).
+ */
+export function createFlairSimulator(options: FlairSimulatorOptions = {}) {
+  const seed = options.seed ?? 42;
+  const pageSizeDefault = options.pageSize ?? 50;
+  const ventStateDelayMs = options.ventStateDelayMs ?? 1500;
+  const tokenTtlSec = options.tokenTtlSec ?? 3600;
+  const faultRate = options.faultRate ?? 0;
+  const faultStatus = options.faultStatus ?? 503;
+
+  let seeded = seedSimulatorStore(seed);
+  let store: SimulatorStore = seeded.store;
+  const tokens = new Map<string, number>();
+  const timers = new Set<NodeJS.Timeout>();
+  let faults: ActiveFault[] = [];
+  const requestCounts: Record<string, number> = {};
+
+  const schedule = (delayMs: number, fn: () => void) => {
+    const timer = setTimeout(() => {
+      timers.delete(timer);
+      fn();
+    }, delayMs);
+    timer.unref();
+    timers.add(timer);
+  };
+
+  const collection = (type: string) => {
+    let items = store.get(type);
+    if (!items) {
+      items = new Map();
+      store.set(type, items);
+    }
+    return items;
+  };
+
+  const touch = (resource: JsonApiResource) => {
+    resource.attributes = { ...(resource.attributes ?? {}), "updated-at": new Date().toISOString() };
+  };
+
+  const appendRoomStats = () => {
+    const ventsByRoom = new Map<string, number[]>();
+    for (const vent of collection("vents").values()) {
+      const roomId = relationIds(vent, "room")[0];
+      if (!roomId) continue;
+      const percentOpen = Number(vent.attributes?.["percent-open"] ?? 0);
+      ventsByRoom.set(roomId, [...(ventsByRoom.get(roomId) ?? []), percentOpen]);
+    }
+
+    const nowIso = new Date().toISOString();
+    for (const room of collection("rooms").values()) {
+      const base = seeded.baseTempByRoom.get(room.id) ?? 20;
+      const open = ventsByRoom.get(room.id) ?? [];
+      const avgOpen = open.length > 0 ? open.reduce((sum, v) => sum + v, 0) / open.length : 0;
+      const current = Number(room.attributes?.["current-temperature-c"] ?? base);
+      // Open vents pull the room toward base + 2C; closed vents let it settle at base.
+      const target = base + (2 * avgOpen) / 100;
+      const next = Number((current + (target - current) * 0.2 + (seeded.rng() - 0.5) * 0.1).toFixed(2));
+      room.attributes = { ...(room.attributes ?? {}), "current-temperature-c": next };
+
+      const statId = crypto.randomUUID();
+      collection("room-stats").set(statId, {
+        id: statId,
+        type: "room-stats",
+        attributes: {
+          "temperature-c": next,
+          humidity: Number((38 + seeded.rng() * 10).toFixed(1)),
+          "created-at": nowIso
+        },
+        relationships: {
+          room: toOne("rooms", room.id, "room-stats", statId, "room")
+        }
+      });
+    }
+  };
+
+  let statsTimer: NodeJS.Timeout | undefined;
+  if (options.statsIntervalMs && options.statsIntervalMs > 0) {
+    statsTimer = setInterval(appendRoomStats, options.statsIntervalMs);
+    statsTimer.unref();
+  }
+
+  const app: Express = express();
+  app.use(express.urlencoded({ extended: false }));
+  app.use(express.json({ type: ["application/json", JSON_API], limit: "1mb" }));
+
+  app.use((req, _res, next) => {
+    const key = `${req.method} ${req.path.split("/").slice(0, 3).join("/")}`;
+    requestCounts[key] = (requestCounts[key] ?? 0) + 1;
+    next();
+  });
+
+  // Fault injection applies to everything except the control endpoints.
+  app.use((req: Request, res: Response, next: NextFunction) => {
+    if (req.path.startsWith("/__sim")) return next();
+
+    const fault = faults.find(
+      (rule) =>
+        rule.remaining > 0 &&
+        (!rule.method || rule.method.toUpperCase() === req.method) &&
+        (!rule.pathPrefix || req.path.startsWith(rule.pathPrefix))
+    );
+    if (fault) {
+      fault.remaining -= 1;
+      faults = faults.filter((rule) => rule.remaining > 0);
+      if (typeof fault.retryAfterSec === "number") {
+        res.setHeader("Retry-After", String(fault.retryAfterSec));
+      }
+      return jsonApiError(res, fault.status, "Injected fault");
+    }
+
+    if (faultRate > 0 && seeded.rng() < faultRate) {
+      return jsonApiError(res, faultStatus, "Injected random fault");
+    }
+    next();
+  });
+
+  app.post("/oauth2/token", (req, res) => {
+    const body = (req.body ?? {}) as Record<string, string>;
+    if (body.grant_type !== "client_credentials") {
+      return res.status(400).json({ error: "unsupported_grant_type" });
+    }
+    if (
+      (options.clientId && body.client_id !== options.clientId) ||
+      (options.clientSecret && body.client_secret !== options.clientSecret)
+    ) {
+      return res.status(401).json({ error: "invalid_client" });
+    }
+
+    const token = crypto.randomBytes(24).toString("hex");
+    tokens.set(token, Date.now() + tokenTtlSec * 1000);
+    res.json({
+      access_token: token,
+      token_type: "bearer",
+      expires_in: tokenTtlSec,
+      scope: "structures.view structures.edit vents.view vents.edit rooms.view rooms.edit pucks.view"
+    });
+  });
+
+  app.use("/api", (req, res, next) => {
+    const match = (req.headers.authorization ?? "").match(/^Bearer\s+(.+)$/i);
+    const expiresAt = match ? tokens.get(match[1]) : undefined;
+    if (!expiresAt || expiresAt < Date.now()) {
+      return jsonApiError(res, 401, "Missing, invalid or expired access token");
+    }
+    res.type(JSON_API);
+    next();
+  });
+
+  app.get(["/api", "/api/"], (_req, res) => {
+    const links: Record<string, { self: string; type: string }> = {};
+    for (const type of Array.from(store.keys()).sort()) {
+      links[type] = { self: `/api/${type}`, type };
+    }
+    res.send(JSON.stringify({ links }));
+  });
+
+  app.get("/api/:type", (req, res) => {
+    const type = req.params.type;
+    if (!store.has(type)) return jsonApiError(res, 404, `Unknown resource type ${type}`);
+
+    let items = Array.from(collection(type).values());
+    for (const [key, value] of Object.entries(req.query)) {
+      const filter = key.match(/^filter\[(.+)\]$/);
+      if (filter && typeof value === "string") {
+        items = items.filter(
+          (item) => String(item.attributes?.[filter[1]] ?? "") === value || relationIds(item, filter[1]).includes(value)
+        );
+      }
+    }
+
+    const sort = typeof req.query.sort === "string" ? req.query.sort : undefined;
+    if (sort) {
+      const descending = sort.startsWith("-");
+      items.sort(compareBy(sort.replace(/^-/, "")));
+      if (descending) items.reverse();
+    }
+
+    const page = (req.query.page ?? {}) as Record<string, string>;
+    const pageNumber = Math.max(1, Number(page.number ?? req.query["page[number]"] ?? 1) || 1);
+    const pageSize = Math.max(1, Math.min(500, Number(page.size ?? req.query["page[size]"] ?? pageSizeDefault) || pageSizeDefault));
+    const start = (pageNumber - 1) * pageSize;
+    const data = items.slice(start, start + pageSize);
+
+    const pageLink = (n: number) => {
+      const params = new URLSearchParams();
+      params.set("page[number]", String(n));
+      params.set("page[size]", String(pageSize));
+      if (sort) params.set("sort", sort);
+      return `/api/${type}?${params.toString()}`;
+    };
+
+    res.send(
+      JSON.stringify({
+        data,
+        links: {
+          self: pageLink(pageNumber),
+          ...(start + pageSize < items.length ? { next: pageLink(pageNumber + 1) } : {})
+        },
+        meta: { total: items.length, "page-number": pageNumber, "page-size": pageSize }
+      })
+    );
+  });
+
+  app.get("/api/:type/:id", (req, res) => {
+    const resource = store.get(req.params.type)?.get(req.params.id);
+    if (!resource) return jsonApiError(res, 404, `${req.params.type}/${req.params.id} not found`);
+    res.send(JSON.stringify({ data: resource }));
+  });
+
+  app.get("/api/:type/:id/:relationship", (req, res) => {
+    const { type, id, relationship } = req.params;
+    const resource = store.get(type)?.get(id);
+    if (!resource) return jsonApiError(res, 404, `${type}/${id} not found`);
+
+    const declared = resource.relationships?.[relationship]?.data;
+    if (declared) {
+      const refs = Array.isArray(declared) ? declared : [declared];
+      const related = refs.map((ref) => store.get(ref.type)?.get(ref.id)).filter(Boolean);
+      return res.send(JSON.stringify({ data: Array.isArray(declared) ? related : related[0] ?? null }));
+    }
+
+    // Reverse lookup, e.g. /api/structures/:id/rooms -> rooms whose `structure` is :id.
+    if (store.has(relationship)) {
+      const related = Array.from(collection(relationship).values()).filter((item) =>
+        relationIds(item, singular(type)).includes(id)
+      );
+      return res.send(JSON.stringify({ data: related }));
+    }
+
+    jsonApiError(res, 404, `Unknown relationship ${relationship}`);
+  });
+
+  app.patch("/api/:type/:id", (req, res) => {
+    const { type, id } = req.params;
+    const resource = store.get(type)?.get(id);
+    if (!resource) return jsonApiError(res, 404, `${type}/${id} not found`);
+
+    const data = (req.body as { data?: { type?: string; id?: string; attributes?: Record<string, unknown> } })?.data;
+    if (!data || data.type !== type || (data.id && data.id !== id) || typeof data.attributes !== "object") {
+      return jsonApiError(res, 422, "Expected { data: { type, id, attributes } } matching the URL");
+    }
+
+    resource.attributes = { ...(resource.attributes ?? {}), ...data.attributes };
+    touch(resource);
+    res.send(JSON.stringify({ data: resource }));
+  });
+
+  app.post("/api/:type", (req, res) => {
+    const { type } = req.params;
+    const data = (req.body as { data?: Partial<JsonApiResource> })?.data;
+    if (!data || data.type !== type || typeof data.attributes !== "object") {
+      return jsonApiError(res, 422, "Expected { data: { type, attributes } } matching the URL");
+    }
+
+    if (type === "vent-states") {
+      const ventId = relationIds(data as JsonApiResource, "vent")[0];
+      const vent = ventId ? collection("vents").get(ventId) : undefined;
+      const percentOpen = Number(data.attributes?.["percent-open"]);
+      if (!vent) return jsonApiError(res, 422, "vent-states requires an existing vent relationship");
+      if (!Number.isInteger(percentOpen) || percentOpen < 0 || percentOpen > 100) {
+        return jsonApiError(res, 422, "percent-open must be an integer 0-100");
+      }
+
+      schedule(ventStateDelayMs, () => {
+        vent.attributes = { ...(vent.attributes ?? {}), "percent-open": percentOpen };
+        touch(vent);
+      });
+    }
+
+    const created: JsonApiResource = {
+      id: crypto.randomUUID(),
+      type,
+      attributes: { ...data.attributes, "created-at": new Date().toISOString() },
+      relationships: (data.relationships ?? {}) as JsonApiResource["relationships"]
+    };
+    collection(type).set(created.id, created);
+    res.status(201).send(JSON.stringify({ data: created }));
+  });
+
+  app.get("/__sim/state", (_req, res) => {
+    res.json({
+      counts: Object.fromEntries(Array.from(store.entries(), ([type, items]) => [type, items.size])),
+      faults,
+      pendingTimers: timers.size,
+      requestCounts
+    });
+  });
+
+  app.post("/__sim/faults", (req, res) => {
+    const rule = req.body as FaultRule;
+    if (!rule || !Number.isInteger(rule.status) || rule.status < 400 || rule.status > 599) {
+      return res.status(400).json({ error: "status must be an HTTP error code (400-599)" });
+    }
+    injectFault(rule);
+    res.status(201).json({ faults });
+  });
+
+  app.delete("/__sim/faults", (_req, res) => {
+    faults = [];
+    res.json({ faults });
+  });
+
+  app.post("/__sim/reset", (_req, res) => {
+    reset();
+    res.json({ ok: true });
+  });
+
+  const injectFault = (rule: FaultRule) => {
+    faults.push({ ...rule, remaining: rule.count ?? 1 });
+  };
+
+  const reset = () => {
+    for (const timer of timers) clearTimeout(timer);
+    timers.clear();
+    faults = [];
+    tokens.clear();
+    for (const key of Object.keys(requestCounts)) delete requestCounts[key];
+    seeded = seedSimulatorStore(seed);
+    store = seeded.store;
+  };
+
+  const close = () => {
+    for (const timer of timers) clearTimeout(timer);
+    timers.clear();
+    if (statsTimer) clearInterval(statsTimer);
+  };
+
+  return {
+    app,
+    injectFault,
+    reset,
+    close,
+    appendRoomStats,
+    list: (type: string) => Array.from(collection(type).values()),
+    get: (type: string, id: string) => store.get(type)?.get(id),
+    requestCounts
+  };
+}
+
+export type FlairSimulator = ReturnType<typeof createFlairSimulator>;
+
+export async function startFlairSimulator(options: FlairSimulatorOptions & { port?: number; host?: string } = {}) {
+  const simulator = createFlairSimulator(options);
+  const host = options.host ?? "127.0.0.1";
+  // Listen errors (EADDRINUSE, EACCES) arrive as an 'error' event, never through the callback.
+  const httpServer = await new Promise<ReturnType<Express["listen"]>>((resolve, reject) => {
+    const listening = simulator.app.listen(options.port ?? 0, host, () => {
+      listening.off("error", reject);
+      resolve(listening);
+    });
+    listening.once("error", reject);
+  }).catch((err: unknown) => {
+    simulator.close();
+    throw err;
+  });
+  const { port } = httpServer.address() as AddressInfo;
+
+  return {
+    ...simulator,
+    url: `http://${host}:${port}`,
+    close: async () => {
+      simulator.close();
+      await new Promise<void>((resolve) => httpServer.close(() => resolve()));
+    }
+  };
+}
@@ -0,0 +1,45 @@
+import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import { config } from "./config.js";
+import { logger } from "./logger.js";
+import { FlairApiClient } from "./flairApi.js";
+import { createFlairMcpServer, type FlairMcpServerOptions } from "./mcp.js";
+
+export async function startStdioServer(flairApi: FlairApiClient, shared: FlairMcpServerOptions = {}) {
+  const server = createFlairMcpServer(flairApi, {
+    ...shared,
+    clientKey: "stdio"
+  });
+  const transport = new StdioServerTransport();
+
+  const shutdown = async () => {
+    try {
+      await server.close();
+    } catch {
+      // ignore
+    }
+    process.exit(0);
+  };
+
+  transport.onclose = () => {
+    logger.info("MCP stdio transport closed");
+  };
+  process.stdin.on("end", () => {
+    shutdown().catch(() => process.exit(0));
+  });
+  process.on("SIGINT", () => {
+    shutdown().catch(() => process.exit(0));
+  });
+  process.on("SIGTERM", () => {
+    shutdown().catch(() => process.exit(0));
+  });
+
+  await server.connect(transport);
+
+  logger.info(
+    {
+      transport: "stdio",
+      writeToolsEnabled: config.writeToolsEnabled
+    },
+    "Flair MCP listening on stdio"
+  );
+}
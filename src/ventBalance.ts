@@ -0,0 +1,184 @@
+import type { VentPolicyConfig } from "./ventPolicy.js";
+
+export type BalanceDirection = "heating" | "cooling";
+
+export type BalanceRoom = {
+  id: string;
+  name?: string;
+  temperature_c?: number;
+  target_c?: number;
+  target_source?: "request" | "room" | "structure";
+  // Flair does not condition inactive rooms, so their vents are left alone.
+  active?: boolean;
+};
+
+export type BalanceVent = {
+  id: string;
+  name?: string;
+  room_id?: string;
+  structure_id?: string;
+  percent_open?: number;
+  inactive?: boolean;
+};
+
+export type VentBalanceOptions = {
+  direction: BalanceDirection;
+  // Rooms within this many °C of target keep their vents where they are.
+  deadbandC: number;
+  // Demand (°C) at which a vent is recommended fully open, or fully closed when over-served.
+  fullScaleC: number;
+  minPercent: number;
+  stepPercent: number;
+  // Room floors and the closed-vent limit are planned around so `apply` is not refused.
+  policy?: Pick<VentPolicyConfig, "maxClosedFraction" | "roomMinPercent">;
+};
+
+export type VentRecommendation = {
+  vent_id: string;
+  name?: string;
+  room_id?: string;
+  room_name?: string;
+  current_percent_open?: number;
+  recommended_percent_open: number;
+  action: "open" | "close" | "hold";
+  rationale: string;
+};
+
+const round = (value: number, digits = 2) => Number(value.toFixed(digits));
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+const actionFor = (current: number | undefined, percent: number): VentRecommendation["action"] =>
+  percent === current ? "hold" : percent > (current ?? 0) ? "open" : "close";
+
+/**
+ * Heating or cooling as reported by the structure, else whichever most rooms need: below target
+ * on average means heating.
+ */
+export const inferBalanceDirection = (
+  rooms: BalanceRoom[],
+  heatCoolMode?: string
+): { direction: BalanceDirection; source: "structure" | "temperatures" } => {
+  const mode = heatCoolMode?.toLowerCase();
+  if (mode === "heat") return { direction: "heating", source: "structure" };
+  if (mode === "cool") return { direction: "cooling", source: "structure" };
+  const gaps = rooms.flatMap((room) =>
+    typeof room.temperature_c === "number" && typeof room.target_c === "number" ? [room.target_c - room.temperature_c] : []
+  );
+  const meanGap = gaps.length > 0 ? gaps.reduce((sum, gap) => sum + gap, 0) / gaps.length : 0;
+  return { direction: meanGap >= 0 ? "heating" : "cooling", source: "temperatures" };
+};
+
+/**
+ * Recommends a percent-open per vent from each room's distance to its target. Pure: callers
+ * supply room and vent state. Demand is the °C a room is short of target in the current
+ * direction; it maps linearly onto 0-100% around a 50% midpoint, so rooms that overshoot close
+ * down and rooms that lag open up.
+ */
+export function recommendVentBalance(rooms: BalanceRoom[], vents: BalanceVent[], options: VentBalanceOptions) {
+  const roomsById = new Map(rooms.map((room) => [room.id, room]));
+  const demandByRoom = new Map<string, number>();
+  for (const room of rooms) {
+    if (typeof room.temperature_c !== "number" || typeof room.target_c !== "number") continue;
+    const gap = room.target_c - room.temperature_c;
+    demandByRoom.set(room.id, options.direction === "heating" ? gap : -gap);
+  }
+
+  const floorFor = (room?: BalanceRoom) => {
+    if (!room || !options.policy) return undefined;
+    const floors = options.policy.roomMinPercent;
+    return floors[room.id.toLowerCase()] ?? (room.name ? floors[room.name.toLowerCase()] : undefined);
+  };
+
+  const recommendations = vents.map((vent): VentRecommendation => {
+    const room = vent.room_id ? roomsById.get(vent.room_id) : undefined;
+    const demand = vent.room_id ? demandByRoom.get(vent.room_id) : undefined;
+    const current = vent.percent_open;
+    const base = {
+      vent_id: vent.id,
+      name: vent.name,
+      room_id: vent.room_id,
+      room_name: room?.name,
+      current_percent_open: current
+    };
+    const hold = (rationale: string): VentRecommendation => ({
+      ...base,
+      recommended_percent_open: current ?? 100,
+      action: "hold",
+      rationale
+    });
+
+    if (vent.inactive) return hold("Vent is inactive");
+    if (!room) return hold("Vent is not assigned to a known room");
+    if (room.active === false) return hold("Room is inactive, so Flair is not conditioning it");
+    if (typeof room.temperature_c !== "number") return hold("No temperature reading for the room");
+    if (typeof room.target_c !== "number" || demand === undefined) return hold("No target temperature for the room");
+
+    const gapText = `${room.name ?? room.id} is ${round(Math.abs(room.temperature_c - room.target_c))}°C ${
+      room.temperature_c < room.target_c ? "below" : "above"
+    } its ${room.target_c}°C target`;
+    if (Math.abs(demand) <= options.deadbandC) {
+      return hold(`${gapText}, within the ±${options.deadbandC}°C deadband`);
+    }
+
+    const raw = 50 + 50 * clamp(demand / options.fullScaleC, -1, 1);
+    let percent = clamp(Math.round(raw / options.stepPercent) * options.stepPercent, options.minPercent, 100);
+    let rationale = `${gapText} while ${options.direction}; ${demand > 0 ? "needs more" : "getting too much"} air`;
+    const floor = floorFor(room);
+    if (typeof floor === "number" && percent < floor) {
+      percent = floor;
+      rationale += `; held at the room's ${floor}% floor`;
+    }
+    return {
+      ...base,
+      recommended_percent_open: percent,
+      action: actionFor(current, percent),
+      rationale
+    };
+  });
+
+  // Reopen the least over-served closures until the structure is back within the closed-vent limit.
+  const maxClosedFraction = options.policy?.maxClosedFraction ?? 1;
+  if (maxClosedFraction < 1) {
+    const byStructure = new Map<string, number[]>();
+    vents.forEach((vent, index) => {
+      const key = vent.structure_id ?? "";
+      byStructure.set(key, [...(byStructure.get(key) ?? []), index]);
+    });
+    for (const indexes of byStructure.values()) {
+      const closedBefore = indexes.filter((index) => vents[index].percent_open === 0).length;
+      const allowed = Math.max(closedBefore, Math.floor(maxClosedFraction * indexes.length));
+      const closing = indexes
+        .filter((index) => recommendations[index].recommended_percent_open === 0 && vents[index].percent_open !== 0)
+        .sort(
+          (a, b) =>
+            (demandByRoom.get(vents[b].room_id ?? "") ?? 0) - (demandByRoom.get(vents[a].room_id ?? "") ?? 0)
+        );
+      let closedAfter = indexes.filter((index) => recommendations[index].recommended_percent_open === 0).length;
+      for (const index of closing) {
+        if (closedAfter <= allowed) break;
+        const recommendation = recommendations[index];
+        const reopened = Math.max(options.stepPercent, options.minPercent);
+        recommendation.recommended_percent_open = reopened;
+        recommendation.action = actionFor(recommendation.current_percent_open, reopened);
+        recommendation.rationale += `; kept ${reopened}% open to stay within the ${Math.round(maxClosedFraction * 100)}% closed-vent limit`;
+        closedAfter -= 1;
+      }
+    }
+  }
+
+  const roomRows = rooms.map((room) => {
+    const demand = demandByRoom.get(room.id);
+    return {
+      room_id: room.id,
+      room_name: room.name,
+      temperature_c: room.temperature_c,
+      target_c: room.target_c,
+      target_source: room.target_source,
+      demand_c: typeof demand === "number" ? round(demand) : undefined,
+      vent_count: vents.filter((vent) => vent.room_id === room.id).length
+    };
+  });
+
+  return { recommendations, rooms: roomRows };
+}
@@ -0,0 +1,141 @@
+import type { QuietHours } from "./config.js";
+
+export type VentPolicyConfig = {
+  // Largest share of a structure's vents that may be fully closed after a change (1 disables).
+  maxClosedFraction: number;
+  // Lowercased room name or room ID -> minimum percent-open.
+  roomMinPercent: Record<string, number>;
+  quietHours: QuietHours | null;
+  timeZone?: string;
+};
+
+export type VentChange = {
+  ventId: string;
+  percentOpen: number;
+};
+
+type VentState = {
+  id: string;
+  name?: string;
+  room_id?: string;
+  structure_id?: string;
+  percent_open?: number;
+};
+
+type RoomInfo = {
+  id: string;
+  name?: string;
+};
+
+export type VentPolicyRule = "quiet_hours" | "room_min_percent" | "max_closed_fraction";
+
+export type VentPolicyViolation = {
+  rule: VentPolicyRule;
+  message: string;
+  ventIds: string[];
+  roomId?: string;
+  structureId?: string;
+};
+
+export type VentPolicyDecision = {
+  allowed: boolean;
+  violations: VentPolicyViolation[];
+};
+
+const formatMinute = (minute: number) =>
+  `${String(Math.floor(minute / 60)).padStart(2, "0")}:${String(minute % 60).padStart(2, "0")}`;
+
+const minuteOfDay = (nowMs: number, timeZone?: string) => {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+    timeZone
+  }).formatToParts(new Date(nowMs));
+  const hour = Number(parts.find((part) => part.type === "hour")?.value ?? 0);
+  const minute = Number(parts.find((part) => part.type === "minute")?.value ?? 0);
+  return hour * 60 + minute;
+};
+
+export const isWithinQuietHours = (quietHours: QuietHours, nowMs: number, timeZone?: string) => {
+  const minute = minuteOfDay(nowMs, timeZone);
+  const { startMinute, endMinute } = quietHours;
+  return startMinute < endMinute
+    ? minute >= startMinute && minute < endMinute
+    : minute >= startMinute || minute < endMinute;
+};
+
+/**
+ * Checks proposed vent changes against the closure policy. Pure: callers supply current vent
+ * and room state. Opening vents never trips the closed-fraction rule, so a structure that is
+ * already over the limit can always be brought back under it.
+ */
+export function evaluateVentPolicy(
+  policy: VentPolicyConfig,
+  changes: VentChange[],
+  vents: VentState[],
+  rooms: RoomInfo[],
+  nowMs = Date.now()
+): VentPolicyDecision {
+  const violations: VentPolicyViolation[] = [];
+  const ventsById = new Map(vents.map((vent) => [vent.id, vent]));
+  const roomsById = new Map(rooms.map((room) => [room.id, room]));
+  const known = changes.filter((change) => ventsById.has(change.ventId));
+
+  if (policy.quietHours && known.length > 0 && isWithinQuietHours(policy.quietHours, nowMs, policy.timeZone)) {
+    const window = `${formatMinute(policy.quietHours.startMinute)}-${formatMinute(policy.quietHours.endMinute)}`;
+    violations.push({
+      rule: "quiet_hours",
+      message: `Vent changes are blocked during quiet hours (${window}${policy.timeZone ? ` ${policy.timeZone}` : ""})`,
+      ventIds: known.map((change) => change.ventId)
+    });
+  }
+
+  const belowFloorByRoom = new Map<string, { floor: number; roomName: string; ventIds: string[] }>();
+  for (const change of known) {
+    const roomId = ventsById.get(change.ventId)?.room_id;
+    if (!roomId) continue;
+    const roomName = roomsById.get(roomId)?.name;
+    const floor = policy.roomMinPercent[roomId.toLowerCase()] ?? (roomName ? policy.roomMinPercent[roomName.toLowerCase()] : undefined);
+    if (typeof floor !== "number" || change.percentOpen >= floor) continue;
+    const entry = belowFloorByRoom.get(roomId) ?? { floor, roomName: roomName ?? roomId, ventIds: [] };
+    entry.ventIds.push(change.ventId);
+    belowFloorByRoom.set(roomId, entry);
+  }
+  for (const [roomId, entry] of belowFloorByRoom) {
+    violations.push({
+      rule: "room_min_percent",
+      message: `${entry.roomName} vents must stay at least ${entry.floor}% open`,
+      ventIds: entry.ventIds,
+      roomId
+    });
+  }
+
+  if (policy.maxClosedFraction < 1) {
+    const targetById = new Map(known.map((change) => [change.ventId, change.percentOpen]));
+    const byStructure = new Map<string, VentState[]>();
+    for (const vent of vents) {
+      const key = vent.structure_id ?? "";
+      byStructure.set(key, [...(byStructure.get(key) ?? []), vent]);
+    }
+
+    for (const [structureId, structureVents] of byStructure) {
+      const closedBefore = structureVents.filter((vent) => vent.percent_open === 0).length;
+      const closedAfter = structureVents.filter((vent) => (targetById.get(vent.id) ?? vent.percent_open) === 0).length;
+      const closing = structureVents.filter((vent) => targetById.get(vent.id) === 0 && vent.percent_open !== 0);
+      if (closedAfter <= closedBefore || closedAfter / structureVents.length <= policy.maxClosedFraction) continue;
+
+      const percent = Math.round((closedAfter / structureVents.length) * 100);
+      violations.push({
+        rule: "max_closed_fraction",
+        message:
+          `This would leave ${closedAfter} of ${structureVents.length} vents closed (${percent}%), ` +
+          `above the ${Math.round(policy.maxClosedFraction * 100)}% limit that protects the ductwork`,
+        ventIds: closing.map((vent) => vent.id),
+        ...(structureId ? { structureId } : {})
+      });
+    }
+  }
+
+  return { allowed: violations.length === 0, violations };
+}
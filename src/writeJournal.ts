@@ -0,0 +1,128 @@
+import crypto from "node:crypto";
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { logger } from "./logger.js";
+
+// `vent_percent_open` changes are replayed as vent-states POSTs; `attributes` changes as PATCHes.
+export type JournalChangeKind = "vent_percent_open" | "attributes";
+
+export type JournalChange = {
+  kind: JournalChangeKind;
+  resourceType: string;
+  resourceId: string;
+  // Values of the written keys just before the write; null when they could not be read.
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown>;
+};
+
+export type JournalEntry = {
+  id: string;
+  at: string;
+  tool: string;
+  clientKey?: string;
+  status: "applied" | "failed" | "undone";
+  changes: JournalChange[];
+  error?: string;
+  // Set on entries created by `undo_change`.
+  undoOf?: string;
+  undoneAt?: string;
+  undoneBy?: string;
+};
+
+export type WriteJournalOptions = {
+  // Omit to keep the journal in memory only.
+  filePath?: string;
+  maxEntries: number;
+};
+
+/**
+ * Bounded record of write tool calls with the values they replaced, newest last.
+ * Persisted as one JSON document rewritten atomically (temp file + rename) after every change.
+ */
+export class WriteJournal {
+  private entries: JournalEntry[] = [];
+  private loaded: Promise<void> | null = null;
+  private persisting: Promise<void> = Promise.resolve();
+
+  constructor(private readonly options: WriteJournalOptions) {}
+
+  async record(entry: Omit<JournalEntry, "id" | "at">): Promise<JournalEntry> {
+    await this.ensureLoaded();
+    const recorded: JournalEntry = {
+      id: crypto.randomUUID().slice(0, 8),
+      at: new Date().toISOString(),
+      ...entry
+    };
+    this.entries.push(recorded);
+    if (this.entries.length > this.options.maxEntries) {
+      this.entries.splice(0, this.entries.length - this.options.maxEntries);
+    }
+    await this.persist();
+    return recorded;
+  }
+
+  async update(id: string, patch: Partial<Omit<JournalEntry, "id">>) {
+    await this.ensureLoaded();
+    const entry = this.entries.find((item) => item.id === id);
+    if (!entry) return undefined;
+    Object.assign(entry, patch);
+    await this.persist();
+    return entry;
+  }
+
+  async get(id: string) {
+    await this.ensureLoaded();
+    return this.entries.find((entry) => entry.id === id);
+  }
+
+  /** Newest first, optionally narrowed to one resource. */
+  async list(options?: { limit?: number; resourceType?: string; resourceId?: string }) {
+    await this.ensureLoaded();
+    const filtered = !!options?.resourceType || !!options?.resourceId;
+    const matches = this.entries.filter(
+      (entry) =>
+        !filtered ||
+        entry.changes.some(
+          (change) =>
+            (!options?.resourceType || change.resourceType === options.resourceType) &&
+            (!options?.resourceId || change.resourceId === options.resourceId)
+        )
+    );
+    return matches.reverse().slice(0, options?.limit ?? 20);
+  }
+
+  private ensureLoaded() {
+    this.loaded ??= this.load();
+    return this.loaded;
+  }
+
+  private async load() {
+    if (!this.options.filePath) return;
+    try {
+      const parsed = JSON.parse(await readFile(this.options.filePath, "utf8")) as { entries?: JournalEntry[] };
+      this.entries = Array.isArray(parsed.entries) ? parsed.entries.slice(-this.options.maxEntries) : [];
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== "ENOENT") {
+        logger.warn({ err, filePath: this.options.filePath }, "Could not read write journal; starting empty");
+      }
+    }
+  }
+
+  // Writes are chained so concurrent records never interleave on disk.
+  private persist() {
+    const filePath = this.options.filePath;
+    if (!filePath) return Promise.resolve();
+    const snapshot = JSON.stringify({ version: 1, entries: this.entries }, null, 2);
+    this.persisting = this.persisting.then(async () => {
+      try {
+        await mkdir(path.dirname(filePath), { recursive: true });
+        const tempPath = `${filePath}.${process.pid}.tmp`;
+        await writeFile(tempPath, snapshot, { encoding: "utf8", mode: 0o600 });
+        await rename(tempPath, filePath);
+      } catch (err) {
+        logger.warn({ err, filePath }, "Failed to persist write journal");
+      }
+    });
+    return this.persisting;
+  }
+}
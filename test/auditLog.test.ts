@@ -0,0 +1,76 @@
+import assert from "node:assert/strict";
+import { mkdtemp, readdir, readFile, rm } from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { after, before, describe, test } from "node:test";
+import { AuditLog, captureUpstreamWrites, noteUpstreamWrite, type AuditEvent } from "../src/auditLog.js";
+
+const event = (tool: string, at: string, outcome: AuditEvent["outcome"] = "ok"): AuditEvent => ({
+  at,
+  tool,
+  access: "read",
+  arguments: {},
+  dryRun: false,
+  outcome,
+  durationMs: 1,
+  upstream: []
+});
+
+describe("AuditLog", () => {
+  let dir: string;
+
+  before(async () => {
+    dir = await mkdtemp(path.join(os.tmpdir(), "flair-audit-"));
+  });
+
+  after(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  test("appends JSONL and filters newest first", async () => {
+    const filePath = path.join(dir, "filters", "audit.jsonl");
+    const log = new AuditLog({ filePath, maxBytes: 1024 * 1024, maxFiles: 2 });
+    void log.append(event("list_rooms", "2026-01-01T00:00:00.000Z"));
+    void log.append(event("set_room_active", "2026-01-02T00:00:00.000Z", "error"));
+    void log.append(event("list_rooms", "2026-01-03T00:00:00.000Z"));
+
+    const rooms = await log.query({ tool: "list_rooms" });
+    assert.deepEqual(rooms.map((entry) => entry.at), ["2026-01-03T00:00:00.000Z", "2026-01-01T00:00:00.000Z"]);
+    assert.equal((await log.query({ since: "2026-01-02T00:00:00Z", until: "2026-01-02T12:00:00Z" }))[0].tool, "set_room_active");
+    assert.equal((await log.query({ outcome: "error" })).length, 1);
+    assert.equal((await log.query({ limit: 1 })).length, 1);
+
+    const lines = (await readFile(filePath, "utf8")).trim().split("\n");
+    assert.deepEqual(
+      lines.map((line) => JSON.parse(line).tool),
+      ["list_rooms", "set_room_active", "list_rooms"]
+    );
+  });
+
+  test("rotates by size and keeps maxFiles rotated files", async () => {
+    const filePath = path.join(dir, "rotate", "audit.jsonl");
+    const log = new AuditLog({ filePath, maxBytes: 400, maxFiles: 2 });
+    for (let index = 0; index < 12; index += 1) {
+      await log.append(event(`tool_${index}`, new Date(Date.UTC(2026, 0, 1, 0, index)).toISOString()));
+    }
+
+    const files = (await readdir(path.dirname(filePath))).sort();
+    assert.deepEqual(files, ["audit.jsonl", "audit.jsonl.1", "audit.jsonl.2"]);
+    const entries = await log.query({ limit: 100 });
+    assert.equal(entries[0].tool, "tool_11");
+    assert.ok(entries.length < 12);
+    // Newest first across files, with no gaps between the active and rotated files.
+    entries.forEach((entry, index) => assert.equal(entry.tool, `tool_${11 - index}`));
+  });
+
+  test("captures upstream writes only inside the call that made them", async () => {
+    const captured = captureUpstreamWrites(async () => {
+      await Promise.resolve();
+      noteUpstreamWrite({ method: "PATCH", path: "/api/rooms/1", status: 200 });
+      return "done";
+    });
+    noteUpstreamWrite({ method: "POST", path: "/api/outside", status: 201 });
+    assert.equal(await captured.result, "done");
+    assert.deepEqual(captured.writes, [{ method: "PATCH", path: "/api/rooms/1", status: 200 }]);
+  });
+});
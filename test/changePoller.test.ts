@@ -0,0 +1,114 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { diffSnapshots, ResourceChangePoller, type ChangeSnapshot, type ResourceRef } from "../src/changePoller.js";
+
+const tick = (ms = 5) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe("diffSnapshots", () => {
+  test("reports changed, added and removed keys", () => {
+    const previous: ChangeSnapshot = new Map([
+      ["vents/a", "1"],
+      ["vents/b", "1"],
+      ["rooms/r", "x"]
+    ]);
+    const next: ChangeSnapshot = new Map([
+      ["vents/a", "2"],
+      ["rooms/r", "x"],
+      ["vents/c", "1"]
+    ]);
+    assert.deepEqual(diffSnapshots(previous, next), [
+      { resourceType: "vents", resourceId: "a" },
+      { resourceType: "vents", resourceId: "c" },
+      { resourceType: "vents", resourceId: "b" }
+    ]);
+  });
+});
+
+describe("ResourceChangePoller", () => {
+  test("records a baseline, then notifies listeners of changes", async () => {
+    let value = "1";
+    const poller = new ResourceChangePoller(async () => new Map([["vents/a", value]]), {
+      intervalMs: 60000,
+      maxIntervalMs: 60000
+    });
+    const seen: ResourceRef[][] = [];
+    const unsubscribe = poller.subscribe((changed) => seen.push(changed));
+    try {
+      await tick();
+      assert.equal(poller.getStatus().polls, 1);
+      assert.deepEqual(seen, []);
+
+      assert.deepEqual(await poller.pollNow(), []);
+      value = "2";
+      await poller.pollNow();
+      assert.deepEqual(seen, [[{ resourceType: "vents", resourceId: "a" }]]);
+    } finally {
+      unsubscribe();
+    }
+    assert.equal(poller.getStatus().running, false);
+  });
+
+  test("backs off after failures and resets on success", async () => {
+    let fail = true;
+    const poller = new ResourceChangePoller(
+      async () => {
+        if (fail) throw new Error("429");
+        return new Map();
+      },
+      { intervalMs: 1000, maxIntervalMs: 3000 }
+    );
+
+    await poller.pollNow();
+    assert.equal(poller.getStatus().intervalMs, 2000);
+    await poller.pollNow();
+    assert.equal(poller.getStatus().intervalMs, 3000);
+    assert.equal(poller.getStatus().lastError, "429");
+
+    fail = false;
+    await poller.pollNow();
+    assert.equal(poller.getStatus().intervalMs, 1000);
+    assert.equal(poller.getStatus().failures, 2);
+    assert.equal(poller.getStatus().lastError, null);
+  });
+
+  test("coalesces concurrent polls", async () => {
+    let loads = 0;
+    const poller = new ResourceChangePoller(
+      async () => {
+        loads += 1;
+        await tick();
+        return new Map();
+      },
+      { intervalMs: 60000, maxIntervalMs: 60000 }
+    );
+    await Promise.all([poller.pollNow(), poller.pollNow()]);
+    assert.equal(loads, 1);
+  });
+
+  test("ignores a poll that was in flight when the poller stopped", async () => {
+    const loads: Array<(snapshot: ChangeSnapshot) => void> = [];
+    const poller = new ResourceChangePoller(() => new Promise<ChangeSnapshot>((resolve) => loads.push(resolve)), {
+      intervalMs: 60000,
+      maxIntervalMs: 60000
+    });
+    const seen: ResourceRef[][] = [];
+    const unsubscribeFirst = poller.subscribe((changed) => seen.push(changed));
+    await tick();
+    unsubscribeFirst();
+    const unsubscribe = poller.subscribe((changed) => seen.push(changed));
+    try {
+      await tick();
+      assert.equal(loads.length, 2);
+      // The first run's poll lands after the restart; only the second run's poll is its baseline.
+      loads[0](new Map([["vents/a", "1"]]));
+      loads[1](new Map([["vents/a", "2"]]));
+      await tick();
+      const next = poller.pollNow();
+      loads[2](new Map([["vents/a", "2"]]));
+      assert.deepEqual(await next, []);
+      assert.deepEqual(seen, []);
+    } finally {
+      unsubscribe();
+    }
+  });
+});
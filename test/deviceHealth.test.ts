@@ -0,0 +1,46 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { assessDeviceHealth, type DeviceHealthThresholds } from "../src/deviceHealth.js";
+
+const thresholds: DeviceHealthThresholds = {
+  lowBatteryVoltage: 2.6,
+  lowBatteryPercent: 20,
+  weakRssiDbm: -80,
+  staleMinutes: 60
+};
+
+const nowMs = Date.parse("2026-02-01T12:00:00.000Z");
+
+describe("assessDeviceHealth", () => {
+  test("a healthy device has no issues", () => {
+    const result = assessDeviceHealth(
+      { online: true, battery_voltage: 3.0, rssi: -60, last_seen_at: "2026-02-01T11:30:00.000Z" },
+      thresholds,
+      nowMs
+    );
+    assert.deepEqual(result, { status: "ok", issues: [] });
+  });
+
+  test("flags every threshold and marks offline devices critical", () => {
+    const result = assessDeviceHealth(
+      { online: false, battery_voltage: 2.4, rssi: -88, last_seen_at: "2026-02-01T09:00:00.000Z" },
+      thresholds,
+      nowMs
+    );
+    assert.equal(result.status, "critical");
+    assert.deepEqual(
+      result.issues.map((entry) => entry.issue),
+      ["offline", "low_battery", "weak_signal", "stale"]
+    );
+    assert.equal(result.issues[3].detail, "Last seen 180 minutes ago (over 60)");
+  });
+
+  test("prefers a reported battery percent over voltage and ignores missing fields", () => {
+    const percent = assessDeviceHealth({ battery_percent: 12, battery_voltage: 3.1 }, thresholds, nowMs);
+    assert.equal(percent.status, "warning");
+    assert.equal(percent.issues[0].detail, "Battery at 12% (below 20%)");
+
+    assert.deepEqual(assessDeviceHealth({ battery_percent: 80, battery_voltage: 2.0 }, thresholds, nowMs).issues, []);
+    assert.deepEqual(assessDeviceHealth({}, thresholds, nowMs), { status: "ok", issues: [] });
+  });
+});
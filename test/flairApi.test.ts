@@ -0,0 +1,207 @@
+import assert from "node:assert/strict";
+import { afterEach, describe, test } from "node:test";
+import { FlairApiError, normalizeFlairError } from "../src/flairApi.js";
+import { createClient, startStubUpstream, startUpstream } from "./helpers.js";
+
+describe("FlairApiClient", () => {
+  const cleanups: Array<() => Promise<void>> = [];
+  afterEach(async () => {
+    while (cleanups.length > 0) await cleanups.pop()!();
+  });
+
+  test("follows links.next across pages", async () => {
+    const upstream = await startUpstream({ pageSize: 4 });
+    cleanups.push(upstream.close);
+
+    const result = await createClient().listResources("vents");
+
+    assert.equal(result.data.length, upstream.list("vents").length);
+    assert.equal(upstream.requestCounts["GET /api/vents"], Math.ceil(upstream.list("vents").length / 4));
+  });
+
+  test("slices to maxItems and stops paging once reached", async () => {
+    const upstream = await startUpstream();
+    cleanups.push(upstream.close);
+
+    const result = await createClient().listResources("room-stats", { pageSize: 10, maxItems: 25 });
+
+    assert.equal(result.data.length, 25);
+    assert.equal(upstream.requestCounts["GET /api/room-stats"], 3);
+  });
+
+  test("stops when an upstream next link repeats", async () => {
+    let calls = 0;
+    const upstream = await startStubUpstream(["loops"], (app) => {
+      app.get("/api/loops", (_req, res) => {
+        calls += 1;
+        res.json({
+          data: [{ id: `loop-${calls}`, type: "loops" }],
+          links: { next: "/api/loops?page[number]=2" }
+        });
+      });
+    });
+    cleanups.push(upstream.close);
+
+    const result = await createClient().listResources("loops");
+
+    // First page plus the one distinct next link; the repeat is detected and not fetched again.
+    assert.equal(calls, 2);
+    assert.deepEqual(
+      result.data.map((item) => item.id),
+      ["loop-1", "loop-2"]
+    );
+  });
+
+  test("retries 429 responses after the retry-after delay", async () => {
+    const upstream = await startUpstream();
+    cleanups.push(upstream.close);
+    const client = createClient();
+    await client.listResourceTypes();
+
+    upstream.injectFault({ status: 429, count: 1, method: "GET", pathPrefix: "/api/structures", retryAfterSec: 1 });
+    const startedAt = Date.now();
+    const result = await client.listStructures();
+
+    assert.equal(result.data.length, 1);
+    assert.ok(Date.now() - startedAt >= 900, "expected the client to honor retry-after");
+    assert.equal(upstream.requestCounts["GET /api/structures"], 2);
+  });
+
+  test("normalizes non-retryable upstream errors", async () => {
+    const upstream = await startUpstream();
+    cleanups.push(upstream.close);
+
+    const err = await createClient()
+      .getResource("vents", "missing-vent")
+      .then(
+        () => undefined,
+        (caught: unknown) => caught
+      );
+
+    assert.ok(err instanceof FlairApiError);
+    const normalized = normalizeFlairError(err);
+    assert.equal(normalized.statusCode, 404);
+    assert.equal(normalized.retryable, false);
+    assert.match(normalized.message, /GET .*missing-vent failed with status 404/);
+    assert.equal(upstream.requestCounts["GET /api/vents"], 1);
+  });
+
+  test("marks exhausted 5xx retries as retryable", async () => {
+    const upstream = await startUpstream();
+    cleanups.push(upstream.close);
+    const client = createClient();
+    await client.listResourceTypes();
+
+    upstream.injectFault({ status: 503, count: 5, pathPrefix: "/api/rooms" });
+    const err = await client.listRooms().then(
+      () => undefined,
+      (caught: unknown) => caught
+    );
+
+    assert.ok(err instanceof FlairApiError);
+    assert.equal(err.statusCode, 503);
+    assert.equal(err.retryable, true);
+    // Initial attempt plus FLAIR_RETRY_MAX=2 retries.
+    assert.equal(upstream.requestCounts["GET /api/rooms"], 3);
+  });
+
+  test("wraps network failures in FlairApiError", async () => {
+    const upstream = await startUpstream();
+    const client = createClient();
+    await client.listResourceTypes();
+    await upstream.close();
+
+    const err = await client.listVents().then(
+      () => undefined,
+      (caught: unknown) => caught
+    );
+
+    assert.ok(err instanceof FlairApiError);
+    assert.equal(err.statusCode, undefined);
+    assert.equal(err.retryable, true);
+  });
+
+  test("serves repeat GETs from cache and invalidates after writes", async () => {
+    const upstream = await startUpstream();
+    cleanups.push(upstream.close);
+    const client = createClient();
+    const [room] = upstream.list("rooms");
+
+    await Promise.all([client.listRooms(), client.listRooms()]);
+    await client.listRooms();
+    assert.equal(upstream.requestCounts["GET /api/rooms"], 1);
+
+    await client.updateResourceAttributes("rooms", room.id, { name: "Renamed" });
+    const after = await client.listRooms();
+    assert.equal(upstream.requestCounts["GET /api/rooms"], 2);
+    assert.equal(after.data.find((item) => item.id === room.id)?.attributes?.name, "Renamed");
+  });
+
+  test("verifies vent percent-open after the write lands", async () => {
+    const upstream = await startUpstream({ ventStateDelayMs: 30 });
+    cleanups.push(upstream.close);
+    const [vent] = upstream.list("vents");
+    const target = vent.attributes?.["percent-open"] === 100 ? 0 : 100;
+
+    const result = await createClient().setVentPercentOpenAndVerify(vent.id, target, 5, 20, 2);
+
+    assert.equal(result.ok, true);
+    assert.equal(result.actualPercentOpen, target);
+  });
+
+  test("reports attribute verification failures when the write never reads back", async () => {
+    const room = { id: "room-1", type: "rooms", attributes: { "set-point-c": 20 } };
+    const upstream = await startStubUpstream(["rooms"], (app) => {
+      app.patch("/api/rooms/:id", (_req, res) => {
+        res.json({ data: room });
+      });
+      app.get("/api/rooms/:id", (_req, res) => {
+        res.json({ data: room });
+      });
+    });
+    cleanups.push(upstream.close);
+
+    const result = await createClient().updateResourceAttributesAndVerify(
+      "rooms",
+      "room-1",
+      { "set-point-c": 22 },
+      { attempts: 2, initialDelayMs: 0, backoffMultiplier: 1 }
+    );
+
+    assert.equal(result.ok, false);
+    assert.equal(result.attemptsUsed, 2);
+    assert.deepEqual(result.actual, { "set-point-c": 20 });
+  });
+
+  test("change polls still cover rooms and vents when pucks cannot be listed", async () => {
+    const upstream = await startUpstream();
+    cleanups.push(upstream.close);
+    upstream.injectFault({ status: 403, count: 100, method: "GET", pathPrefix: "/api/pucks" });
+    const client = createClient();
+    const [vent] = upstream.list("vents");
+    const roomId = (vent.relationships?.room?.data as { id: string }).id;
+
+    assert.deepEqual(await client.pollResourceChanges(), []);
+    await client.updateResourceAttributes("vents", vent.id, { "percent-open": vent.attributes?.["percent-open"] === 50 ? 25 : 50 });
+    const changed = await client.pollResourceChanges();
+
+    assert.deepEqual(changed, [
+      { resourceType: "vents", resourceId: vent.id },
+      { resourceType: "rooms", resourceId: roomId }
+    ]);
+    assert.equal(client.getChangePollerStatus().failures, 0);
+    assert.ok(upstream.requestCounts["GET /api/pucks"] >= 1);
+  });
+
+  test("history samples still record rooms and vents when pucks cannot be listed", async () => {
+    const upstream = await startUpstream();
+    cleanups.push(upstream.close);
+    upstream.injectFault({ status: 404, count: 100, method: "GET", pathPrefix: "/api/pucks" });
+
+    const samples = await createClient().loadHistorySamples();
+
+    assert.equal(samples.filter((sample) => sample.kind === "room").length, upstream.list("rooms").length);
+    assert.equal(samples.filter((sample) => sample.kind === "vent").length, upstream.list("vents").length);
+    assert.equal(samples.filter((sample) => sample.kind === "device").length, 0);
+  });
+});
@@ -0,0 +1,73 @@
+import type { AddressInfo } from "node:net";
+import { Client, type ClientOptions } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import express, { type Express } from "express";
+import { config } from "../src/config.js";
+import { FlairTokenManager } from "../src/flairAuth.js";
+import { FlairApiClient } from "../src/flairApi.js";
+import { createFlairMcpServer, type FlairMcpServerOptions } from "../src/mcp.js";
+import { startFlairSimulator, type FlairSimulatorOptions } from "../src/simulator/server.js";
+
+export type Upstream = Awaited<ReturnType<typeof startFlairSimulator>>;
+
+/** Starts the simulator on a random port and points the client config at it. */
+export async function startUpstream(options: FlairSimulatorOptions = {}): Promise<Upstream> {
+  const upstream = await startFlairSimulator({ ventStateDelayMs: 20, ...options });
+  config.flairApiBaseUrl = upstream.url;
+  return upstream;
+}
+
+/**
+ * Minimal hand-rolled upstream for shapes the simulator never produces (e.g. pagination loops).
+ * Token and root-link endpoints are provided; `configure` adds the resource routes.
+ */
+export async function startStubUpstream(resourceTypes: string[], configure: (app: Express) => void) {
+  const app = express();
+  app.post("/oauth2/token", (_req, res) => {
+    res.json({ access_token: "stub-token", token_type: "bearer", expires_in: 3600 });
+  });
+  app.get("/api/", (_req, res) => {
+    res.json({ links: Object.fromEntries(resourceTypes.map((type) => [type, { self: `/api/${type}`, type }])) });
+  });
+  configure(app);
+
+  const server = await new Promise<ReturnType<Express["listen"]>>((resolve) => {
+    const listening = app.listen(0, "127.0.0.1", () => resolve(listening));
+  });
+  const { port } = server.address() as AddressInfo;
+  config.flairApiBaseUrl = `http://127.0.0.1:${port}`;
+
+  return {
+    url: config.flairApiBaseUrl,
+    close: () => new Promise<void>((resolve) => server.close(() => resolve()))
+  };
+}
+
+export const createClient = () => new FlairApiClient(new FlairTokenManager(config.tokenSkewSec));
+
+/** Connects an MCP client to a fresh server over an in-memory transport. */
+export async function connect(options?: FlairMcpServerOptions, flairApi = createClient(), clientOptions?: ClientOptions) {
+  const server = createFlairMcpServer(flairApi, options);
+  const client = new Client({ name: "flair-mcp-test", version: "0.0.0" }, clientOptions);
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+  return {
+    client,
+    call: async (name: string, args: Record<string, unknown> = {}) => {
+      const result = await client.callTool({ name, arguments: args });
+      return result as { content?: unknown; isError?: boolean };
+    },
+    close: async () => {
+      await client.close();
+      await server.close();
+    }
+  };
+}
+
+/** Parses the JSON text payload produced by `toJsonOutput`. */
+export const parseToolJson = (result: { content?: unknown }) => {
+  const content = result.content as Array<{ type: string; text?: string }> | undefined;
+  const text = content?.find((item) => item.type === "text")?.text;
+  if (typeof text !== "string") throw new Error("Tool result has no text content");
+  return JSON.parse(text) as Record<string, any>;
+};
@@ -0,0 +1,211 @@
+import assert from "node:assert/strict";
+import { mkdir, mkdtemp, readdir, rm, writeFile } from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { after, before, describe, test } from "node:test";
+import { HistoryRecorder } from "../src/historyRecorder.js";
+import { HistoryStore, type HistorySample } from "../src/historyStore.js";
+
+const ms = (iso: string) => Date.parse(iso);
+
+const roomSample = (at: string, id: string, temperatureC: number): HistorySample => ({
+  at,
+  kind: "room",
+  resourceType: "rooms",
+  id,
+  name: id === "r1" ? "Nursery" : "Office",
+  values: { temperature_c: temperatureC }
+});
+
+const ventSample = (at: string, id: string, roomId: string, percentOpen: number, online: boolean): HistorySample => ({
+  at,
+  kind: "vent",
+  resourceType: "vents",
+  id,
+  roomId,
+  values: { percent_open: percentOpen, online }
+});
+
+describe("HistoryStore", () => {
+  let dir: string;
+
+  before(async () => {
+    dir = await mkdtemp(path.join(os.tmpdir(), "flair-history-"));
+  });
+
+  after(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  test("writes one file per day and queries across them", async () => {
+    const store = new HistoryStore({ directory: path.join(dir, "days"), retentionDays: 30 });
+    void store.append([roomSample("2026-01-01T23:30:00.000Z", "r1", 21), roomSample("2026-01-01T23:30:00.000Z", "r2", 19)]);
+    await store.append([roomSample("2026-01-02T00:10:00.000Z", "r1", 20), roomSample("2026-01-02T00:40:00.000Z", "r1", 19.5)]);
+
+    assert.deepEqual(await readdir(path.join(dir, "days")), ["2026-01-01.jsonl", "2026-01-02.jsonl"]);
+
+    const raw = await store.query({
+      sinceMs: ms("2026-01-01T00:00:00Z"),
+      untilMs: ms("2026-01-03T00:00:00Z"),
+      metric: "temperature_c",
+      roomIds: ["r1"]
+    });
+    assert.equal(raw.series.length, 1);
+    assert.deepEqual(
+      raw.series[0].points.map((point) => point.value),
+      [21, 20, 19.5]
+    );
+    assert.deepEqual(raw.series[0].summary, {
+      samples: 3,
+      first_at: "2026-01-01T23:30:00.000Z",
+      last_at: "2026-01-02T00:40:00.000Z",
+      min: 19.5,
+      max: 21,
+      mean: 20.167,
+      latest: 19.5
+    });
+
+    const hourly = await store.query({
+      sinceMs: ms("2026-01-02T00:00:00Z"),
+      untilMs: ms("2026-01-03T00:00:00Z"),
+      metric: "temperature_c",
+      bucketMs: 60 * 60 * 1000,
+      aggregation: "min"
+    });
+    assert.deepEqual(hourly.series[0].points, [{ at: "2026-01-02T00:00:00.000Z", value: 19.5, samples: 2 }]);
+  });
+
+  test("filters vents by room and averages online state", async () => {
+    const store = new HistoryStore({ directory: path.join(dir, "vents"), retentionDays: 30 });
+    void store.append([
+      ventSample("2026-01-05T10:00:00.000Z", "v1", "r1", 100, true),
+      ventSample("2026-01-05T10:00:00.000Z", "v2", "r2", 0, true),
+      roomSample("2026-01-05T10:00:00.000Z", "r1", 21)
+    ]);
+    void store.append([ventSample("2026-01-05T10:05:00.000Z", "v1", "r1", 50, false)]);
+
+    const window = { sinceMs: ms("2026-01-05T00:00:00Z"), untilMs: ms("2026-01-06T00:00:00Z") };
+    const open = await store.query({ ...window, metric: "percent_open", roomIds: ["r1"] });
+    assert.deepEqual(
+      open.series.map((series) => series.id),
+      ["v1"]
+    );
+    assert.equal(open.series[0].room_id, "r1");
+
+    const online = await store.query({ ...window, metric: "online", ids: ["v1"], bucketMs: 60 * 60 * 1000 });
+    assert.equal(online.series[0].points[0].value, 0.5);
+
+    const limited = await store.query({ ...window, metric: "percent_open", ids: ["v1"], maxPoints: 1 });
+    assert.deepEqual(limited.series[0].points, [{ at: "2026-01-05T10:05:00.000Z", value: 50 }]);
+    assert.equal(limited.series[0].truncated, true);
+  });
+
+  test("summarizes long windows without spreading every value", async () => {
+    const directory = path.join(dir, "long");
+    const store = new HistoryStore({ directory, retentionDays: 30 });
+    // Two days at one sample a second: past the point where Math.min(...values) overflows the stack.
+    const startMs = ms("2026-02-01T00:00:00Z");
+    const count = 2 * 24 * 60 * 60;
+    const lines = Array.from({ length: count }, (_, index) =>
+      JSON.stringify(roomSample(new Date(startMs + index * 1000).toISOString(), "r1", 15 + (index % 100) / 10))
+    );
+    await mkdir(directory);
+    await writeFile(path.join(directory, "2026-02-01.jsonl"), `${lines.slice(0, count / 2).join("\n")}\n`);
+    await writeFile(path.join(directory, "2026-02-02.jsonl"), `${lines.slice(count / 2).join("\n")}\n`);
+
+    const window = { sinceMs: startMs, untilMs: startMs + count * 1000, metric: "temperature_c" as const };
+    const raw = await store.query({ ...window, maxPoints: 3 });
+    assert.deepEqual(raw.series[0].summary, {
+      samples: count,
+      first_at: "2026-02-01T00:00:00.000Z",
+      last_at: "2026-02-02T23:59:59.000Z",
+      min: 15,
+      max: 24.9,
+      mean: 19.95,
+      latest: 24.9
+    });
+    assert.deepEqual(
+      raw.series[0].points.map((point) => point.at),
+      ["2026-02-02T23:59:57.000Z", "2026-02-02T23:59:58.000Z", "2026-02-02T23:59:59.000Z"]
+    );
+    assert.equal(raw.series[0].truncated, true);
+
+    const hourly = await store.query({ ...window, bucketMs: 60 * 60 * 1000, aggregation: "max", maxPoints: 30 });
+    assert.equal(hourly.series[0].points.length, 30);
+    assert.equal(hourly.series[0].points[0].at, "2026-02-01T18:00:00.000Z");
+    assert.deepEqual(hourly.series[0].points[29], { at: "2026-02-02T23:00:00.000Z", value: 24.9, samples: 3600 });
+    assert.equal(hourly.series[0].truncated, true);
+  });
+
+  test("prunes day files past retention", async () => {
+    const directory = path.join(dir, "prune");
+    const store = new HistoryStore({ directory, retentionDays: 2 });
+    await store.append([
+      roomSample("2026-03-01T12:00:00.000Z", "r1", 20),
+      roomSample("2026-03-04T12:00:00.000Z", "r1", 20),
+      roomSample("2026-03-05T12:00:00.000Z", "r1", 20)
+    ]);
+
+    assert.equal(await store.prune(ms("2026-03-05T18:00:00Z")), 1);
+    assert.deepEqual(await readdir(directory), ["2026-03-04.jsonl", "2026-03-05.jsonl"]);
+    assert.equal((await store.getStatus()).oldestDay, "2026-03-04");
+  });
+});
+
+describe("HistoryRecorder", () => {
+  test("records snapshots and backs off after failures", async () => {
+    const dir = await mkdtemp(path.join(os.tmpdir(), "flair-history-recorder-"));
+    const store = new HistoryStore({ directory: dir, retentionDays: 30 });
+    let fail = false;
+    const recorder = new HistoryRecorder(
+      async () => {
+        if (fail) throw new Error("upstream down");
+        return [roomSample(new Date().toISOString(), "r1", 20)];
+      },
+      store,
+      { intervalMs: 1000, maxIntervalMs: 3000 }
+    );
+    try {
+      assert.equal(await recorder.recordNow(), 1);
+      fail = true;
+      assert.equal(await recorder.recordNow(), 0);
+      assert.equal(await recorder.recordNow(), 0);
+
+      const status = recorder.getStatus();
+      assert.equal(status.snapshots, 3);
+      assert.equal(status.failures, 2);
+      assert.equal(status.samplesWritten, 1);
+      assert.equal(status.intervalMs, 3000);
+      assert.equal(status.lastError, "upstream down");
+    } finally {
+      recorder.stop();
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  test("counts a failed disk write and keeps writing afterwards", async () => {
+    const dir = await mkdtemp(path.join(os.tmpdir(), "flair-history-recorder-"));
+    // A plain file where the history directory should be makes every append fail.
+    const blocked = path.join(dir, "blocked");
+    await writeFile(blocked, "");
+    const store = new HistoryStore({ directory: blocked, retentionDays: 30 });
+    const recorder = new HistoryRecorder(async () => [roomSample(new Date().toISOString(), "r1", 20)], store, {
+      intervalMs: 1000,
+      maxIntervalMs: 3000
+    });
+    try {
+      assert.equal(await recorder.recordNow(), 0);
+      const status = recorder.getStatus();
+      assert.equal(status.failures, 1);
+      assert.equal(status.samplesWritten, 0);
+      assert.match(status.lastError ?? "", /EEXIST|ENOTDIR/);
+
+      await rm(blocked);
+      assert.equal(await recorder.recordNow(), 1);
+      assert.equal(recorder.getStatus().lastError, null);
+    } finally {
+      recorder.stop();
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
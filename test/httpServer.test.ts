@@ -0,0 +1,155 @@
+import assert from "node:assert/strict";
+import { request } from "node:http";
+import type { AddressInfo } from "node:net";
+import { after, before, describe, test } from "node:test";
+import { config } from "../src/config.js";
+import { hashApiKey } from "../src/auth.js";
+import { createHttpApp } from "../src/httpServer.js";
+import { createClient, startUpstream, type Upstream } from "./helpers.js";
+
+const initializeBody = {
+  jsonrpc: "2.0",
+  id: 1,
+  method: "initialize",
+  params: {
+    protocolVersion: "2025-03-26",
+    capabilities: {},
+    clientInfo: { name: "flair-mcp-test", version: "0.0.0" }
+  }
+};
+
+// Streamable HTTP may answer with SSE; pull the first JSON-RPC message out either way.
+const readRpc = async (response: Response) => {
+  const text = await response.text();
+  if (!text) return undefined;
+  if ((response.headers.get("content-type") ?? "").includes("text/event-stream")) {
+    const data = text
+      .split("\n")
+      .find((line) => line.startsWith("data: "))
+      ?.slice("data: ".length);
+    return data ? JSON.parse(data) : undefined;
+  }
+  return JSON.parse(text);
+};
+
+describe("HTTP /mcp session lifecycle", () => {
+  let upstream: Upstream;
+  let http: ReturnType<typeof createHttpApp>;
+  let listener: ReturnType<ReturnType<typeof createHttpApp>["app"]["listen"]>;
+  let baseUrl: string;
+
+  const post = (body: unknown, headers: Record<string, string> = {}) =>
+    fetch(`${baseUrl}${config.mcpPath}`, {
+      method: "POST",
+      headers: {
+        "content-type": "application/json",
+        accept: "application/json, text/event-stream",
+        ...headers
+      },
+      body: JSON.stringify(body)
+    });
+
+  const initialize = async (headers: Record<string, string> = {}) => {
+    const response = await post(initializeBody, headers);
+    assert.equal(response.status, 200);
+    await readRpc(response);
+    const sessionId = response.headers.get("mcp-session-id");
+    assert.ok(sessionId);
+    await post({ jsonrpc: "2.0", method: "notifications/initialized" }, { "mcp-session-id": sessionId, ...headers });
+    return sessionId;
+  };
+
+  before(async () => {
+    upstream = await startUpstream();
+    http = createHttpApp(createClient());
+    listener = await new Promise((resolve) => {
+      const server = http.app.listen(0, "127.0.0.1", () => resolve(server));
+    });
+    baseUrl = `http://127.0.0.1:${(listener.address() as AddressInfo).port}`;
+  });
+
+  after(async () => {
+    for (const sessionId of Array.from(http.sessions.keys())) {
+      await http.closeSession(sessionId);
+    }
+    await new Promise<void>((resolve) => listener.close(() => resolve()));
+    await upstream.close();
+  });
+
+  test("initialize creates a session", async () => {
+    const before = http.sessions.size;
+    const sessionId = await initialize();
+    assert.equal(http.sessions.size, before + 1);
+    assert.ok(http.sessions.has(sessionId));
+  });
+
+  test("requests with a known session ID reuse it", async () => {
+    const sessionId = await initialize();
+    const sizeAfterInit = http.sessions.size;
+    const firstSeen = http.sessions.get(sessionId)!.lastSeenAt;
+
+    const response = await post({ jsonrpc: "2.0", id: 2, method: "tools/list" }, { "mcp-session-id": sessionId });
+    assert.equal(response.status, 200);
+    const message = await readRpc(response);
+    assert.ok(message.result.tools.some((tool: { name: string }) => tool.name === "list_rooms"));
+    assert.equal(http.sessions.size, sizeAfterInit);
+    assert.ok(http.sessions.get(sessionId)!.lastSeenAt >= firstSeen);
+  });
+
+  test("unknown session IDs are rejected with 400", async () => {
+    const response = await post({ jsonrpc: "2.0", id: 3, method: "tools/list" }, { "mcp-session-id": "not-a-session" });
+    assert.equal(response.status, 400);
+    const body = await response.json();
+    assert.equal(body.error.code, -32000);
+  });
+
+  test("non-initialize requests without a session are rejected with 400", async () => {
+    const response = await post({ jsonrpc: "2.0", id: 4, method: "tools/list" });
+    assert.equal(response.status, 400);
+  });
+
+  test("stale sessions are closed by cleanup", async () => {
+    const sessionId = await initialize();
+    assert.ok(http.sessions.has(sessionId));
+
+    await http.cleanupStaleSessions(Date.now() + 31 * 60 * 1000);
+    assert.equal(http.sessions.has(sessionId), false);
+
+    const response = await post({ jsonrpc: "2.0", id: 5, method: "tools/list" }, { "mcp-session-id": sessionId });
+    assert.equal(response.status, 400);
+  });
+
+  test("host allowlist is enforced", async () => {
+    // fetch() will not override Host, so use node:http directly.
+    const status = await new Promise<number | undefined>((resolve, reject) => {
+      const req = request(
+        `${baseUrl}${config.mcpPath}`,
+        { method: "POST", headers: { "content-type": "application/json", host: "evil.example" } },
+        (res) => {
+          res.resume();
+          resolve(res.statusCode);
+        }
+      );
+      req.on("error", reject);
+      req.end(JSON.stringify(initializeBody));
+    });
+    assert.equal(status, 403);
+  });
+
+  test("API keys gate the endpoint when configured", async () => {
+    const saved = config.apiKeys;
+    config.apiKeys = [{ label: "tests", sha256: hashApiKey("s3cret"), scope: "read" }];
+    try {
+      const denied = await post(initializeBody);
+      assert.equal(denied.status, 401);
+      const body = await denied.json();
+      assert.equal(body.jsonrpc, "2.0");
+      assert.equal(body.error.code, -32001);
+
+      const sessionId = await initialize({ authorization: "Bearer s3cret" });
+      assert.equal(http.sessions.get(sessionId)?.client?.label, "tests");
+    } finally {
+      config.apiKeys = saved;
+    }
+  });
+});
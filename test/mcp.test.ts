@@ -0,0 +1,1120 @@
+import assert from "node:assert/strict";
+import { mkdtemp, rm } from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { after, before, describe, test } from "node:test";
+import { ElicitRequestSchema } from "@modelcontextprotocol/sdk/types.js";
+import { AuditLog } from "../src/auditLog.js";
+import { HistoryRecorder } from "../src/historyRecorder.js";
+import { HistoryStore } from "../src/historyStore.js";
+import { config } from "../src/config.js";
+import { ToolRateLimiter } from "../src/rateLimit.js";
+import { RuleEngine } from "../src/ruleEngine.js";
+import { RuleStore } from "../src/ruleStore.js";
+import { SceneStore } from "../src/sceneStore.js";
+import type { VentRecommendation } from "../src/ventBalance.js";
+import { WriteJournal } from "../src/writeJournal.js";
+import { connect, createClient, parseToolJson, startUpstream, type Upstream } from "./helpers.js";
+
+const readTools = [
+  "health_check",
+  "resolve_name",
+  "list_resource_types",
+  "list_structures",
+  "get_structure_status",
+  "list_rooms",
+  "list_vents",
+  "list_devices",
+  "list_named_devices",
+  "list_thermostats",
+  "list_hvac_units",
+  "list_schedules",
+  "list_room_temperatures",
+  "get_room_temperature_history",
+  "recommend_vent_balance",
+  "device_health_report",
+  "list_device_room_temperatures",
+  "list_vents_with_room_temperatures",
+  "list_open_vents_in_cold_rooms",
+  "list_vents_by_room_temperature",
+  "list_resources",
+  "get_resource",
+  "get_related_resources"
+];
+
+const writeTools = [
+  "update_resource_attributes",
+  "create_resource",
+  "set_vent_percent_open",
+  "set_vent_percent_open_and_verify",
+  "set_vents_percent_open",
+  "set_structure_mode",
+  "set_structure_home_away",
+  "set_structure_setpoint",
+  "set_room_setpoint",
+  "set_room_active",
+  "set_room_hold",
+  "set_hvac_unit_power",
+  "set_hvac_unit_mode",
+  "set_hvac_unit_fan_speed",
+  "set_hvac_unit_setpoint",
+  "create_schedule",
+  "create_schedule_event",
+  "update_schedule_event",
+  "activate_schedule"
+];
+
+describe("createFlairMcpServer tools", () => {
+  let upstream: Upstream;
+  let session: Awaited<ReturnType<typeof connect>>;
+  let structureId: string;
+  let roomId: string;
+  let ventId: string;
+
+  before(async () => {
+    upstream = await startUpstream();
+    session = await connect();
+    structureId = upstream.list("structures")[0].id;
+    const vent = upstream.list("vents")[0];
+    ventId = vent.id;
+    roomId = String((vent.relationships?.room?.data as { id: string }).id);
+  });
+
+  after(async () => {
+    await session.close();
+    await upstream.close();
+  });
+
+  test("registers every read and write tool", async () => {
+    const { tools } = await session.client.listTools();
+    assert.deepEqual(tools.map((tool) => tool.name).sort(), [...readTools, ...writeTools].sort());
+  });
+
+  test("hides write tools when the session is read-only", async () => {
+    const readOnly = await connect({ writeToolsEnabled: false });
+    try {
+      const { tools } = await readOnly.client.listTools();
+      assert.deepEqual(tools.map((tool) => tool.name).sort(), [...readTools].sort());
+    } finally {
+      await readOnly.close();
+    }
+  });
+
+  test("health_check reports upstream reachability", async () => {
+    const body = parseToolJson(await session.call("health_check"));
+    assert.equal(body.ok, true);
+    assert.ok(body.resourceTypeCount > 0);
+  });
+
+  test("list_resource_types, list_structures, list_rooms and list_vents", async () => {
+    const types = parseToolJson(await session.call("list_resource_types")) as unknown as Array<{ name: string }>;
+    assert.ok(types.some((type) => type.name === "vents"));
+
+    const structures = parseToolJson(await session.call("list_structures"));
+    assert.equal(structures.data[0].id, structureId);
+
+    const rooms = parseToolJson(await session.call("list_rooms", { structure_id: structureId }));
+    assert.equal(rooms.data.length, upstream.list("rooms").length);
+
+    const vents = parseToolJson(await session.call("list_vents", { room_id: roomId }));
+    assert.ok(vents.data.every((vent: any) => vent.relationships.room.data.id === roomId));
+  });
+
+  test("resolve_name and *_name arguments accept human-friendly names", async () => {
+    const kids = upstream.list("rooms").find((room) => room.attributes?.name === "Kid's Room")!;
+    const resolved = parseToolJson(await session.call("resolve_name", { name: "kids room" }));
+    assert.equal(resolved.status, "matched");
+    assert.deepEqual([resolved.match.id, resolved.match.type], [kids.id, "rooms"]);
+
+    const vents = parseToolJson(await session.call("list_vents", { room_name: "kid's room" }));
+    assert.ok(vents.data.length > 0);
+    assert.ok(vents.data.every((vent: any) => vent.relationships.room.data.id === kids.id));
+
+    const kitchenVent = upstream.list("vents").find((vent) => vent.attributes?.name === "Kitchen Vent")!;
+    const dryRun = parseToolJson(
+      await session.call("set_vent_percent_open", { vent_name: "kitchen vent", percent_open: 40, dry_run: true })
+    );
+    assert.equal(dryRun.payload.relationships.vent.data.id, kitchenVent.id);
+
+    const ambiguous = await session.call("set_vent_percent_open", { vent_name: "office vent", percent_open: 40, dry_run: true });
+    assert.equal(ambiguous.isError, true);
+    const body = parseToolJson(ambiguous);
+    assert.equal(body.error, "ambiguous_name");
+    assert.equal(body.resource_type, "vents");
+    assert.deepEqual(body.candidates.map((candidate: any) => candidate.name).sort(), ["Office Vent 1", "Office Vent 2"]);
+
+    const missing = parseToolJson(await session.call("set_room_setpoint", { room_name: "Garage", set_point_c: 20 }));
+    assert.equal(missing.error, "name_not_found");
+
+    const neither = await session.call("set_room_active", { active: true });
+    assert.equal(neither.isError, true);
+  });
+
+  test("list_devices surfaces upstream errors as tool errors", async () => {
+    // The simulator has no generic `devices` collection.
+    const result = await session.call("list_devices");
+    assert.equal(result.isError, true);
+  });
+
+  test("list_named_devices resolves names per type", async () => {
+    const body = parseToolJson(await session.call("list_named_devices", { resource_types: ["vents", "pucks"] }));
+    assert.equal(body.summary.by_type.vents.count, upstream.list("vents").length);
+    assert.equal(body.summary.by_type.pucks.count, upstream.list("pucks").length);
+    assert.ok(body.devices.every((device: any) => device.name_source === "api"));
+  });
+
+  test("room temperature tools join room-stats", async () => {
+    const rooms = parseToolJson(await session.call("list_room_temperatures"));
+    assert.equal(rooms.summary.with_temperature, upstream.list("rooms").length);
+
+    const devices = parseToolJson(await session.call("list_device_room_temperatures", { room_id: roomId }));
+    assert.ok(devices.devices.length > 0);
+    assert.ok(devices.devices.every((device: any) => typeof device.room_temperature_c === "number"));
+
+    const vents = parseToolJson(await session.call("list_vents_with_room_temperatures", { structure_id: structureId }));
+    assert.equal(vents.summary.vent_count, upstream.list("vents").length);
+  });
+
+  test("get_room_temperature_history pages room-stats into per-room series", async () => {
+    const body = parseToolJson(
+      await session.call("get_room_temperature_history", { hours: 2, bucket_minutes: 30, page_size: 50 })
+    );
+    assert.equal(body.summary.room_count, upstream.list("rooms").length);
+    assert.equal(body.summary.rooms_with_data, body.summary.room_count);
+    assert.equal(body.summary.complete, true);
+    assert.ok(body.summary.pages_fetched > 1);
+    for (const room of body.rooms) {
+      assert.ok(room.samples >= 23 && room.samples <= 25, `${room.room_name} has ${room.samples} samples`);
+      assert.ok(room.buckets.length >= 4 && room.buckets.length <= 5);
+      assert.ok(["warming", "cooling", "stable"].includes(room.trend));
+      assert.equal(typeof room.rate_c_per_hour, "number");
+      assert.ok(room.temperature.min_c <= room.temperature.mean_c && room.temperature.mean_c <= room.temperature.max_c);
+      assert.equal(room.points, undefined);
+    }
+
+    const one = parseToolJson(
+      await session.call("get_room_temperature_history", { room_id: roomId, hours: 1, include_points: true })
+    );
+    assert.deepEqual(
+      one.rooms.map((room: any) => room.room_id),
+      [roomId]
+    );
+    assert.equal(one.rooms[0].points.length, one.rooms[0].samples);
+
+    const budget = parseToolJson(
+      await session.call("get_room_temperature_history", { hours: 6, page_size: 10, max_stat_pages: 2 })
+    );
+    assert.equal(budget.summary.complete, false);
+    assert.equal(budget.summary.rows_scanned, 20);
+
+    const backwards = await session.call("get_room_temperature_history", {
+      since: "2026-01-02T00:00:00Z",
+      until: "2026-01-01T00:00:00Z"
+    });
+    assert.equal(backwards.isError, true);
+
+    // Rooms are labelled the way every other view labels them, down to the `title` fallback.
+    const room = upstream.get("rooms", roomId)!;
+    const savedAttributes = room.attributes;
+    room.attributes = { ...savedAttributes, name: undefined, title: "Sunroom" };
+    const fresh = await connect();
+    try {
+      const titled = parseToolJson(await fresh.call("get_room_temperature_history", { room_id: roomId, hours: 1 }));
+      assert.equal(titled.rooms[0].room_name, "Sunroom");
+    } finally {
+      room.attributes = savedAttributes;
+      await fresh.close();
+    }
+  });
+
+  test("recommend_vent_balance plans per-vent positions and applies them", async () => {
+    const rooms = upstream.list("rooms");
+    const basement = rooms.find((room) => room.attributes?.name === "Basement")!;
+    const kitchen = rooms.find((room) => room.attributes?.name === "Kitchen")!;
+    const ventsIn = (room: { id: string }) =>
+      upstream.list("vents").filter((vent) => (vent.relationships?.room?.data as { id: string }).id === room.id);
+
+    const plan = parseToolJson(await session.call("recommend_vent_balance", { target_c: 21 }));
+    assert.equal(plan.direction, "heating");
+    assert.equal(plan.direction_source, "structure");
+    assert.equal(plan.applied, false);
+    assert.equal(plan.summary.vent_count, upstream.list("vents").length);
+    const recommendations: VentRecommendation[] = plan.recommendations;
+    const byVent = new Map(recommendations.map((row) => [row.vent_id, row]));
+    for (const vent of ventsIn(basement)) {
+      assert.equal(byVent.get(vent.id)?.recommended_percent_open, 100);
+    }
+    for (const vent of ventsIn(kitchen)) {
+      assert.ok((byVent.get(vent.id)?.recommended_percent_open ?? 100) < 50);
+    }
+
+    const applied = parseToolJson(
+      await session.call("recommend_vent_balance", {
+        targets: [{ room_id: basement.id, target_f: 75 }],
+        target_c: 21,
+        apply: true,
+        initial_delay_ms: 50
+      })
+    );
+    assert.equal(applied.applied, true);
+    assert.equal(applied.result.ok, true);
+    assert.ok(applied.result.vents.every((row: any) => typeof row.target_percent_open === "number"));
+    for (const vent of ventsIn(basement)) {
+      assert.equal(upstream.get("vents", vent.id)?.attributes?.["percent-open"], 100);
+    }
+
+    const unknownRoom = await session.call("recommend_vent_balance", { targets: [{ room_id: "no-such-room", target_c: 20 }] });
+    assert.equal(unknownRoom.isError, true);
+  });
+
+  test("device_health_report flags devices and groups them by structure and room", async () => {
+    const puck = upstream.list("pucks")[0];
+    const puckRoomId = (puck.relationships?.room?.data as { id: string }).id;
+    puck.attributes = { ...puck.attributes, online: false };
+    // A fresh client so the flipped puck is not served from the response cache.
+    const fresh = await connect();
+    try {
+      const report = parseToolJson(await fresh.call("device_health_report", { weak_rssi_dbm: -120 }));
+      const deviceCount = ["vents", "pucks", "thermostats"].reduce((sum, type) => sum + upstream.list(type).length, 0);
+      assert.equal(report.summary.device_count, deviceCount);
+      assert.equal(report.summary.critical, 1);
+      assert.equal(report.summary.by_issue.offline, 1);
+      assert.equal(report.summary.by_issue.weak_signal, 0);
+      assert.equal(report.thresholds.weakRssiDbm, -120);
+      assert.equal(report.structures.length, 1);
+      assert.equal(report.structures[0].structure_id, structureId);
+
+      const puckRoom = report.structures[0].rooms.find((room: any) => room.room_id === puckRoomId);
+      const [first] = puckRoom.devices;
+      assert.equal(first.id, puck.id);
+      assert.equal(first.status, "critical");
+      assert.equal(first.firmware_version, "2.4.1");
+      assert.equal(typeof first.battery_voltage, "number");
+      assert.equal(typeof first.rssi, "number");
+
+      const lowBattery = parseToolJson(
+        await fresh.call("device_health_report", { room_id: roomId, low_battery_voltage: 5, only_issues: true })
+      );
+      const devices = lowBattery.structures.flatMap((structure: any) => structure.rooms.flatMap((room: any) => room.devices));
+      assert.ok(devices.length > 0);
+      assert.ok(devices.every((device: any) => device.issues.some((entry: any) => entry.issue === "low_battery")));
+
+      // The simulator has no `devices` collection, so that type 404s and is skipped.
+      const partial = parseToolJson(await fresh.call("device_health_report", { resource_types: ["pucks", "devices"] }));
+      assert.equal(partial.summary.device_count, upstream.list("pucks").length);
+      assert.deepEqual(Object.keys(partial.summary.by_type), ["pucks"]);
+      assert.equal(partial.summary.skipped_types.length, 1);
+      assert.equal(partial.summary.skipped_types[0].resource_type, "devices");
+      assert.equal(partial.summary.skipped_types[0].status_code, 404);
+    } finally {
+      puck.attributes = { ...puck.attributes, online: undefined };
+      await fresh.close();
+    }
+  });
+
+  test("vent temperature filters", async () => {
+    const cold = parseToolJson(await session.call("list_open_vents_in_cold_rooms", { below_temp_c: 100 }));
+    assert.ok(cold.vents.every((vent: any) => vent.percent_open > 0));
+
+    const missingThreshold = await session.call("list_open_vents_in_cold_rooms", {});
+    assert.equal(missingThreshold.isError, true);
+
+    const between = parseToolJson(
+      await session.call("list_vents_by_room_temperature", {
+        temperature_operator: "between",
+        min_temp_f: 50,
+        max_temp_f: 90,
+        vent_state: "any",
+        min_percent_open: 0
+      })
+    );
+    assert.equal(between.vents.length, upstream.list("vents").length);
+    assert.equal(between.summary.temperature_operator, "between");
+  });
+
+  test("generic resource tools", async () => {
+    const listed = parseToolJson(await session.call("list_resources", { resource_type: "rooms", page_size: 2, max_items: 3 }));
+    assert.equal(listed.data.length, 3);
+
+    const fetched = parseToolJson(await session.call("get_resource", { resource_type: "vents", resource_id: ventId }));
+    assert.equal(fetched.data.id, ventId);
+
+    const related = parseToolJson(
+      await session.call("get_related_resources", { resource_type: "vents", resource_id: ventId, relationship: "room" })
+    );
+    assert.equal(related.data[0].id, roomId);
+  });
+
+  test("write tools support dry_run without touching upstream", async () => {
+    const before = upstream.requestCounts["PATCH /api/rooms"] ?? 0;
+    const update = parseToolJson(
+      await session.call("update_resource_attributes", {
+        resource_type: "rooms",
+        resource_id: roomId,
+        attributes: { name: "Dry Run" },
+        dry_run: true
+      })
+    );
+    assert.equal(update.dryRun, true);
+
+    const create = parseToolJson(
+      await session.call("create_resource", { resource_type: "vent-states", attributes: { "percent-open": 10 }, dry_run: true })
+    );
+    assert.equal(create.payload.data.type, "vent-states");
+
+    const vent = parseToolJson(await session.call("set_vent_percent_open", { vent_id: ventId, percent_open: 10, dry_run: true }));
+    assert.equal(vent.payload.relationships.vent.data.id, ventId);
+    assert.equal(upstream.requestCounts["PATCH /api/rooms"] ?? 0, before);
+  });
+
+  test("write tools apply changes upstream", async () => {
+    const update = parseToolJson(
+      await session.call("update_resource_attributes", {
+        resource_type: "rooms",
+        resource_id: roomId,
+        attributes: { name: "Renamed Room" }
+      })
+    );
+    assert.equal(update.data.attributes.name, "Renamed Room");
+
+    const created = parseToolJson(
+      await session.call("create_resource", {
+        resource_type: "vent-states",
+        attributes: { "percent-open": 40 },
+        relationships: { vent: { data: { type: "vents", id: ventId } } }
+      })
+    );
+    assert.equal(created.data.type, "vent-states");
+
+    const set = parseToolJson(await session.call("set_vent_percent_open", { vent_id: ventId, percent_open: 60 }));
+    assert.equal(set.data.attributes["percent-open"], 60);
+
+    const verified = parseToolJson(
+      await session.call("set_vent_percent_open_and_verify", {
+        vent_id: ventId,
+        percent_open: 85,
+        attempts: 5,
+        initial_delay_ms: 30,
+        backoff_multiplier: 1.5
+      })
+    );
+    assert.equal(verified.ok, true);
+    assert.equal(upstream.get("vents", ventId)?.attributes?.["percent-open"], 85);
+  });
+
+  test("set_vents_percent_open plans, sends and verifies in bulk", async () => {
+    const plan = parseToolJson(
+      await session.call("set_vents_percent_open", { name_pattern: "living room vent*", percent_open: 0, dry_run: true })
+    );
+    const livingRoomVents = upstream.list("vents").filter((vent) => String(vent.attributes?.name).startsWith("Living Room Vent"));
+    assert.equal(plan.summary.selected, livingRoomVents.length);
+    assert.ok(livingRoomVents.length > 1);
+
+    const noSelector = await session.call("set_vents_percent_open", { percent_open: 0 });
+    assert.equal(noSelector.isError, true);
+
+    const before = upstream.requestCounts["GET /api/vents"] ?? 0;
+    const result = parseToolJson(
+      await session.call("set_vents_percent_open", {
+        vent_ids: [...livingRoomVents.map((vent) => vent.id), "missing-vent"],
+        percent_open: 35,
+        concurrency: 2,
+        initial_delay_ms: 30,
+        attempts: 5
+      })
+    );
+    assert.equal(result.ok, false);
+    assert.equal(result.summary.requested, livingRoomVents.length + 1);
+    assert.equal(result.summary.succeeded, livingRoomVents.length);
+    assert.equal(result.summary.failed, 1);
+    assert.equal(result.vents.find((row: any) => row.vent_id === "missing-vent").error, "Vent not found");
+    assert.ok(livingRoomVents.every((vent) => upstream.get("vents", vent.id)?.attributes?.["percent-open"] === 35));
+    // One fresh vents list per verification round, not one read per vent.
+    assert.ok((upstream.requestCounts["GET /api/vents"] ?? 0) - before <= result.attemptsUsed + 1);
+  });
+
+  test("structure tools report and change mode, home/away and set point", async () => {
+    const status = parseToolJson(await session.call("get_structure_status"));
+    assert.equal(status.summary.count, 1);
+    assert.equal(status.structures[0].id, structureId);
+    assert.equal(status.structures[0].set_point_f, 69.8);
+
+    const mode = parseToolJson(await session.call("set_structure_mode", { mode: "auto", initial_delay_ms: 0 }));
+    assert.equal(mode.ok, true);
+    assert.equal(mode.resourceId, structureId);
+    assert.equal(upstream.get("structures", structureId)?.attributes?.mode, "auto");
+
+    const badMode = await session.call("set_structure_mode", { mode: "eco" });
+    assert.equal(badMode.isError, true);
+
+    const away = parseToolJson(
+      await session.call("set_structure_home_away", { structure_id: structureId, home: false, initial_delay_ms: 0 })
+    );
+    assert.equal(away.ok, true);
+
+    const setpoint = parseToolJson(
+      await session.call("set_structure_setpoint", { set_point_f: 68, dry_run: true })
+    );
+    assert.equal(setpoint.payload.data.attributes["set-point-temperature-c"], 20);
+
+    const after = parseToolJson(await session.call("get_structure_status", { structure_id: structureId }));
+    assert.equal(after.structures[0].mode, "auto");
+    assert.equal(after.structures[0].home, false);
+    assert.equal(after.summary.away, 1);
+  });
+
+  test("room tools convert units, dry-run and verify", async () => {
+    const dryRun = parseToolJson(
+      await session.call("set_room_setpoint", { room_id: roomId, set_point_f: 70, dry_run: true })
+    );
+    assert.equal(dryRun.payload.data.attributes["set-point-c"], 21.11);
+
+    const missing = await session.call("set_room_setpoint", { room_id: roomId });
+    assert.equal(missing.isError, true);
+
+    const setpoint = parseToolJson(
+      await session.call("set_room_setpoint", { room_id: roomId, set_point_c: 19.5, initial_delay_ms: 0 })
+    );
+    assert.equal(setpoint.ok, true);
+    assert.equal(upstream.get("rooms", roomId)?.attributes?.["set-point-c"], 19.5);
+
+    const inactive = parseToolJson(
+      await session.call("set_room_active", { room_id: roomId, active: false, initial_delay_ms: 0 })
+    );
+    assert.equal(inactive.ok, true);
+    assert.equal(upstream.get("rooms", roomId)?.attributes?.active, false);
+
+    const hold = parseToolJson(
+      await session.call("set_room_hold", { room_id: roomId, hold_minutes: 90, initial_delay_ms: 0 })
+    );
+    assert.equal(hold.ok, true);
+    const holdUntil = Date.parse(String(upstream.get("rooms", roomId)?.attributes?.["hold-until"]));
+    assert.ok(Math.abs(holdUntil - (Date.now() + 90 * 60 * 1000)) < 60 * 1000);
+
+    const ambiguous = await session.call("set_room_hold", { room_id: roomId, hold_minutes: 10, clear: true });
+    assert.equal(ambiguous.isError, true);
+
+    const cleared = parseToolJson(
+      await session.call("set_room_hold", { room_id: roomId, clear: true, verify: false })
+    );
+    assert.equal(cleared.data.attributes["hold-until"], null);
+  });
+
+  test("thermostat and HVAC unit tools normalize state and control units", async () => {
+    const thermostats = parseToolJson(await session.call("list_thermostats"));
+    assert.equal(thermostats.summary.count, 1);
+    const [thermostat] = thermostats.thermostats;
+    assert.equal(thermostat.name, "Hallway Thermostat");
+    assert.equal(thermostat.room_name, upstream.get("rooms", thermostat.room_id)?.attributes?.name);
+    assert.equal(thermostat.mode, "heat");
+    assert.equal(thermostat.heat_set_point_f, 69.8);
+    assert.equal(thermostat.temperature_source, "device");
+
+    const units = parseToolJson(await session.call("list_hvac_units", { room_name: "office" }));
+    const [unit] = units.hvac_units;
+    assert.deepEqual(units.summary, { count: 1, powered_on: 1, by_mode: { heat: 1 } });
+    assert.equal(unit.name, "Office Mini-Split");
+    assert.equal(unit.set_point_f, 70);
+    assert.equal(unit.set_point_c, 21.11);
+    // Units report no temperature of their own, so the room's reading is used.
+    assert.equal(unit.temperature_source, "room");
+    assert.equal(unit.current_temperature_c, upstream.get("rooms", unit.room_id)?.attributes?.["current-temperature-c"]);
+
+    const dryRun = parseToolJson(
+      await session.call("set_hvac_unit_setpoint", { hvac_unit_name: "office mini split", set_point_c: 22, dry_run: true })
+    );
+    assert.deepEqual(dryRun.payload.data.attributes, { temperature: 72 });
+    assert.equal(upstream.get("hvac-units", unit.id)?.attributes?.temperature, 70);
+
+    const cooled = parseToolJson(
+      await session.call("set_hvac_unit_mode", { hvac_unit_id: unit.id, mode: "cool", initial_delay_ms: 0 })
+    );
+    assert.equal(cooled.ok, true);
+    assert.equal(upstream.get("hvac-units", unit.id)?.attributes?.mode, "Cool");
+
+    await session.call("set_hvac_unit_fan_speed", { hvac_unit_id: unit.id, fan_speed: "high", initial_delay_ms: 0 });
+    await session.call("set_hvac_unit_power", { hvac_unit_id: unit.id, power: "off", initial_delay_ms: 0 });
+    assert.equal(upstream.get("hvac-units", unit.id)?.attributes?.["fan-speed"], "High");
+    assert.equal(upstream.get("hvac-units", unit.id)?.attributes?.power, "Off");
+
+    const missing = await session.call("set_hvac_unit_setpoint", { hvac_unit_id: unit.id });
+    assert.equal(missing.isError, true);
+  });
+
+  test("schedule tools list, create, edit and activate schedules", async () => {
+    const listed = parseToolJson(await session.call("list_schedules"));
+    assert.deepEqual(listed.summary, { count: 1, event_count: 2, active: [] });
+    const [comfort] = listed.schedules;
+    assert.equal(comfort.name, "Weekday Comfort");
+    assert.equal(comfort.active, false);
+    assert.deepEqual(
+      comfort.events.map((event: any) => event.time),
+      ["07:00", "22:00"]
+    );
+    assert.match(comfort.events[1].description, /^Mon-Fri at 22:00: 18°C \(64.4°F\); .+ 20°C \(68°F\)$/);
+
+    const created = parseToolJson(
+      await session.call("create_schedule_event", {
+        schedule_id: comfort.id,
+        days: ["saturday", "sunday"],
+        time: "09:00",
+        room_set_points: [{ room_name: "office", set_point_f: 68 }],
+        home: false
+      })
+    );
+    const officeId = upstream.list("rooms").find((room) => room.attributes?.name === "Office")!.id;
+    const event = upstream.get("schedule-events", created.data.id)!;
+    assert.deepEqual(event.attributes?.["room-set-points"], [{ "room-id": officeId, "set-point-c": 20 }]);
+    assert.equal((event.relationships?.schedule?.data as { id: string }).id, comfort.id);
+
+    const invalid = await session.call("create_schedule_event", { schedule_id: comfort.id, days: ["monday"], time: "07:00" });
+    assert.equal(invalid.isError, true);
+
+    const updated = parseToolJson(
+      await session.call("update_schedule_event", {
+        event_id: created.data.id,
+        days: ["sunday"],
+        time: "10:30",
+        initial_delay_ms: 0
+      })
+    );
+    assert.equal(updated.ok, true);
+    assert.deepEqual(upstream.get("schedule-events", created.data.id)?.attributes?.days, ["sunday"]);
+
+    const activated = parseToolJson(
+      await session.call("activate_schedule", { schedule_id: comfort.id, initial_delay_ms: 0 })
+    );
+    assert.equal(activated.ok, true);
+    assert.equal(upstream.get("structures", structureId)?.attributes?.["active-schedule-id"], comfort.id);
+    const status = parseToolJson(await session.call("get_structure_status"));
+    assert.equal(status.structures[0].active_schedule_id, comfort.id);
+    assert.equal(parseToolJson(await session.call("list_schedules")).schedules[0].active, true);
+
+    await session.call("activate_schedule", { clear: true, initial_delay_ms: 0 });
+    assert.equal(upstream.get("structures", structureId)?.attributes?.["active-schedule-id"], null);
+  });
+
+  test("vent writes are checked against the safety policy", async () => {
+    const preview = parseToolJson(
+      await session.call("set_vents_percent_open", { structure_id: structureId, percent_open: 0, dry_run: true })
+    );
+    assert.equal(preview.policy.allowed, false);
+
+    const refused = await session.call("set_vents_percent_open", {
+      structure_id: structureId,
+      percent_open: 0,
+      override_policy: true
+    });
+    assert.equal(refused.isError, true);
+    const body = parseToolJson(refused);
+    assert.equal(body.error, "vent_policy_violation");
+    assert.equal(body.violations[0].rule, "max_closed_fraction");
+    assert.equal(body.overrideAllowed, false);
+    assert.ok(body.overrideRejected);
+
+    // The generic tools cannot be used to sidestep the policy.
+    const savedFloors = config.ventPolicy.roomMinPercent;
+    config.ventPolicy.roomMinPercent = { [roomId]: 20 };
+    try {
+      const viaPatch = await session.call("update_resource_attributes", {
+        resource_type: "vents",
+        resource_id: ventId,
+        attributes: { "percent-open": 10 }
+      });
+      assert.equal(parseToolJson(viaPatch).violations[0].rule, "room_min_percent");
+      const viaCreate = await session.call("create_resource", {
+        resource_type: "vent-states",
+        attributes: { "percent-open": 10 },
+        relationships: { vent: { data: { type: "vents", id: ventId } } }
+      });
+      assert.equal(viaCreate.isError, true);
+      const viaString = await session.call("update_resource_attributes", {
+        resource_type: "vents",
+        resource_id: ventId,
+        attributes: { "percent-open": "10" }
+      });
+      assert.equal(parseToolJson(viaString).violations[0].rule, "room_min_percent");
+      const viaStringCreate = await session.call("create_resource", {
+        resource_type: "vent-states",
+        attributes: { "percent-open": "10" },
+        relationships: { vent: { data: { type: "vents", id: ventId } } }
+      });
+      assert.equal(parseToolJson(viaStringCreate).error, "vent_policy_violation");
+      const notANumber = await session.call("update_resource_attributes", {
+        resource_type: "vents",
+        resource_id: ventId,
+        attributes: { "percent-open": "half" }
+      });
+      assert.equal(notANumber.isError, true);
+      assert.match(JSON.stringify(notANumber.content), /percent-open must be a number/);
+    } finally {
+      config.ventPolicy.roomMinPercent = savedFloors;
+    }
+
+    const admin = await connect({ ventPolicyOverride: true });
+    try {
+      const overridden = parseToolJson(
+        await admin.call("set_vents_percent_open", {
+          structure_id: structureId,
+          percent_open: 0,
+          override_policy: true,
+          verify: false
+        })
+      );
+      assert.equal(overridden.summary.sent, upstream.list("vents").length);
+      const reopened = parseToolJson(
+        await admin.call("set_vents_percent_open", { structure_id: structureId, percent_open: 100, initial_delay_ms: 30 })
+      );
+      assert.equal(reopened.ok, true);
+    } finally {
+      await admin.close();
+    }
+  });
+
+  test("undo checks previous percent-open strings against the vent policy", async () => {
+    const journal = new WriteJournal({ maxEntries: 50 });
+    const journaled = await connect({ journal });
+    const entry = await journal.record({
+      tool: "update_resource_attributes",
+      status: "applied",
+      changes: [
+        {
+          kind: "attributes",
+          resourceType: "vents",
+          resourceId: ventId,
+          before: { "percent-open": "10" },
+          after: { "percent-open": upstream.get("vents", ventId)?.attributes?.["percent-open"] }
+        }
+      ]
+    });
+    const savedFloors = config.ventPolicy.roomMinPercent;
+    config.ventPolicy.roomMinPercent = { [roomId]: 20 };
+    try {
+      const preview = parseToolJson(await journaled.call("undo_change", { change_id: entry.id, dry_run: true }));
+      assert.equal(preview.plan[0].restore_to["percent-open"], 10);
+      assert.equal(preview.policy.allowed, false);
+
+      const refused = parseToolJson(await journaled.call("undo_change", { change_id: entry.id }));
+      assert.equal(refused.error, "vent_policy_violation");
+      assert.equal(refused.violations[0].rule, "room_min_percent");
+    } finally {
+      config.ventPolicy.roomMinPercent = savedFloors;
+      await journaled.close();
+    }
+  });
+
+  test("write journal lists changes and undoes them", async () => {
+    const journaled = await connect({ journal: new WriteJournal({ maxEntries: 50 }) });
+    const ventPercentOpen = () => upstream.get("vents", ventId)?.attributes?.["percent-open"];
+    const waitForVent = async (percentOpen: unknown) => {
+      for (let attempt = 0; attempt < 50 && ventPercentOpen() !== percentOpen; attempt += 1) {
+        await new Promise((resolve) => setTimeout(resolve, 10));
+      }
+      assert.equal(ventPercentOpen(), percentOpen);
+    };
+    try {
+      const { tools } = await journaled.client.listTools();
+      assert.ok(tools.some((tool) => tool.name === "list_recent_changes"));
+      assert.ok(tools.some((tool) => tool.name === "undo_change"));
+
+      const previous = ventPercentOpen();
+      const set = parseToolJson(
+        await journaled.call("set_vent_percent_open_and_verify", {
+          vent_id: ventId,
+          percent_open: 45,
+          attempts: 5,
+          initial_delay_ms: 30
+        })
+      );
+      assert.equal(set.ok, true);
+      assert.ok(set.journalEntryId);
+
+      const previousSetPoint = upstream.get("rooms", roomId)?.attributes?.["set-point-c"];
+      const setpoint = parseToolJson(
+        await journaled.call("set_room_setpoint", { room_id: roomId, set_point_c: 23.5, verify: false })
+      );
+
+      const listed = parseToolJson(await journaled.call("list_recent_changes", { resource_type: "vents" }));
+      assert.equal(listed.count, 1);
+      assert.equal(listed.entries[0].id, set.journalEntryId);
+      assert.deepEqual(listed.entries[0].changes[0].before, { "percent-open": previous });
+      const all = parseToolJson(await journaled.call("list_recent_changes"));
+      assert.equal(all.entries[0].id, setpoint.journalEntryId);
+
+      // Moving the vent again through a session without the journal makes the undo a conflict.
+      await session.call("set_vent_percent_open", { vent_id: ventId, percent_open: 55 });
+      await waitForVent(55);
+      const conflict = await journaled.call("undo_change", { change_id: set.journalEntryId });
+      assert.equal(conflict.isError, true);
+      assert.equal(parseToolJson(conflict).error, "undo_conflict");
+
+      const preview = parseToolJson(await journaled.call("undo_change", { change_id: set.journalEntryId, dry_run: true }));
+      assert.deepEqual(preview.plan[0].restore_to, { "percent-open": previous });
+
+      const undone = parseToolJson(await journaled.call("undo_change", { change_id: set.journalEntryId, force: true }));
+      assert.equal(undone.ok, true);
+      await waitForVent(previous);
+      const repeated = await journaled.call("undo_change", { change_id: set.journalEntryId });
+      assert.equal(repeated.isError, true);
+
+      const restored = parseToolJson(await journaled.call("undo_change", { change_id: setpoint.journalEntryId }));
+      assert.equal(restored.ok, true);
+      assert.equal(upstream.get("rooms", roomId)?.attributes?.["set-point-c"], previousSetPoint);
+
+      const history = parseToolJson(await journaled.call("list_recent_changes", { resource_id: ventId }));
+      assert.equal(history.entries[0].undoOf, set.journalEntryId);
+      assert.equal(history.entries[1].status, "undone");
+      assert.equal(history.entries[1].undoneBy, history.entries[0].id);
+    } finally {
+      await journaled.close();
+    }
+  });
+
+  test("scenes capture current state, preview the diff and apply through the write path", async () => {
+    const journal = new WriteJournal({ maxEntries: 50 });
+    const scenes = await connect({ sceneStore: new SceneStore({ maxScenes: 5 }), journal });
+    try {
+      const officeId = upstream.list("rooms").find((room) => room.attributes?.name === "Office")!.id;
+      const officeVents = upstream.list("vents").filter((vent) => (vent.relationships?.room?.data as { id: string }).id === officeId);
+      const captured = parseToolJson(
+        await scenes.call("save_scene_from_current_state", { name: "Office Snapshot", room_name: "office" })
+      );
+      assert.equal(captured.scene.source, "captured");
+      assert.deepEqual(
+        captured.scene.vents.map((vent: any) => vent.ventId).sort(),
+        officeVents.map((vent) => vent.id).sort()
+      );
+      assert.deepEqual(captured.scene.rooms, [{ roomId: officeId, roomName: "Office", setPointC: 21 }]);
+
+      const basementVent = upstream.list("vents").find((vent) => vent.attributes?.name === "Basement Vent 1")!;
+      const saved = parseToolJson(
+        await scenes.call("save_scene", {
+          name: "Movie Night",
+          vents: [{ vent_name: "basement vent 1", percent_open: 35 }],
+          rooms: [{ room_name: "office", set_point_f: 68 }]
+        })
+      );
+      assert.deepEqual(saved.unresolved, []);
+      const duplicate = await scenes.call("save_scene", { name: "movie night", vents: [{ vent_id: basementVent.id, percent_open: 0 }] });
+      assert.equal(duplicate.isError, true);
+      assert.equal(parseToolJson(await scenes.call("list_scenes")).count, 2);
+
+      const preview = parseToolJson(await scenes.call("preview_scene", { name: "movie night" }));
+      assert.deepEqual(preview.summary, { vents_changing: 1, rooms_changing: 1, unchanged: 0, unresolved: 0 });
+      assert.equal(preview.vents[0].vent_id, basementVent.id);
+      assert.equal(preview.rooms[0].target_set_point_c, 20);
+
+      const applied = parseToolJson(await scenes.call("apply_scene", { name: "Movie Night", initial_delay_ms: 30 }));
+      assert.equal(applied.applied, true);
+      assert.equal(applied.result.vents.summary.succeeded, 1);
+      assert.equal(applied.result.rooms[0].status, "succeeded");
+      assert.equal(upstream.get("vents", basementVent.id)?.attributes?.["percent-open"], 35);
+      assert.equal(upstream.get("rooms", officeId)?.attributes?.["set-point-c"], 20);
+      const [entry] = await journal.list({ limit: 1 });
+      assert.equal(entry.tool, "apply_scene");
+      assert.equal(entry.changes.length, 2);
+
+      const again = parseToolJson(await scenes.call("apply_scene", { name: "Movie Night" }));
+      assert.equal(again.applied, false);
+
+      const broken = parseToolJson(
+        await scenes.call("save_scene", { name: "Garage", vents: [{ vent_name: "garage door vent", percent_open: 0 }] })
+      );
+      assert.equal(broken.unresolved.length, 1);
+      assert.equal((await scenes.call("apply_scene", { name: "Garage" })).isError, true);
+
+      await scenes.call("delete_scene", { name: "garage" });
+      assert.equal(parseToolJson(await scenes.call("list_scenes")).count, 2);
+    } finally {
+      await scenes.close();
+    }
+  });
+
+  test("rule tools add, toggle, list and delete automation rules", async () => {
+    const ruleStore = new RuleStore({ maxRules: 5, maxFirings: 10 });
+    const flairApi = createClient();
+    const ruleEngine = new RuleEngine(flairApi, ruleStore, { intervalMs: 60000, maxIntervalMs: 60000, dryRun: true });
+    const rules = await connect({ ruleStore, ruleEngine }, flairApi);
+    try {
+      const officeId = upstream.list("rooms").find((room) => room.attributes?.name === "Office")!.id;
+      const added = parseToolJson(
+        await rules.call("add_rule", {
+          name: "Warm the office",
+          room_name: "office",
+          room_temperature: { operator: "lt", value: 75.2, unit: "f" },
+          vent_percent_open: { operator: "gte", value: 0 },
+          action: "set_vent_percent_open",
+          percent_open: 37
+        })
+      );
+      assert.equal(added.rule.scope.roomId, officeId);
+      assert.deepEqual(added.rule.conditions.roomTemperatureC, { operator: "lt", value: 24 });
+      assert.equal(added.rule.description, "When room temperature < 24°C (75.2°F) and vent open >= 0%: set vents to 37% open");
+
+      const incomplete = await rules.call("add_rule", {
+        name: "No value",
+        room_humidity: { operator: "gt", value: 60 },
+        action: "set_vent_percent_open"
+      });
+      assert.equal(incomplete.isError, true);
+
+      const disabled = parseToolJson(await rules.call("disable_rule", { rule_name: "warm the office" }));
+      assert.equal(disabled.rule.enabled, false);
+      const enabled = parseToolJson(await rules.call("enable_rule", { rule_id: added.rule.id, dry_run: true }));
+      assert.deepEqual([enabled.rule.enabled, enabled.rule.dryRun], [true, true]);
+
+      const [fired] = await ruleEngine.evaluateNow();
+      const listed = parseToolJson(await rules.call("list_rules"));
+      assert.equal(listed.count, 1);
+      assert.equal(listed.engine.dryRun, true);
+      const firings = parseToolJson(await rules.call("list_rule_firings", { rule_name: "Warm the office" }));
+      assert.equal(fired.status, "dry_run");
+      assert.deepEqual(firings.firings.map((firing: any) => firing.id), [fired.id]);
+
+      await rules.call("delete_rule", { rule_id: added.rule.id });
+      assert.equal(parseToolJson(await rules.call("list_rules")).count, 0);
+      assert.equal((await rules.call("enable_rule", { rule_id: added.rule.id })).isError, true);
+    } finally {
+      await rules.close();
+    }
+  });
+
+  test("adding a rule or making it live needs write confirmation", async () => {
+    const rules = await connect({ ruleStore: new RuleStore({ maxRules: 5, maxFirings: 10 }) });
+    config.writeConfirmation.enabled = true;
+    try {
+      const args = {
+        name: "Close the office",
+        room_name: "office",
+        vent_percent_open: { operator: "gt", value: 0 },
+        action: "set_vent_percent_open",
+        percent_open: 0
+      };
+      const prompt = parseToolJson(await rules.call("add_rule", args));
+      assert.equal(prompt.error, "confirmation_required");
+      assert.match(prompt.summary, /^Add rule "Close the office": When vent open > 0%: set vents to 0% open/);
+      assert.equal(parseToolJson(await rules.call("list_rules")).count, 0);
+
+      const added = parseToolJson(
+        await rules.call("add_rule", { ...args, dry_run: true, confirmation_token: prompt.confirmationToken })
+      );
+      assert.equal(added.error, "invalid_confirmation_token");
+      const confirmed = parseToolJson(await rules.call("add_rule", { ...args, confirmation_token: prompt.confirmationToken }));
+      assert.equal(confirmed.rule.enabled, true);
+
+      await rules.call("disable_rule", { rule_id: confirmed.rule.id });
+      const dryRun = parseToolJson(await rules.call("enable_rule", { rule_id: confirmed.rule.id, dry_run: true }));
+      assert.deepEqual([dryRun.rule.enabled, dryRun.rule.dryRun], [true, true]);
+      const live = parseToolJson(await rules.call("enable_rule", { rule_id: confirmed.rule.id, dry_run: false }));
+      assert.equal(live.error, "confirmation_required");
+      assert.equal(parseToolJson(await rules.call("list_rules")).rules[0].dryRun, true);
+    } finally {
+      config.writeConfirmation.enabled = false;
+      await rules.close();
+    }
+  });
+
+  test("query_history reads recorded snapshots", async () => {
+    const dir = await mkdtemp(path.join(os.tmpdir(), "flair-mcp-history-"));
+    const flairApi = createClient();
+    const historyStore = new HistoryStore({ directory: dir, retentionDays: 7 });
+    const historyRecorder = new HistoryRecorder(() => flairApi.loadHistorySamples(), historyStore, {
+      intervalMs: 60000,
+      maxIntervalMs: 60000
+    });
+    const recorded = await connect({ historyStore, historyRecorder }, flairApi);
+    try {
+      const roomCount = upstream.list("rooms").length;
+      const ventCount = upstream.list("vents").length;
+      const pucks = upstream.list("pucks").length;
+      assert.equal(await historyRecorder.recordNow(), roomCount + ventCount + pucks);
+      await historyRecorder.recordNow();
+
+      const temps = parseToolJson(await recorded.call("query_history", { metric: "temperature_c", hours: 1 }));
+      assert.equal(temps.summary.series_count, roomCount);
+      assert.ok(temps.series.every((series: any) => series.kind === "room" && series.points.length === 2));
+      assert.equal(temps.recorder.snapshots, 2);
+      assert.equal(temps.store.retentionDays, 7);
+
+      const roomVents = parseToolJson(
+        await recorded.call("query_history", { metric: "percent_open", room_ids: [roomId], bucket_minutes: 60 })
+      );
+      assert.ok(roomVents.series.length > 0);
+      for (const series of roomVents.series) {
+        assert.equal(series.room_id, roomId);
+        assert.equal(series.points.reduce((total: number, point: any) => total + point.samples, 0), 2);
+      }
+      assert.equal(roomVents.window.aggregation, "avg");
+
+      const oneVent = parseToolJson(await recorded.call("query_history", { metric: "online", vent_ids: [ventId] }));
+      assert.deepEqual(
+        oneVent.series.map((series: any) => series.id),
+        [ventId]
+      );
+      assert.equal(oneVent.series[0].summary.latest, 1);
+    } finally {
+      await recorded.close();
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  test("audit log records tool calls with redacted arguments and upstream writes", async () => {
+    const dir = await mkdtemp(path.join(os.tmpdir(), "flair-mcp-audit-"));
+    const auditLog = new AuditLog({ filePath: path.join(dir, "audit.jsonl"), maxBytes: 1024 * 1024, maxFiles: 1 });
+    const audited = await connect({ auditLog, clientKey: "key:tests" });
+    try {
+      await audited.call("list_rooms");
+      await audited.call("set_room_active", { room_id: roomId, active: true, dry_run: true });
+      await audited.call("update_resource_attributes", {
+        resource_type: "rooms",
+        resource_id: roomId,
+        attributes: { name: "Audited Room", "api-key": "hunter2" }
+      });
+      await audited.call("get_resource", { resource_type: "rooms", resource_id: "missing-room" });
+
+      const all = parseToolJson(await audited.call("get_audit_log"));
+      assert.deepEqual(
+        all.entries.map((entry: any) => entry.tool),
+        ["get_resource", "update_resource_attributes", "set_room_active", "list_rooms"]
+      );
+
+      const [update] = parseToolJson(await audited.call("get_audit_log", { tool: "update_resource_attributes" })).entries;
+      assert.equal(update.client, "key:tests");
+      assert.equal(update.access, "write");
+      assert.equal(update.outcome, "ok");
+      assert.equal(update.arguments.attributes["api-key"], "[REDACTED]");
+      assert.deepEqual(update.upstream, [{ method: "PATCH", path: `/api/rooms/${roomId}`, status: 200 }]);
+
+      const [dryRun] = parseToolJson(await audited.call("get_audit_log", { tool: "set_room_active" })).entries;
+      assert.equal(dryRun.dryRun, true);
+      assert.deepEqual(dryRun.upstream, []);
+
+      const [failed] = parseToolJson(await audited.call("get_audit_log", { outcome: "error" })).entries;
+      assert.equal(failed.tool, "get_resource");
+      assert.ok(failed.error);
+
+      const future = parseToolJson(await audited.call("get_audit_log", { since: "2999-01-01T00:00:00Z" }));
+      assert.equal(future.count, 0);
+    } finally {
+      await audited.close();
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  test("write confirmation issues one-time tokens to clients without elicitation", async () => {
+    config.writeConfirmation.enabled = true;
+    try {
+      const pending = await session.call("set_room_active", { room_id: roomId, active: false, verify: false });
+      assert.equal(pending.isError, true);
+      const prompt = parseToolJson(pending);
+      assert.equal(prompt.error, "confirmation_required");
+      assert.deepEqual(prompt.payload, { data: { type: "rooms", id: roomId, attributes: { active: false } } });
+      assert.match(prompt.summary, /active = false/);
+
+      // Dry runs never need confirmation.
+      const dryRun = await session.call("set_room_active", { room_id: roomId, active: false, dry_run: true });
+      assert.notEqual(dryRun.isError, true);
+
+      const mismatched = await session.call("set_room_active", {
+        room_id: roomId,
+        active: true,
+        verify: false,
+        confirmation_token: prompt.confirmationToken
+      });
+      assert.equal(parseToolJson(mismatched).error, "invalid_confirmation_token");
+
+      const confirmed = await session.call("set_room_active", {
+        verify: false,
+        active: false,
+        room_id: roomId,
+        confirmation_token: prompt.confirmationToken
+      });
+      assert.notEqual(confirmed.isError, true);
+      assert.equal(upstream.get("rooms", roomId)?.attributes?.active, false);
+
+      const replayed = await session.call("set_room_active", {
+        room_id: roomId,
+        active: false,
+        verify: false,
+        confirmation_token: prompt.confirmationToken
+      });
+      assert.equal(parseToolJson(replayed).error, "invalid_confirmation_token");
+    } finally {
+      config.writeConfirmation.enabled = false;
+    }
+  });
+
+  test("write confirmation tokens only approve the plan that was shown", async () => {
+    const args = { target_c: 21, apply: true, initial_delay_ms: 30 };
+    config.writeConfirmation.enabled = true;
+    try {
+      const prompt = parseToolJson(await session.call("recommend_vent_balance", args));
+      assert.equal(prompt.error, "confirmation_required");
+      const [[movedVentId, percentOpen]] = Object.entries(prompt.payload.targets);
+
+      // Another client moves one of the planned vents before the user approves.
+      config.writeConfirmation.enabled = false;
+      await session.call("set_vent_percent_open", { vent_id: movedVentId, percent_open: percentOpen });
+      await new Promise((resolve) => setTimeout(resolve, 50));
+      config.writeConfirmation.enabled = true;
+
+      const replanned = parseToolJson(
+        await session.call("recommend_vent_balance", { ...args, confirmation_token: prompt.confirmationToken })
+      );
+      assert.equal(replanned.error, "confirmation_required");
+      assert.equal(replanned.planChanged, true);
+      assert.equal(movedVentId in replanned.payload.targets, false);
+      assert.notEqual(replanned.confirmationToken, prompt.confirmationToken);
+
+      const applied = parseToolJson(
+        await session.call("recommend_vent_balance", { ...args, confirmation_token: replanned.confirmationToken })
+      );
+      assert.equal(applied.applied, true);
+    } finally {
+      config.writeConfirmation.enabled = false;
+    }
+  });
+
+  test("write confirmation asks through elicitation when the client supports it", async () => {
+    const elicited = await connect(undefined, createClient(), { capabilities: { elicitation: {} } });
+    const messages: string[] = [];
+    let approve = true;
+    elicited.client.setRequestHandler(ElicitRequestSchema, async (request) => {
+      messages.push(request.params.message);
+      return approve ? { action: "accept", content: { confirm: true } } : { action: "decline" };
+    });
+    config.writeConfirmation.enabled = true;
+    try {
+      const applied = parseToolJson(await elicited.call("set_vent_percent_open", { vent_id: ventId, percent_open: 70 }));
+      assert.equal(applied.data.type, "vent-states");
+      assert.match(messages[0], /to 70% open/);
+      assert.match(messages[0], /"percent-open": 70/);
+
+      approve = false;
+      const declined = await elicited.call("set_vent_percent_open", { vent_id: ventId, percent_open: 30 });
+      assert.equal(declined.isError, true);
+      assert.equal(parseToolJson(declined).error, "write_not_confirmed");
+      assert.equal(messages.length, 2);
+    } finally {
+      config.writeConfirmation.enabled = false;
+      await elicited.close();
+    }
+  });
+
+  test("rate-limited calls return a structured tool error", async () => {
+    const limited = await connect({
+      rateLimiter: new ToolRateLimiter({ read: { burst: 1, perMinute: 1 }, write: { burst: 1, perMinute: 1 } }),
+      clientKey: "test"
+    });
+    try {
+      assert.notEqual((await limited.call("list_structures")).isError, true);
+      const refused = await limited.call("list_structures");
+      assert.equal(refused.isError, true);
+      const body = parseToolJson(refused);
+      assert.equal(body.error, "rate_limited");
+      assert.ok(body.retryAfterSec > 0);
+    } finally {
+      await limited.close();
+    }
+  });
+});
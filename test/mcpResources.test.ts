@@ -0,0 +1,144 @@
+import assert from "node:assert/strict";
+import { after, before, describe, test } from "node:test";
+import { ResourceUpdatedNotificationSchema } from "@modelcontextprotocol/sdk/types.js";
+import { ToolRateLimiter } from "../src/rateLimit.js";
+import { connect, createClient, startUpstream, type Upstream } from "./helpers.js";
+
+describe("MCP resources", () => {
+  let upstream: Upstream;
+  let session: Awaited<ReturnType<typeof connect>>;
+
+  const readJson = async (uri: string) => {
+    const result = await session.client.readResource({ uri });
+    const [content] = result.contents;
+    assert.equal(content.mimeType, "application/json");
+    assert.ok("text" in content);
+    return JSON.parse(content.text);
+  };
+
+  before(async () => {
+    upstream = await startUpstream();
+    session = await connect();
+  });
+
+  after(async () => {
+    await session.close();
+    await upstream.close();
+  });
+
+  test("lists the static resource and templates", async () => {
+    const { resourceTemplates } = await session.client.listResourceTemplates();
+    assert.deepEqual(resourceTemplates.map((template) => template.uriTemplate).sort(), [
+      "flair://rooms/{id}",
+      "flair://structures/{id}",
+      "flair://vents/{id}"
+    ]);
+
+    const { resources } = await session.client.listResources();
+    const uris = resources.map((resource) => resource.uri);
+    assert.ok(uris.includes("flair://structures"));
+    assert.equal(uris.filter((uri) => uri.startsWith("flair://vents/")).length, upstream.list("vents").length);
+  });
+
+  test("reads compact structure, room and vent views", async () => {
+    const [structure] = upstream.list("structures");
+    const listed = await readJson("flair://structures");
+    assert.equal(listed.structures[0].name, "Simulated Home");
+
+    const detail = await readJson(`flair://structures/${structure.id}`);
+    assert.equal(detail.rooms.length, upstream.list("rooms").length);
+    assert.equal(detail.home, true);
+
+    const vent = upstream.list("vents")[0];
+    const roomId = (vent.relationships?.room?.data as { id: string }).id;
+    const room = await readJson(`flair://rooms/${roomId}`);
+    assert.equal(room.structure_id, structure.id);
+    assert.ok(room.vents.some((item: { id: string }) => item.id === vent.id));
+
+    const ventView = await readJson(`flair://vents/${vent.id}`);
+    assert.equal(ventView.name, vent.attributes?.name);
+    assert.equal(ventView.name_source, "api");
+    assert.equal(ventView.percent_open, vent.attributes?.["percent-open"]);
+    assert.equal("relationships" in ventView, false);
+  });
+
+  test("unknown IDs surface as errors", async () => {
+    await assert.rejects(session.client.readResource({ uri: "flair://vents/missing-vent" }));
+  });
+
+  test("completes IDs by prefix or name", async () => {
+    const vent = upstream.list("vents")[0];
+    const byPrefix = await session.client.complete({
+      ref: { type: "ref/resource", uri: "flair://vents/{id}" },
+      argument: { name: "id", value: vent.id.slice(0, 4) }
+    });
+    assert.ok(byPrefix.completion.values.includes(vent.id));
+
+    const kitchen = upstream.list("rooms").find((room) => room.attributes?.name === "Kitchen")!;
+    const byName = await session.client.complete({
+      ref: { type: "ref/resource", uri: "flair://rooms/{id}" },
+      argument: { name: "id", value: "kitch" }
+    });
+    assert.deepEqual(byName.completion.values, [kitchen.id]);
+  });
+
+  test("resource reads draw on the read rate-limit budget", async () => {
+    const limited = await connect({
+      rateLimiter: new ToolRateLimiter({ read: { burst: 1, perMinute: 1 }, write: { burst: 1, perMinute: 1 } }),
+      clientKey: "test"
+    });
+    try {
+      await limited.client.readResource({ uri: "flair://structures" });
+      await assert.rejects(limited.client.readResource({ uri: "flair://structures" }), /Rate limit exceeded/);
+    } finally {
+      await limited.close();
+    }
+  });
+
+  test("ID completions draw on the read rate-limit budget", async () => {
+    const limited = await connect({
+      rateLimiter: new ToolRateLimiter({ read: { burst: 1, perMinute: 1 }, write: { burst: 1, perMinute: 1 } }),
+      clientKey: "test"
+    });
+    const complete = () =>
+      limited.client.complete({ ref: { type: "ref/resource", uri: "flair://rooms/{id}" }, argument: { name: "id", value: "k" } });
+    try {
+      await complete();
+      await assert.rejects(complete(), /Rate limit exceeded/);
+    } finally {
+      await limited.close();
+    }
+  });
+
+  test("subscribed sessions are notified when a vent changes", async () => {
+    const flairApi = createClient();
+    const subscriber = await connect(undefined, flairApi);
+    const updates: string[] = [];
+    subscriber.client.setNotificationHandler(ResourceUpdatedNotificationSchema, (notification) => {
+      updates.push(notification.params.uri);
+    });
+
+    try {
+      const [vent, otherVent] = upstream.list("vents");
+      await subscriber.client.subscribeResource({ uri: `flair://vents/${vent.id}` });
+      await subscriber.client.subscribeResource({ uri: `flair://vents/${otherVent.id}` });
+      await flairApi.pollResourceChanges();
+      assert.equal(flairApi.getChangePollerStatus().subscribers, 1);
+
+      const target = vent.attributes?.["percent-open"] === 100 ? 0 : 100;
+      await flairApi.setVentPercentOpen(vent.id, target);
+      await new Promise((resolve) => setTimeout(resolve, 50));
+      const changed = await flairApi.pollResourceChanges();
+      await new Promise((resolve) => setTimeout(resolve, 10));
+
+      const roomId = (vent.relationships?.room?.data as { id: string }).id;
+      assert.ok(changed.some((ref) => ref.resourceType === "rooms" && ref.resourceId === roomId));
+      assert.deepEqual(updates, [`flair://vents/${vent.id}`]);
+
+      await assert.rejects(subscriber.client.subscribeResource({ uri: "flair://structures" }), /support subscriptions/);
+    } finally {
+      await subscriber.close();
+    }
+    assert.equal(flairApi.getChangePollerStatus().subscribers, 0);
+  });
+});
@@ -0,0 +1,50 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { NameResolutionError, normalizeName, rankCandidates, scoreName, type NameCandidate } from "../src/nameResolver.js";
+
+const candidates: NameCandidate[] = [
+  { id: "r1", type: "rooms", name: "Kid's Room" },
+  { id: "r2", type: "rooms", name: "Primary Bedroom" },
+  { id: "r3", type: "rooms", name: "Guest Bedroom" },
+  { id: "r4", type: "rooms", name: "Kitchen" },
+  { id: "v1", type: "vents", name: "Vent 1", aliases: ["Kitchen Vent 1"], room_name: "Kitchen" }
+];
+
+describe("normalizeName and scoreName", () => {
+  test("ignore case, accents, apostrophes and punctuation", () => {
+    assert.equal(normalizeName("  Kid’s  Room! "), "kids room");
+    assert.equal(normalizeName("Salón-Comedor"), "salon comedor");
+    assert.equal(scoreName("kids room", "Kid's Room"), 1);
+    assert.equal(scoreName("LivingRoom", "Living Room"), 0.97);
+    assert.equal(scoreName("office", "Kitchen") < 0.6, true);
+  });
+});
+
+describe("rankCandidates", () => {
+  test("matches IDs exactly and names loosely", () => {
+    assert.equal(rankCandidates("r3", candidates).match?.matched_on, "id");
+
+    const kids = rankCandidates("kids room", candidates);
+    assert.equal(kids.status, "matched");
+    assert.equal(kids.match?.id, "r1");
+
+    const typo = rankCandidates("kitchn", candidates);
+    assert.equal(typo.match?.id, "r4");
+
+    const alias = rankCandidates("kitchen vent 1", candidates);
+    assert.deepEqual([alias.match?.id, alias.match?.matched_on], ["v1", "alias"]);
+    assert.equal("aliases" in (alias.match ?? {}), false);
+  });
+
+  test("reports close calls as ambiguous and misses with near candidates", () => {
+    const bedroom = rankCandidates("bedroom", candidates);
+    assert.equal(bedroom.status, "ambiguous");
+    assert.deepEqual(bedroom.candidates.map((candidate) => candidate.id).sort(), ["r2", "r3"]);
+    assert.match(new NameResolutionError("rooms", bedroom).message, /matches several rooms: .*Bedroom, .*Bedroom/);
+
+    const missing = rankCandidates("garage", candidates);
+    assert.equal(missing.status, "not_found");
+    assert.equal(missing.match, undefined);
+    assert.equal(new NameResolutionError("rooms", missing).message, 'No rooms match "garage"');
+  });
+});
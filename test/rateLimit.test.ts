@@ -0,0 +1,53 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { ToolRateLimiter } from "../src/rateLimit.js";
+
+const budgets = {
+  read: { burst: 2, perMinute: 60 },
+  write: { burst: 1, perMinute: 6 }
+};
+
+describe("ToolRateLimiter", () => {
+  test("spends the burst, then refills at the per-minute rate", () => {
+    const limiter = new ToolRateLimiter(budgets);
+    const keys = { sessionId: "s1" };
+    assert.deepEqual(limiter.consume(keys, "read", 0), { ok: true });
+    assert.deepEqual(limiter.consume(keys, "read", 0), { ok: true });
+    assert.deepEqual(limiter.consume(keys, "read", 0), { ok: false, retryAfterMs: 1000, limitedBy: "session", access: "read" });
+
+    // Half a token after 500ms is not enough; a full one after 1s is.
+    assert.equal(limiter.consume(keys, "read", 500).ok, false);
+    assert.deepEqual(limiter.consume(keys, "read", 1000), { ok: true });
+    // Refill stops at the burst size.
+    assert.equal(limiter.consume(keys, "read", 600000).ok, true);
+    assert.equal(limiter.consume(keys, "read", 600000).ok, true);
+    assert.equal(limiter.consume(keys, "read", 600000).ok, false);
+  });
+
+  test("keeps separate read and write budgets", () => {
+    const limiter = new ToolRateLimiter(budgets);
+    const keys = { sessionId: "s1" };
+    assert.equal(limiter.consume(keys, "write", 0).ok, true);
+    assert.deepEqual(limiter.consume(keys, "write", 0), { ok: false, retryAfterMs: 10000, limitedBy: "session", access: "write" });
+    // Exhausted writes leave reads alone.
+    assert.equal(limiter.consume(keys, "read", 0).ok, true);
+    assert.equal(limiter.consume(keys, "write", 10000).ok, true);
+  });
+
+  test("a call must fit both the session and the client bucket", () => {
+    const limiter = new ToolRateLimiter(budgets);
+    assert.equal(limiter.consume({ sessionId: "s1", clientKey: "ip:10.0.0.1" }, "write", 0).ok, true);
+
+    // A new session from the same client is still held back by the client bucket.
+    assert.deepEqual(limiter.consume({ sessionId: "s2", clientKey: "ip:10.0.0.1" }, "write", 0), {
+      ok: false,
+      retryAfterMs: 10000,
+      limitedBy: "client",
+      access: "write"
+    });
+    // The refused call charged nothing, so session s2 can still write from another client.
+    assert.equal(limiter.consume({ sessionId: "s2", clientKey: "ip:10.0.0.2" }, "write", 0).ok, true);
+    assert.equal(limiter.consume({ sessionId: "s2" }, "write", 0).ok, false);
+    assert.equal(limiter.getStatus().trackedBuckets, 4);
+  });
+});
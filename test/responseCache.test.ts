@@ -0,0 +1,55 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import type { JsonApiDocument } from "../src/flairTypes.js";
+import { ResponseCache } from "../src/responseCache.js";
+
+const options = { defaultTtlMs: 60_000, ttlByType: {}, maxEntries: 10 };
+
+const roomDoc = (name: string): JsonApiDocument => ({ data: { type: "rooms", id: "r1", attributes: { name } } });
+
+const deferred = () => {
+  let resolve!: (doc: JsonApiDocument) => void;
+  const promise = new Promise<JsonApiDocument>((done) => {
+    resolve = done;
+  });
+  return { promise, resolve };
+};
+
+describe("ResponseCache", () => {
+  test("hands every caller its own copy of the document", async () => {
+    const cache = new ResponseCache(options);
+    const first = await cache.getOrLoad("/rooms/r1", "rooms", async () => roomDoc("Office"));
+    (first.data as { attributes: Record<string, unknown> }).attributes.name = "Mutated";
+
+    const second = await cache.getOrLoad("/rooms/r1", "rooms", async () => roomDoc("Unused"));
+    assert.deepEqual(second, roomDoc("Office"));
+    assert.notEqual(second, first);
+    assert.equal(cache.getStatus().hits, 1);
+  });
+
+  test("does not coalesce onto a load that started before an invalidation", async () => {
+    const cache = new ResponseCache(options);
+    const stale = deferred();
+    const beforeWrite = cache.getOrLoad("/rooms/r1", "rooms", () => stale.promise);
+    cache.invalidateTypes(["rooms"]);
+    assert.equal(cache.getStatus().inflight, 0);
+
+    const afterWrite = cache.getOrLoad("/rooms/r1", "rooms", async () => roomDoc("Renamed"));
+    stale.resolve(roomDoc("Office"));
+    assert.deepEqual(await beforeWrite, roomDoc("Office"));
+    assert.deepEqual(await afterWrite, roomDoc("Renamed"));
+
+    // The stale load neither cached its result nor cleared the fresh one.
+    assert.deepEqual(await cache.getOrLoad("/rooms/r1", "rooms", async () => roomDoc("Unused")), roomDoc("Renamed"));
+    assert.deepEqual(cache.getStatus(), {
+      entries: 1,
+      inflight: 0,
+      hits: 1,
+      misses: 2,
+      coalesced: 0,
+      invalidations: 1,
+      evictions: 0,
+      hitRatio: 0.333
+    });
+  });
+});
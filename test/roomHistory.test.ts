@@ -0,0 +1,65 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { analyzeRoomSeries, classifyTrend, type RoomStatPoint } from "../src/roomHistory.js";
+
+const startMs = Date.parse("2026-01-01T20:00:00.000Z");
+const minutes = (count: number) => count * 60 * 1000;
+
+// One sample every 10 minutes for three hours, changing by `perHour` °C each hour.
+const series = (perHour: number): RoomStatPoint[] =>
+  Array.from({ length: 19 }, (_, index) => ({
+    atMs: startMs + minutes(index * 10),
+    temperatureC: 21 + (perHour * index) / 6,
+    humidity: 40 + index
+  }));
+
+const options = { bucketMs: minutes(60), stableThresholdCPerHour: 0.2 };
+
+describe("analyzeRoomSeries", () => {
+  test("summarizes a cooling room with hourly buckets", () => {
+    const result = analyzeRoomSeries(series(-0.5).reverse(), options);
+    assert.equal(result.samples, 19);
+    assert.equal(result.trend, "cooling");
+    assert.equal(result.rate_c_per_hour, -0.5);
+    assert.equal(result.rate_f_per_hour, -0.9);
+    assert.equal(result.change_c, -1.5);
+    assert.equal(result.first_at, "2026-01-01T20:00:00.000Z");
+    assert.deepEqual(result.temperature, {
+      latest_c: 19.5,
+      latest_f: 67.1,
+      min_c: 19.5,
+      max_c: 21,
+      mean_c: 20.25,
+      min_f: 67.1,
+      max_f: 69.8,
+      mean_f: 68.45
+    });
+    assert.deepEqual(result.humidity, { latest: 58, min: 40, max: 58, mean: 49 });
+    assert.deepEqual(
+      result.buckets.map((bucket) => [bucket.start, bucket.samples]),
+      [
+        ["2026-01-01T20:00:00.000Z", 6],
+        ["2026-01-01T21:00:00.000Z", 6],
+        ["2026-01-01T22:00:00.000Z", 6],
+        ["2026-01-01T23:00:00.000Z", 1]
+      ]
+    );
+    assert.equal("points" in result, false);
+  });
+
+  test("labels small drifts stable and large ones warming", () => {
+    assert.equal(analyzeRoomSeries(series(0.1), options).trend, "stable");
+    assert.equal(analyzeRoomSeries(series(0.3), options).trend, "warming");
+    assert.equal(analyzeRoomSeries(series(0.3), { ...options, stableThresholdCPerHour: 0.5 }).trend, "stable");
+  });
+
+  test("needs at least two samples at different times for a trend", () => {
+    assert.deepEqual(analyzeRoomSeries([], options), { samples: 0, trend: "insufficient_data", buckets: [] });
+
+    const single = analyzeRoomSeries([{ atMs: startMs, temperatureC: 20 }], { ...options, includePoints: true });
+    assert.equal(single.trend, "insufficient_data");
+    assert.equal(single.rate_c_per_hour, undefined);
+    assert.deepEqual(single.points, [{ at: "2026-01-01T20:00:00.000Z", temperature_c: 20, temperature_f: 68 }]);
+    assert.equal(classifyTrend(null, 0.2), "insufficient_data");
+  });
+});
@@ -0,0 +1,155 @@
+import assert from "node:assert/strict";
+import { mkdtemp, rm } from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { after, before, describe, test } from "node:test";
+import { AuditLog } from "../src/auditLog.js";
+import { RuleEngine } from "../src/ruleEngine.js";
+import { validateRuleDefinition, type RuleDefinition } from "../src/rules.js";
+import { RuleStore } from "../src/ruleStore.js";
+import { WriteJournal } from "../src/writeJournal.js";
+import { createClient, startUpstream, type Upstream } from "./helpers.js";
+
+const verify = { attempts: 4, initialDelayMs: 30, backoffMultiplier: 1.5 };
+
+describe("RuleEngine", () => {
+  let upstream: Upstream;
+  let flairApi: ReturnType<typeof createClient>;
+  let ventId: string;
+  let dir: string;
+
+  const openWhenMostlyClosed = (overrides: Partial<RuleDefinition> = {}) =>
+    validateRuleDefinition({
+      name: "Open mostly closed vent",
+      scope: { ventId },
+      conditions: { ventPercentOpen: { operator: "lt", value: 50 } },
+      action: { type: "set_vent_percent_open", percentOpen: 100 },
+      cooldownMinutes: 30,
+      dryRun: false,
+      enabled: true,
+      ...overrides
+    });
+
+  const percentOpen = () => upstream.get("vents", ventId)?.attributes?.["percent-open"];
+
+  before(async () => {
+    upstream = await startUpstream();
+    flairApi = createClient();
+    ventId = upstream.list("vents")[0].id;
+    dir = await mkdtemp(path.join(os.tmpdir(), "flair-rule-engine-"));
+  });
+
+  after(async () => {
+    await upstream.close();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  test("applies matching rules, journals and audits the write and then cools down", async () => {
+    await flairApi.setVentsPercentOpen({ ventIds: [ventId] }, 20, { concurrency: 1, verify });
+    const store = new RuleStore({ maxRules: 10, maxFirings: 10 });
+    const journal = new WriteJournal({ maxEntries: 10 });
+    const rule = await store.add(openWhenMostlyClosed());
+    const auditLog = new AuditLog({ filePath: path.join(dir, "audit.jsonl"), maxBytes: 1_000_000, maxFiles: 1 });
+    const engine = new RuleEngine(flairApi, store, {
+      intervalMs: 60000,
+      maxIntervalMs: 60000,
+      dryRun: false,
+      journal,
+      auditLog,
+      verify
+    });
+
+    const [fired] = await engine.evaluateNow();
+    assert.equal(fired.status, "applied");
+    assert.deepEqual(fired.vents.map((row) => [row.ventId, row.before, row.after, row.status]), [[ventId, 20, 100, "succeeded"]]);
+    assert.equal(percentOpen(), 100);
+    const entry = await journal.get(fired.journalEntryId!);
+    assert.equal(entry?.tool, "rule_engine");
+    assert.deepEqual(entry?.changes[0].before, { "percent-open": 20 });
+    assert.ok((await store.get(rule.id))?.lastFiredAt);
+    const [audited] = await auditLog.query({ tool: "rule_engine" });
+    assert.equal(audited.client, "rule:Open mostly closed vent");
+    assert.equal(audited.outcome, "ok");
+    assert.ok(audited.upstream.some((write) => write.method === "POST" && write.path.includes("vent-states")));
+
+    await flairApi.setVentsPercentOpen({ ventIds: [ventId] }, 20, { concurrency: 1, verify });
+    assert.deepEqual(await engine.evaluateNow(), []);
+    assert.equal(percentOpen(), 20);
+    assert.equal(engine.getStatus().firings, 1);
+  });
+
+  test("records dry-run firings without writing", async () => {
+    const store = new RuleStore({ maxRules: 10, maxFirings: 10 });
+    await store.add(openWhenMostlyClosed({ dryRun: true }));
+    const engine = new RuleEngine(flairApi, store, { intervalMs: 60000, maxIntervalMs: 60000, dryRun: false, verify });
+
+    const [fired] = await engine.evaluateNow();
+    assert.equal(fired.status, "dry_run");
+    assert.equal(fired.vents[0].status, "planned");
+    assert.equal(percentOpen(), 20);
+    assert.equal((await store.listFirings()).length, 1);
+  });
+
+  test("skips disabled rules and records vent policy refusals as blocked", async () => {
+    const store = new RuleStore({ maxRules: 10, maxFirings: 10 });
+    await store.add(openWhenMostlyClosed({ enabled: false }));
+    await store.add(
+      openWhenMostlyClosed({
+        name: "Close vent",
+        conditions: { ventPercentOpen: { operator: "gt", value: 0 } },
+        action: { type: "set_vent_percent_open", percentOpen: 0 }
+      })
+    );
+    const engine = new RuleEngine(flairApi, store, {
+      intervalMs: 60000,
+      maxIntervalMs: 60000,
+      dryRun: false,
+      ventPolicy: { maxClosedFraction: 0, roomMinPercent: {}, quietHours: null },
+      verify
+    });
+
+    const firings = await engine.evaluateNow();
+    assert.deepEqual(firings.map((firing) => [firing.ruleName, firing.status]), [["Close vent", "blocked"]]);
+    assert.ok(firings[0].message);
+    assert.equal(percentOpen(), 20);
+  });
+
+  test("checks each rule against the vents earlier rules in the pass already closed", async () => {
+    const structureId = upstream.list("structures")[0].id;
+    const structureVents = upstream
+      .list("vents")
+      .filter((vent) => (vent.relationships?.structure?.data as { id: string }).id === structureId);
+    await flairApi.setVentsPercentOpen({ structureId }, 100, { concurrency: 4, verify });
+    const [first, second] = structureVents;
+    const store = new RuleStore({ maxRules: 10, maxFirings: 10 });
+    for (const [name, vent] of [["Close first", first], ["Close second", second]] as const) {
+      await store.add(
+        openWhenMostlyClosed({
+          name,
+          scope: { ventId: vent.id },
+          conditions: { ventPercentOpen: { operator: "gt", value: 0 } },
+          action: { type: "set_vent_percent_open", percentOpen: 0 }
+        })
+      );
+    }
+    // Either rule alone stays under the limit; both together go over it.
+    const engine = new RuleEngine(flairApi, store, {
+      intervalMs: 60000,
+      maxIntervalMs: 60000,
+      dryRun: false,
+      ventPolicy: { maxClosedFraction: 1.5 / structureVents.length, roomMinPercent: {}, quietHours: null },
+      verify
+    });
+
+    const firings = await engine.evaluateNow();
+    assert.deepEqual(
+      firings.map((firing) => [firing.ruleName, firing.status]),
+      [
+        ["Close first", "applied"],
+        ["Close second", "blocked"]
+      ]
+    );
+    assert.equal(upstream.get("vents", first.id)?.attributes?.["percent-open"], 0);
+    assert.equal(upstream.get("vents", second.id)?.attributes?.["percent-open"], 100);
+  });
+});
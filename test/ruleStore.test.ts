@@ -0,0 +1,73 @@
+import assert from "node:assert/strict";
+import { mkdtemp, readFile, rm } from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { after, before, describe, test } from "node:test";
+import type { RuleDefinition } from "../src/rules.js";
+import { RuleStore } from "../src/ruleStore.js";
+
+const definition = (name: string): RuleDefinition => ({
+  name,
+  scope: { roomId: "r1" },
+  conditions: { roomTemperatureC: { operator: "lt", value: 18 } },
+  action: { type: "set_vent_percent_open", percentOpen: 100 },
+  cooldownMinutes: 30,
+  dryRun: false,
+  enabled: true
+});
+
+const firing = (ruleId: string) => ({
+  ruleId,
+  ruleName: "Warm",
+  status: "applied" as const,
+  vents: [{ ventId: "v1", before: 0, after: 100, status: "succeeded" }],
+  rooms: []
+});
+
+describe("RuleStore", () => {
+  let dir: string;
+
+  before(async () => {
+    dir = await mkdtemp(path.join(os.tmpdir(), "flair-rules-"));
+  });
+
+  after(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  test("persists rules and firings and reloads them after a restart", async () => {
+    const filePath = path.join(dir, "nested", "rules.json");
+    const store = new RuleStore({ filePath, maxRules: 10, maxFirings: 10 });
+    const rule = await store.add(definition("Warm"));
+    await store.update(rule.id, { enabled: false });
+    await store.recordFiring(firing(rule.id));
+
+    const onDisk = JSON.parse(await readFile(filePath, "utf8"));
+    assert.equal(onDisk.rules.length, 1);
+    assert.equal(onDisk.firings.length, 1);
+
+    const reloaded = new RuleStore({ filePath, maxRules: 10, maxFirings: 10 });
+    const [loaded] = await reloaded.list();
+    assert.equal(loaded.enabled, false);
+    assert.ok(loaded.lastFiredAt);
+    assert.equal((await reloaded.get("WARM"))?.id, rule.id);
+    assert.equal((await reloaded.listFirings({ ruleId: rule.id })).length, 1);
+  });
+
+  test("keeps names unique, enforces the limit and caps the firing log", async () => {
+    const store = new RuleStore({ maxRules: 2, maxFirings: 3 });
+    const first = await store.add(definition("One"));
+    await assert.rejects(store.add(definition(" one")), /already exists/);
+    await store.add(definition("Two"));
+    await assert.rejects(store.add(definition("Three")), /Rule limit of 2 reached/);
+
+    for (let index = 0; index < 5; index += 1) {
+      await store.recordFiring(firing(first.id));
+    }
+    assert.equal((await store.listFirings({ limit: 10 })).length, 3);
+
+    assert.equal(await store.delete(first.id), true);
+    assert.equal(await store.delete(first.id), false);
+    assert.equal(await store.get("One"), undefined);
+  });
+});
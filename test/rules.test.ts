@@ -0,0 +1,135 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import {
+  cooldownRemainingMs,
+  describeRule,
+  isWithinTimeWindow,
+  planRuleTargets,
+  validateRuleDefinition,
+  type Rule,
+  type RuleDefinition,
+  type RuleVentState
+} from "../src/rules.js";
+
+const coldRoomRule: RuleDefinition = {
+  name: "Warm cold rooms",
+  scope: {},
+  conditions: {
+    roomTemperatureC: { operator: "lt", value: 18 },
+    ventPercentOpen: { operator: "lt", value: 50 }
+  },
+  action: { type: "set_vent_percent_open", percentOpen: 100 },
+  cooldownMinutes: 30,
+  dryRun: false,
+  enabled: true
+};
+
+const vents: RuleVentState[] = [
+  { id: "v1", name: "Office Vent", structure_id: "s1", room_id: "r1", room_name: "Office", percent_open: 20, room_temperature_c: 17 },
+  { id: "v2", name: "Office Vent 2", structure_id: "s1", room_id: "r1", room_name: "Office", percent_open: 80, room_temperature_c: 17 },
+  { id: "v3", name: "Den Vent", structure_id: "s1", room_id: "r2", room_name: "Den", percent_open: 0, room_temperature_c: 21 },
+  { id: "v4", name: "Attic Vent", structure_id: "s1", room_id: "r3", room_name: "Attic", percent_open: 0 }
+];
+
+// 2026-03-02 is a Monday.
+const at = (time: string) => Date.parse(`2026-03-02T${time}:00Z`);
+
+describe("validateRuleDefinition", () => {
+  test("rejects incomplete comparisons, empty windows and rules without conditions", () => {
+    const withConditions = (conditions: RuleDefinition["conditions"]) => ({ ...coldRoomRule, conditions });
+    assert.throws(() => validateRuleDefinition(withConditions({ roomHumidity: { operator: "gt" } })), /room_humidity needs a value/);
+    assert.throws(
+      () => validateRuleDefinition(withConditions({ roomTemperatureC: { operator: "between", min: 22, max: 18 } })),
+      /min must not be above max/
+    );
+    assert.throws(
+      () => validateRuleDefinition(withConditions({ timeOfDay: { start: "22:00", end: "22:00" } })),
+      /start and end must differ/
+    );
+    assert.throws(() => validateRuleDefinition(withConditions({})), /at least one condition/);
+    assert.throws(
+      () => validateRuleDefinition({ ...coldRoomRule, action: { type: "set_room_setpoint", setPointC: 50 } }),
+      /between 5°C and 35°C/
+    );
+  });
+
+  test("normalizes days and trims the name", () => {
+    const rule = validateRuleDefinition({
+      ...coldRoomRule,
+      name: "  Night ",
+      conditions: { timeOfDay: { start: "22:00", end: "06:00", days: ["friday", "monday"] } }
+    });
+    assert.equal(rule.name, "Night");
+    assert.deepEqual(rule.conditions.timeOfDay?.days, ["monday", "friday"]);
+  });
+});
+
+describe("planRuleTargets", () => {
+  test("targets vents meeting every condition and skips those already at the value", () => {
+    const targets = planRuleTargets(coldRoomRule, vents, []);
+    assert.deepEqual(targets.vents, [{ ventId: "v1", name: "Office Vent", roomName: "Office", before: 20, after: 100 }]);
+    assert.deepEqual(targets.rooms, []);
+  });
+
+  test("never matches a vent whose room has no reading, and honors the scope", () => {
+    const closeAll: RuleDefinition = { ...coldRoomRule, conditions: { roomTemperatureC: { operator: "gte", value: 0 } } };
+    assert.deepEqual(planRuleTargets(closeAll, vents, []).vents.map((target) => target.ventId), ["v1", "v2", "v3"]);
+    const scoped = { ...closeAll, scope: { roomId: "r2" } };
+    assert.deepEqual(planRuleTargets(scoped, vents, []).vents.map((target) => target.ventId), ["v3"]);
+  });
+
+  test("set point actions target each matching vent's room once", () => {
+    const rule: RuleDefinition = {
+      ...coldRoomRule,
+      conditions: { roomTemperatureC: { operator: "lt", value: 18 } },
+      action: { type: "set_room_setpoint", setPointC: 21 }
+    };
+    const rooms = [
+      { id: "r1", name: "Office", set_point_c: 19 },
+      { id: "r2", name: "Den", set_point_c: 20 }
+    ];
+    assert.deepEqual(planRuleTargets(rule, vents, rooms).rooms, [{ roomId: "r1", name: "Office", before: 19, after: 21 }]);
+    assert.deepEqual(planRuleTargets(rule, vents, [{ id: "r1", set_point_c: 21 }]).rooms, []);
+  });
+
+  test("is empty outside the time window", () => {
+    const night: RuleDefinition = {
+      ...coldRoomRule,
+      conditions: { ...coldRoomRule.conditions, timeOfDay: { start: "22:00", end: "06:00" } }
+    };
+    assert.equal(planRuleTargets(night, vents, [], at("12:00"), "UTC").vents.length, 0);
+    assert.equal(planRuleTargets(night, vents, [], at("23:30"), "UTC").vents.length, 1);
+  });
+});
+
+describe("rule timing", () => {
+  test("time windows wrap midnight and check the local day", () => {
+    const window = { start: "22:00", end: "06:00", days: ["monday" as const] };
+    assert.equal(isWithinTimeWindow(window, at("23:00"), "UTC"), true);
+    assert.equal(isWithinTimeWindow(window, at("05:59"), "UTC"), true);
+    assert.equal(isWithinTimeWindow(window, at("06:00"), "UTC"), false);
+    assert.equal(isWithinTimeWindow(window, at("23:00") + 24 * 60 * 60 * 1000, "UTC"), false);
+    assert.equal(isWithinTimeWindow({ start: "08:00", end: "17:00" }, at("09:00"), "America/New_York"), false);
+  });
+
+  test("cooldown counts from the last firing", () => {
+    const rule: Rule = { ...coldRoomRule, id: "r", createdAt: "", updatedAt: "", lastFiredAt: new Date(at("12:00")).toISOString() };
+    assert.equal(cooldownRemainingMs(rule, at("12:10")), 20 * 60 * 1000);
+    assert.equal(cooldownRemainingMs(rule, at("12:45")), 0);
+    assert.equal(cooldownRemainingMs({ ...rule, lastFiredAt: undefined }, at("12:10")), 0);
+  });
+});
+
+describe("describeRule", () => {
+  test("reads the conditions and action back", () => {
+    assert.equal(describeRule(coldRoomRule), "When room temperature < 18°C (64.4°F) and vent open < 50%: set vents to 100% open");
+    assert.equal(
+      describeRule({
+        ...coldRoomRule,
+        conditions: { timeOfDay: { start: "22:00", end: "06:00", days: ["monday", "tuesday", "wednesday", "thursday", "friday"] } },
+        action: { type: "set_room_setpoint", setPointC: 18 }
+      }),
+      "During 22:00-06:00 on Mon-Fri: set matching rooms to 18°C (64.4°F)"
+    );
+  });
+});
@@ -0,0 +1,62 @@
+import assert from "node:assert/strict";
+import { mkdtemp, readFile, rm } from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { after, before, describe, test } from "node:test";
+import { SceneStore } from "../src/sceneStore.js";
+
+const scene = (name: string, percentOpen = 50) => ({
+  name,
+  source: "manual" as const,
+  vents: [{ ventId: "v1", ventName: "Office Vent", percentOpen }],
+  rooms: [{ roomId: "r1", roomName: "Office", setPointC: 20 }]
+});
+
+describe("SceneStore", () => {
+  let dir: string;
+
+  before(async () => {
+    dir = await mkdtemp(path.join(os.tmpdir(), "flair-scenes-"));
+  });
+
+  after(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  test("persists scenes and reloads them after a restart", async () => {
+    const filePath = path.join(dir, "nested", "scenes.json");
+    const store = new SceneStore({ filePath, maxScenes: 10 });
+    await store.save(scene("Movie Night"));
+    await store.save(scene("Away", 0));
+
+    const onDisk = JSON.parse(await readFile(filePath, "utf8"));
+    assert.equal(onDisk.scenes.length, 2);
+
+    const reloaded = new SceneStore({ filePath, maxScenes: 10 });
+    assert.deepEqual((await reloaded.list()).map((entry) => entry.name), ["Away", "Movie Night"]);
+    assert.equal((await reloaded.get("  movie NIGHT "))?.vents[0].percentOpen, 50);
+  });
+
+  test("requires overwrite to replace a scene and keeps its creation time", async () => {
+    const store = new SceneStore({ maxScenes: 10 });
+    const first = await store.save(scene("Movie Night"));
+    await assert.rejects(store.save(scene("movie night", 30)), /already exists; pass overwrite=true/);
+
+    const replaced = await store.save(scene("movie night", 30), { overwrite: true });
+    assert.equal(replaced.createdAt, first.createdAt);
+    assert.equal(replaced.vents[0].percentOpen, 30);
+    assert.equal((await store.list()).length, 1);
+  });
+
+  test("enforces the scene limit until one is deleted", async () => {
+    const store = new SceneStore({ maxScenes: 2 });
+    await store.save(scene("One"));
+    await store.save(scene("Two"));
+    await assert.rejects(store.save(scene("Three")), /Scene limit of 2 reached/);
+
+    assert.equal(await store.delete("one"), true);
+    assert.equal(await store.delete("one"), false);
+    await store.save(scene("Three"));
+    assert.deepEqual((await store.list()).map((entry) => entry.name), ["Three", "Two"]);
+  });
+});
@@ -0,0 +1,73 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { describeScheduleEvent, formatDays, scheduleEventAttributes } from "../src/schedules.js";
+
+describe("formatDays", () => {
+  test("collapses runs of three or more days", () => {
+    assert.equal(formatDays(["friday", "monday", "wednesday", "tuesday", "thursday"]), "Mon-Fri");
+    assert.equal(formatDays(["saturday", "sunday"]), "Sat, Sun");
+    assert.equal(formatDays(["monday", "tuesday", "wednesday", "saturday"]), "Mon-Wed, Sat");
+    assert.equal(
+      formatDays(["monday", "tuesday", "wednesday", "thursday", "friday", "saturday", "sunday"]),
+      "Every day"
+    );
+  });
+});
+
+describe("scheduleEventAttributes", () => {
+  test("builds upstream attributes in week order", () => {
+    assert.deepEqual(
+      scheduleEventAttributes(
+        {
+          days: ["sunday", "saturday", "sunday"],
+          time: "08:30",
+          setPointC: 21.111,
+          roomSetPoints: [{ roomId: "r1", setPointC: 19 }],
+          home: false
+        },
+        { create: true }
+      ),
+      {
+        days: ["saturday", "sunday"],
+        "start-time": "08:30",
+        "set-point-c": 21.11,
+        "room-set-points": [{ "room-id": "r1", "set-point-c": 19 }],
+        home: false
+      }
+    );
+    assert.deepEqual(scheduleEventAttributes({ time: "06:00" }), { "start-time": "06:00" });
+  });
+
+  test("rejects events that do nothing or repeat a room", () => {
+    assert.throws(() => scheduleEventAttributes({ days: ["monday"], time: "07:00" }, { create: true }), /set_point_c/);
+    assert.throws(() => scheduleEventAttributes({ setPointC: 20 }, { create: true }), /days and time/);
+    assert.throws(() => scheduleEventAttributes({ time: "7:00" }), /HH:MM/);
+    assert.throws(() => scheduleEventAttributes({}), /at least one field/);
+    assert.throws(
+      () =>
+        scheduleEventAttributes({
+          roomSetPoints: [
+            { roomId: "r1", setPointC: 19 },
+            { roomId: "r1", setPointC: 20 }
+          ]
+        }),
+      /listed more than once/
+    );
+  });
+});
+
+describe("describeScheduleEvent", () => {
+  test("reads back days, time and every action", () => {
+    assert.equal(
+      describeScheduleEvent({
+        id: "e1",
+        days: ["monday", "tuesday", "wednesday", "thursday", "friday"],
+        time: "22:00",
+        set_point_c: 18,
+        room_set_points: [{ room_id: "r1", room_name: "Nursery", set_point_c: 20 }],
+        home: true
+      }),
+      "Mon-Fri at 22:00: 18°C (64.4°F); Nursery 20°C (68°F); home"
+    );
+  });
+});
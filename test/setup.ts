@@ -0,0 +1,18 @@
+// Loaded via `--import` before any test module so `src/config.ts` parses a complete environment.
+// FLAIR_API_BASE_URL is repointed per test at the simulator (see `startUpstream`).
+const defaults: Record<string, string> = {
+  FLAIR_CLIENT_ID: "test-client",
+  FLAIR_CLIENT_SECRET: "test-secret",
+  FLAIR_API_BASE_URL: "http://127.0.0.1:9",
+  FLAIR_RETRY_MAX: "2",
+  FLAIR_RETRY_BASE_MS: "5",
+  FLAIR_REQUEST_TIMEOUT_MS: "3000",
+  WRITE_TOOLS_ENABLED: "true",
+  RATE_LIMIT_ENABLED: "false",
+  LOG_LEVEL: "silent",
+  LOG_FILE: ""
+};
+
+for (const [key, value] of Object.entries(defaults)) {
+  process.env[key] = value;
+}
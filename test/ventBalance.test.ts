@@ -0,0 +1,80 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { inferBalanceDirection, recommendVentBalance, type BalanceRoom, type BalanceVent } from "../src/ventBalance.js";
+
+const rooms: BalanceRoom[] = [
+  { id: "r1", name: "Nursery", temperature_c: 19, target_c: 21 },
+  { id: "r2", name: "Kitchen", temperature_c: 22, target_c: 21 },
+  { id: "r3", name: "Office", temperature_c: 21.2, target_c: 21 },
+  { id: "r4", name: "Attic" }
+];
+
+const vents: BalanceVent[] = [
+  { id: "v1", name: "Nursery Vent", room_id: "r1", structure_id: "s1", percent_open: 50 },
+  { id: "v2", name: "Kitchen Vent", room_id: "r2", structure_id: "s1", percent_open: 100 },
+  { id: "v3", name: "Office Vent", room_id: "r3", structure_id: "s1", percent_open: 60 },
+  { id: "v4", name: "Attic Vent", room_id: "r4", structure_id: "s1", percent_open: 100 },
+  { id: "v5", name: "Dead Vent", room_id: "r1", structure_id: "s1", percent_open: 20, inactive: true }
+];
+
+const tuning = { deadbandC: 0.3, fullScaleC: 2, minPercent: 0, stepPercent: 5 };
+
+const byVent = (result: ReturnType<typeof recommendVentBalance>) =>
+  Object.fromEntries(result.recommendations.map((row) => [row.vent_id, [row.recommended_percent_open, row.action]]));
+
+describe("recommendVentBalance", () => {
+  test("opens lagging rooms and closes overshooting ones while heating", () => {
+    const result = recommendVentBalance(rooms, vents, { ...tuning, direction: "heating" });
+    assert.deepEqual(byVent(result), {
+      v1: [100, "open"],
+      v2: [25, "close"],
+      v3: [60, "hold"],
+      v4: [100, "hold"],
+      v5: [20, "hold"]
+    });
+    const rationale = Object.fromEntries(result.recommendations.map((row) => [row.vent_id, row.rationale]));
+    assert.match(rationale.v1, /Nursery is 2°C below its 21°C target while heating/);
+    assert.match(rationale.v3, /deadband/);
+    assert.equal(rationale.v4, "No temperature reading for the room");
+    assert.equal(rationale.v5, "Vent is inactive");
+    assert.deepEqual(
+      result.rooms.map((room) => room.demand_c),
+      [2, -1, -0.2, undefined]
+    );
+  });
+
+  test("reverses the demand while cooling", () => {
+    const result = recommendVentBalance(rooms, vents, { ...tuning, direction: "cooling" });
+    assert.deepEqual(byVent(result).v1, [0, "close"]);
+    assert.deepEqual(byVent(result).v2, [75, "close"]);
+  });
+
+  test("plans around room floors and the closed-vent limit", () => {
+    const closing: BalanceRoom[] = [
+      { id: "r1", name: "Nursery", temperature_c: 25, target_c: 21 },
+      { id: "r2", name: "Kitchen", temperature_c: 23, target_c: 21 },
+      { id: "r3", name: "Office", temperature_c: 24, target_c: 21 }
+    ];
+    const result = recommendVentBalance(closing, vents.slice(0, 4), {
+      ...tuning,
+      direction: "heating",
+      policy: { maxClosedFraction: 0.25, roomMinPercent: { nursery: 15 } }
+    });
+    // Nursery keeps its floor; of the two remaining closures the Kitchen (least over target) stays slightly open.
+    assert.deepEqual(byVent(result), {
+      v1: [15, "close"],
+      v2: [5, "close"],
+      v3: [0, "close"],
+      v4: [100, "hold"]
+    });
+    assert.match(result.recommendations[1].rationale, /25% closed-vent limit/);
+  });
+});
+
+describe("inferBalanceDirection", () => {
+  test("prefers the structure's heat/cool mode, then the average gap", () => {
+    assert.deepEqual(inferBalanceDirection(rooms, "cool"), { direction: "cooling", source: "structure" });
+    assert.deepEqual(inferBalanceDirection(rooms, "auto"), { direction: "heating", source: "temperatures" });
+    assert.equal(inferBalanceDirection([{ id: "r", temperature_c: 25, target_c: 21 }]).direction, "cooling");
+  });
+});
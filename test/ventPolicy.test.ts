@@ -0,0 +1,94 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { evaluateVentPolicy, isWithinQuietHours, type VentPolicyConfig } from "../src/ventPolicy.js";
+
+const basePolicy: VentPolicyConfig = {
+  maxClosedFraction: 0.5,
+  roomMinPercent: {},
+  quietHours: null,
+  timeZone: "UTC"
+};
+
+const rooms = [
+  { id: "r1", name: "Basement" },
+  { id: "r2", name: "Office" }
+];
+
+const vents = [
+  { id: "v1", room_id: "r1", structure_id: "s1", percent_open: 100 },
+  { id: "v2", room_id: "r1", structure_id: "s1", percent_open: 50 },
+  { id: "v3", room_id: "r2", structure_id: "s1", percent_open: 0 },
+  { id: "v4", room_id: "r2", structure_id: "s1", percent_open: 100 }
+];
+
+describe("evaluateVentPolicy", () => {
+  test("allows changes within every rule", () => {
+    const decision = evaluateVentPolicy(basePolicy, [{ ventId: "v1", percentOpen: 0 }], vents, rooms);
+    assert.deepEqual(decision, { allowed: true, violations: [] });
+  });
+
+  test("refuses closing past the structure's closed-vent fraction", () => {
+    const decision = evaluateVentPolicy(
+      basePolicy,
+      [
+        { ventId: "v1", percentOpen: 0 },
+        { ventId: "v2", percentOpen: 0 }
+      ],
+      vents,
+      rooms
+    );
+    assert.equal(decision.allowed, false);
+    assert.equal(decision.violations[0].rule, "max_closed_fraction");
+    assert.equal(decision.violations[0].structureId, "s1");
+    assert.deepEqual(decision.violations[0].ventIds, ["v1", "v2"]);
+    assert.match(decision.violations[0].message, /3 of 4 vents closed \(75%\)/);
+  });
+
+  test("never blocks opening vents, even when already over the limit", () => {
+    const closedHouse = vents.map((vent) => ({ ...vent, percent_open: 0 }));
+    const decision = evaluateVentPolicy(basePolicy, [{ ventId: "v1", percentOpen: 40 }], closedHouse, rooms);
+    assert.equal(decision.allowed, true);
+  });
+
+  test("enforces per-room floors by name or ID", () => {
+    const policy = { ...basePolicy, roomMinPercent: { basement: 25, r2: 10 } };
+    const decision = evaluateVentPolicy(
+      policy,
+      [
+        { ventId: "v1", percentOpen: 20 },
+        { ventId: "v4", percentOpen: 5 },
+        { ventId: "v2", percentOpen: 30 }
+      ],
+      vents,
+      rooms
+    );
+    assert.deepEqual(
+      decision.violations.map((violation) => [violation.rule, violation.roomId, violation.ventIds]),
+      [
+        ["room_min_percent", "r1", ["v1"]],
+        ["room_min_percent", "r2", ["v4"]]
+      ]
+    );
+    assert.match(decision.violations[0].message, /Basement vents must stay at least 25% open/);
+  });
+
+  test("blocks vent changes during quiet hours, including windows that wrap midnight", () => {
+    const policy = { ...basePolicy, quietHours: { startMinute: 22 * 60, endMinute: 7 * 60 } };
+    const lateNight = Date.parse("2026-01-01T23:30:00Z");
+    const midday = Date.parse("2026-01-01T12:00:00Z");
+
+    assert.equal(isWithinQuietHours(policy.quietHours, lateNight, "UTC"), true);
+    assert.equal(isWithinQuietHours(policy.quietHours, Date.parse("2026-01-01T06:59:00Z"), "UTC"), true);
+    assert.equal(isWithinQuietHours(policy.quietHours, midday, "UTC"), false);
+
+    const decision = evaluateVentPolicy(policy, [{ ventId: "v1", percentOpen: 80 }], vents, rooms, lateNight);
+    assert.equal(decision.violations[0].rule, "quiet_hours");
+    assert.match(decision.violations[0].message, /22:00-07:00 UTC/);
+  });
+
+  test("ignores unknown vent IDs", () => {
+    const policy = { ...basePolicy, quietHours: { startMinute: 0, endMinute: 23 * 60 + 59 } };
+    const decision = evaluateVentPolicy(policy, [{ ventId: "nope", percentOpen: 0 }], vents, rooms);
+    assert.equal(decision.allowed, true);
+  });
+});
@@ -0,0 +1,61 @@
+import assert from "node:assert/strict";
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { after, before, describe, test } from "node:test";
+import { WriteJournal } from "../src/writeJournal.js";
+
+const ventChange = (resourceId: string, before: number, after: number) => ({
+  kind: "vent_percent_open" as const,
+  resourceType: "vents",
+  resourceId,
+  before: { "percent-open": before },
+  after: { "percent-open": after }
+});
+
+describe("WriteJournal", () => {
+  let dir: string;
+
+  before(async () => {
+    dir = await mkdtemp(path.join(os.tmpdir(), "flair-journal-"));
+  });
+
+  after(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  test("persists entries and reloads them after a restart", async () => {
+    const filePath = path.join(dir, "nested", "journal.json");
+    const journal = new WriteJournal({ filePath, maxEntries: 10 });
+    const first = await journal.record({ tool: "set_vent_percent_open", status: "applied", changes: [ventChange("v1", 100, 0)] });
+    await journal.record({ tool: "set_vent_percent_open", status: "applied", changes: [ventChange("v2", 50, 20)] });
+    await journal.update(first.id, { status: "undone", undoneBy: "later" });
+
+    const onDisk = JSON.parse(await readFile(filePath, "utf8"));
+    assert.equal(onDisk.entries.length, 2);
+
+    const reloaded = new WriteJournal({ filePath, maxEntries: 10 });
+    const entries = await reloaded.list();
+    assert.deepEqual(entries.map((entry) => entry.changes[0].resourceId), ["v2", "v1"]);
+    assert.equal((await reloaded.get(first.id))?.status, "undone");
+  });
+
+  test("keeps the newest entries and filters by resource", async () => {
+    const journal = new WriteJournal({ maxEntries: 3 });
+    for (let index = 0; index < 5; index += 1) {
+      await journal.record({ tool: "set_vent_percent_open", status: "applied", changes: [ventChange(`v${index % 2}`, 0, index)] });
+    }
+
+    assert.equal((await journal.list({ limit: 10 })).length, 3);
+    const forV0 = await journal.list({ resourceType: "vents", resourceId: "v0" });
+    assert.deepEqual(forV0.map((entry) => entry.changes[0].after["percent-open"]), [4, 2]);
+    assert.deepEqual(await journal.list({ resourceType: "rooms" }), []);
+  });
+
+  test("starts empty when the file is unreadable", async () => {
+    const filePath = path.join(dir, "corrupt.json");
+    await writeFile(filePath, "{not json");
+    const journal = new WriteJournal({ filePath, maxEntries: 10 });
+    assert.deepEqual(await journal.list(), []);
+  });
+});